@@ -23,6 +23,7 @@ async function main() {
                 firstName: 'Sample',
                 lastName: 'User',
                 isActive: true,
+                emailVerifiedAt: new Date(),
             },
         });
 
@@ -0,0 +1,86 @@
+import { sign } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { decodeJwtHeader, JwtError, JwtExpiredError, signJwt, verifyJwt, type JwtSigningKey, type JwtVerificationKey } from './jwt';
+import { generateSigningKey, toSigningKeyPair } from './signingKeys';
+import type { JwtAlgorithm } from '@src/common/constants/env';
+
+const keyPair = (algorithm: JwtAlgorithm): JwtSigningKey & JwtVerificationKey =>
+    toSigningKeyPair(generateSigningKey(algorithm, 'active'));
+
+const segment = (value: unknown): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('jwt', () => {
+    const rsa = keyPair('RS256');
+
+    it.each(['RS256', 'ES256', 'EdDSA'] as const)('signs and verifies %s tokens', (algorithm) => {
+        const key = keyPair(algorithm);
+        const token = signJwt({ sub: 'user-1' }, key, 60);
+
+        expect(decodeJwtHeader(token)).toEqual({ alg: algorithm, typ: 'JWT', kid: key.kid });
+        expect(verifyJwt(token, key)).toMatchObject({ sub: 'user-1' });
+    });
+
+    it('checks the issuer and audience', () => {
+        const token = signJwt({ iss: 'api', aud: ['api', 'admin'] }, rsa, 60);
+
+        expect(() => verifyJwt(token, rsa, { issuer: 'api', audience: 'admin' })).not.toThrow();
+        expect(() => verifyJwt(token, rsa, { issuer: 'other' })).toThrow('Unexpected issuer');
+        expect(() => verifyJwt(token, rsa, { audience: 'other' })).toThrow('Unexpected audience');
+    });
+
+    it('rejects expired tokens, allowing for clock skew', () => {
+        const token = signJwt({}, rsa, -10);
+
+        expect(() => verifyJwt(token, rsa)).toThrow(JwtExpiredError);
+        expect(() => verifyJwt(token, rsa, { clockSkew: 30 })).not.toThrow();
+    });
+
+    it('rejects a signature from another key', () => {
+        const token = signJwt({}, keyPair('RS256'), 60);
+
+        expect(() => verifyJwt(token, rsa)).toThrow('Invalid signature');
+    });
+
+    it('rejects a tampered payload', () => {
+        const [header, , signature] = signJwt({ sub: 'user-1' }, rsa, 60).split('.');
+        const now = Math.floor(Date.now() / 1000);
+        const forged = `${header}.${segment({ sub: 'admin', iat: now, exp: now + 60 })}.${signature}`;
+
+        expect(() => verifyJwt(forged, rsa)).toThrow('Invalid signature');
+    });
+
+    it('takes the algorithm from the key, never from the token', () => {
+        const [, payload, signature] = signJwt({}, rsa, 60).split('.');
+
+        // "none", and an HMAC keyed with the public key, are the classic confusions
+        for (const alg of ['none', 'HS256', 'ES256']) {
+            const token = `${segment({ alg, typ: 'JWT', kid: rsa.kid })}.${payload}.${alg === 'none' ? '' : signature}`;
+            expect(() => verifyJwt(token, rsa)).toThrow('Unexpected algorithm');
+        }
+    });
+
+    it.each([
+        ['null', segment(null)],
+        ['an array', segment([])],
+        ['a string', segment('RS256')],
+        ['a number', segment(1)],
+        ['not JSON', Buffer.from('{').toString('base64url')],
+    ])('rejects a header that is %s with a JwtError', (description, header) => {
+        const [, payload, signature] = signJwt({}, rsa, 60).split('.');
+        const token = `${header}.${payload}.${signature}`;
+
+        expect(() => decodeJwtHeader(token)).toThrow(JwtError);
+        expect(() => verifyJwt(token, rsa)).toThrow(JwtError);
+    });
+
+    it('rejects a correctly signed payload that is not an object', () => {
+        const signingInput = `${segment({ alg: 'RS256', typ: 'JWT', kid: rsa.kid })}.${segment(null)}`;
+        const signature = sign('sha256', Buffer.from(signingInput), rsa.privateKey).toString('base64url');
+
+        expect(() => verifyJwt(`${signingInput}.${signature}`, rsa)).toThrow('Malformed token');
+    });
+
+    it('rejects tokens without three segments', () => {
+        expect(() => verifyJwt('a.b', rsa)).toThrow('Malformed token');
+    });
+});
@@ -0,0 +1,164 @@
+import { sign, verify, type KeyObject } from 'crypto';
+import type { JwtAlgorithm } from '@src/common/constants/env';
+
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+export interface JwtHeader {
+    alg: string;
+    typ?: string;
+    kid?: string;
+}
+
+// Claims of a verified token; iat and exp are always set by signJwt
+export interface JwtClaims {
+    iat: number;
+    exp: number;
+    jti?: string;
+    [claim: string]: unknown;
+}
+
+// Key material for one algorithm, identified by kid
+export interface JwtSigningKey {
+    kid: string;
+    algorithm: JwtAlgorithm;
+    privateKey: KeyObject;
+}
+
+export interface JwtVerificationKey {
+    algorithm: JwtAlgorithm;
+    publicKey: KeyObject;
+}
+
+// Claims a token must carry beyond a valid signature; clockSkew in seconds
+export interface JwtVerifyOptions {
+    issuer?: string;
+    audience?: string; // The token's aud must be, or include, this value
+    clockSkew?: number;
+}
+
+/**
+ * Token is malformed, signed with an unknown key or has an invalid signature
+ */
+export class JwtError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'JwtError';
+    }
+}
+
+/**
+ * Token is well-formed and correctly signed, but past its exp
+ */
+export class JwtExpiredError extends JwtError {
+    constructor() {
+        super('Token expired');
+        this.name = 'JwtExpiredError';
+    }
+}
+
+/******************************************************************************
+                                Functions
+******************************************************************************/
+
+// Digest and signature encoding of each algorithm for crypto.sign / crypto.verify
+const SIGNATURE_OPTIONS: Record<JwtAlgorithm, { digest: string | null; dsaEncoding?: 'ieee-p1363' }> = {
+    RS256: { digest: 'sha256' },
+    ES256: { digest: 'sha256', dsaEncoding: 'ieee-p1363' }, // JWS signatures are raw r || s, not DER
+    EdDSA: { digest: null }, // Ed25519 hashes internally
+};
+
+const encodeSegment = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// Header and payload must be JSON objects; anything else (null, arrays, strings) is malformed
+const decodeSegment = <T>(segment: string): T => {
+    let value: unknown;
+
+    try {
+        value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    } catch {
+        throw new JwtError('Malformed token');
+    }
+
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new JwtError('Malformed token');
+    }
+
+    return value as T;
+};
+
+/**
+ * Sign claims as a compact JWS, with the key id in the header and iat/exp set from expiresIn (seconds)
+ */
+export const signJwt = (claims: object, key: JwtSigningKey, expiresIn: number): string => {
+    const iat = Math.floor(Date.now() / 1000);
+    const header: JwtHeader = { alg: key.algorithm, typ: 'JWT', kid: key.kid };
+    const signingInput = `${encodeSegment(header)}.${encodeSegment({ ...claims, iat, exp: iat + expiresIn })}`;
+
+    const { digest, dsaEncoding } = SIGNATURE_OPTIONS[key.algorithm];
+    const signature = sign(digest, Buffer.from(signingInput), {
+        key: key.privateKey,
+        ...(dsaEncoding && { dsaEncoding }),
+    });
+
+    return `${signingInput}.${signature.toString('base64url')}`;
+};
+
+/**
+ * Read a token's header without verifying it, to find the key it claims to be signed with
+ */
+export const decodeJwtHeader = (token: string): JwtHeader => {
+    const [header] = token.split('.');
+    return decodeSegment<JwtHeader>(header ?? '');
+};
+
+/**
+ * Verify a compact JWS with the given key and return its claims. The key decides the algorithm,
+ * never the token header, so a token can't downgrade itself to a weaker one.
+ */
+export const verifyJwt = (token: string, key: JwtVerificationKey, options: JwtVerifyOptions = {}): JwtClaims => {
+    const parts = token.split('.');
+
+    if (parts.length !== 3) {
+        throw new JwtError('Malformed token');
+    }
+
+    const [header, payload, signature] = parts as [string, string, string];
+
+    if (decodeSegment<JwtHeader>(header).alg !== key.algorithm) {
+        throw new JwtError('Unexpected algorithm');
+    }
+
+    const { digest, dsaEncoding } = SIGNATURE_OPTIONS[key.algorithm];
+    const valid = verify(
+        digest,
+        Buffer.from(`${header}.${payload}`),
+        { key: key.publicKey, ...(dsaEncoding && { dsaEncoding }) },
+        Buffer.from(signature, 'base64url')
+    );
+
+    if (!valid) {
+        throw new JwtError('Invalid signature');
+    }
+
+    const claims = decodeSegment<Partial<JwtClaims>>(payload);
+
+    if (typeof claims.exp !== 'number' || typeof claims.iat !== 'number') {
+        throw new JwtError('Malformed token');
+    }
+
+    if (claims.exp + (options.clockSkew ?? 0) <= Math.floor(Date.now() / 1000)) {
+        throw new JwtExpiredError();
+    }
+
+    if (options.issuer !== undefined && claims.iss !== options.issuer) {
+        throw new JwtError('Unexpected issuer');
+    }
+
+    if (options.audience !== undefined && ![claims.aud].flat().includes(options.audience)) {
+        throw new JwtError('Unexpected audience');
+    }
+
+    return claims as JwtClaims;
+};
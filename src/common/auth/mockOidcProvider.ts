@@ -0,0 +1,209 @@
+import express, { type Express, type Request, type Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { createHash, generateKeyPairSync, randomBytes, randomUUID, type KeyObject } from 'crypto';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+// Claims of the account the mock provider signs in
+export interface MockOidcUser {
+    sub: string;
+    email: string;
+    email_verified: boolean;
+    given_name?: string;
+    family_name?: string;
+}
+
+interface PendingCode {
+    clientId: string;
+    redirectUri: string;
+    codeChallenge: string;
+    nonce: string | undefined;
+    user: MockOidcUser;
+    expiresAt: number;
+}
+
+interface MockOidcOptions {
+    clientId: string;
+    clientSecret: string;
+    user?: MockOidcUser;
+}
+
+/******************************************************************************
+                            Mock OIDC Provider
+******************************************************************************/
+
+/**
+ * Minimal OpenID Connect provider for local development and tests: discovery, an authorize
+ * endpoint that signs in the configured user without any UI, token (authorization code + PKCE),
+ * JWKS and userinfo. ID tokens are RS256 signed with a key generated at startup.
+ */
+export class MockOidcProvider {
+    issuer = '';
+    user: MockOidcUser;
+
+    private server: Server | null = null;
+    private readonly kid = randomUUID();
+    private readonly privateKey: KeyObject;
+    private readonly publicKey: KeyObject;
+    private readonly codes = new Map<string, PendingCode>();
+    private readonly accessTokens = new Map<string, MockOidcUser>();
+
+    constructor(private readonly options: MockOidcOptions) {
+        const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+        this.privateKey = privateKey;
+        this.publicKey = publicKey;
+        this.user = options.user ?? {
+            sub: 'mock-user-1',
+            email: 'mock.user@example.com',
+            email_verified: true,
+            given_name: 'Mock',
+            family_name: 'User',
+        };
+    }
+
+    /**
+     * Start listening; resolves with the issuer URL (port 0 picks a free port)
+     */
+    async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+        const app = this.createApp();
+
+        await new Promise<void>(resolve => {
+            this.server = app.listen(port, host, () => resolve());
+        });
+
+        const address = this.server!.address() as AddressInfo;
+        this.issuer = `http://${host}:${address.port}`;
+
+        return this.issuer;
+    }
+
+    async stop(): Promise<void> {
+        if (!this.server) {
+            return;
+        }
+
+        await new Promise<void>((resolve, reject) => this.server!.close(error => error ? reject(error) : resolve()));
+        this.server = null;
+    }
+
+    private createApp(): Express {
+        const app = express();
+        app.use(express.urlencoded({ extended: false }));
+
+        app.get('/.well-known/openid-configuration', (req: Request, res: Response) => {
+            res.json({
+                issuer: this.issuer,
+                authorization_endpoint: `${this.issuer}/authorize`,
+                token_endpoint: `${this.issuer}/token`,
+                jwks_uri: `${this.issuer}/jwks`,
+                userinfo_endpoint: `${this.issuer}/userinfo`,
+                response_types_supported: ['code'],
+                subject_types_supported: ['public'],
+                id_token_signing_alg_values_supported: ['RS256'],
+                code_challenge_methods_supported: ['S256'],
+            });
+        });
+
+        app.get('/jwks', (req: Request, res: Response) => {
+            res.json({
+                keys: [{ ...this.publicKey.export({ format: 'jwk' }), kid: this.kid, alg: 'RS256', use: 'sig' }],
+            });
+        });
+
+        app.get('/authorize', (req: Request, res: Response) => {
+            const query = req.query as Record<string, string | undefined>;
+
+            if (query.client_id !== this.options.clientId || !query.redirect_uri) {
+                res.status(400).json({ error: 'invalid_client' });
+                return;
+            }
+
+            const redirect = new URL(query.redirect_uri);
+
+            if (query.response_type !== 'code' || query.code_challenge_method !== 'S256' || !query.code_challenge) {
+                redirect.search = new URLSearchParams({ error: 'invalid_request', state: query.state ?? '' }).toString();
+                res.redirect(302, redirect.toString());
+                return;
+            }
+
+            const code = randomBytes(16).toString('base64url');
+            this.codes.set(code, {
+                clientId: query.client_id,
+                redirectUri: query.redirect_uri,
+                codeChallenge: query.code_challenge,
+                nonce: query.nonce,
+                user: this.user,
+                expiresAt: Date.now() + 60_000,
+            });
+
+            redirect.search = new URLSearchParams({ code, state: query.state ?? '' }).toString();
+            res.redirect(302, redirect.toString());
+        });
+
+        app.post('/token', (req: Request, res: Response) => {
+            const body = req.body as Record<string, string | undefined>;
+            const pending = body.code ? this.codes.get(body.code) : undefined;
+
+            // Codes are single-use
+            if (body.code) {
+                this.codes.delete(body.code);
+            }
+
+            if (body.client_id !== this.options.clientId || body.client_secret !== this.options.clientSecret) {
+                res.status(401).json({ error: 'invalid_client' });
+                return;
+            }
+
+            const challenge = body.code_verifier
+                ? createHash('sha256').update(body.code_verifier).digest('base64url')
+                : null;
+
+            if (
+                body.grant_type !== 'authorization_code' ||
+                !pending ||
+                pending.expiresAt < Date.now() ||
+                pending.clientId !== body.client_id ||
+                pending.redirectUri !== body.redirect_uri ||
+                pending.codeChallenge !== challenge
+            ) {
+                res.status(400).json({ error: 'invalid_grant' });
+                return;
+            }
+
+            const accessToken = randomBytes(24).toString('base64url');
+            this.accessTokens.set(accessToken, pending.user);
+
+            const idToken = jwt.sign(
+                { ...pending.user, ...(pending.nonce ? { nonce: pending.nonce } : {}) },
+                this.privateKey,
+                {
+                    algorithm: 'RS256',
+                    keyid: this.kid,
+                    issuer: this.issuer,
+                    audience: pending.clientId,
+                    expiresIn: 5 * 60,
+                }
+            );
+
+            res.json({ access_token: accessToken, token_type: 'Bearer', expires_in: 3600, id_token: idToken });
+        });
+
+        app.get('/userinfo', (req: Request, res: Response) => {
+            const token = req.headers.authorization?.replace(/^Bearer /, '');
+            const user = token ? this.accessTokens.get(token) : undefined;
+
+            if (!user) {
+                res.status(401).json({ error: 'invalid_token' });
+                return;
+            }
+
+            res.json(user);
+        });
+
+        return app;
+    }
+}
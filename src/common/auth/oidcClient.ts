@@ -0,0 +1,256 @@
+import jwt from 'jsonwebtoken';
+import { createHash, createPublicKey, randomBytes, type JsonWebKeyInput, type KeyObject } from 'crypto';
+import type { ExternalProfile } from '@src/models/oidc';
+import type { OidcProviderConfig } from './oidcProviders';
+
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+// Subset of the discovery document we rely on
+interface ProviderMetadata {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri?: string;
+    userinfo_endpoint?: string;
+}
+
+interface TokenResponse {
+    access_token: string;
+    id_token?: string;
+    token_type?: string;
+    expires_in?: number;
+}
+
+interface IdTokenClaims {
+    iss: string;
+    sub: string;
+    aud: string | string[];
+    nonce?: string;
+    tid?: string;
+    email?: string;
+    email_verified?: boolean | string;
+    given_name?: string;
+    family_name?: string;
+}
+
+// Asymmetric algorithms only; "none" and shared-secret (HS*) tokens are rejected
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+/******************************************************************************
+                                PKCE (RFC 7636)
+******************************************************************************/
+
+/**
+ * Random code verifier and its S256 challenge
+ */
+export const createPkcePair = (): { verifier: string; challenge: string } => {
+    const verifier = randomBytes(32).toString('base64url');
+    const challenge = createHash('sha256').update(verifier).digest('base64url');
+
+    return { verifier, challenge };
+};
+
+/******************************************************************************
+                                OIDC Client
+******************************************************************************/
+
+/**
+ * Authorization code flow (with PKCE) against one provider.
+ * Discovery documents and signing keys are cached for the lifetime of the client.
+ */
+export class OidcClient {
+    private metadata: ProviderMetadata | null = null;
+    private readonly keys = new Map<string, KeyObject>();
+
+    constructor(
+        readonly provider: OidcProviderConfig,
+        private readonly redirectUri: string,
+        private readonly clockTolerance: number = 60
+    ) {}
+
+    /**
+     * URL to send the browser to
+     */
+    async getAuthorizationUrl(params: { state: string; nonce: string; codeChallenge: string }): Promise<string> {
+        const metadata = await this.getMetadata();
+        const url = new URL(metadata.authorization_endpoint);
+
+        url.search = new URLSearchParams({
+            response_type: 'code',
+            client_id: this.provider.clientId,
+            redirect_uri: this.redirectUri,
+            scope: this.provider.scopes.join(' '),
+            state: params.state,
+            nonce: params.nonce,
+            code_challenge: params.codeChallenge,
+            code_challenge_method: 'S256',
+        }).toString();
+
+        return url.toString();
+    }
+
+    /**
+     * Exchange the authorization code and return the signed-in account.
+     * For OIDC providers the ID token's signature, issuer, audience, expiry and nonce are validated.
+     */
+    async authenticate(code: string, codeVerifier: string, nonce: string): Promise<ExternalProfile> {
+        const tokens = await this.exchangeCode(code, codeVerifier);
+
+        if (this.provider.fetchProfile) {
+            return this.provider.fetchProfile(tokens.access_token);
+        }
+
+        if (!tokens.id_token) {
+            throw new Error('Token response did not include an ID token');
+        }
+
+        const claims = await this.verifyIdToken(tokens.id_token, nonce);
+
+        return {
+            subject: claims.sub,
+            email: claims.email ?? null,
+            // Some providers send the flag as a string
+            emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+            firstName: claims.given_name ?? null,
+            lastName: claims.family_name ?? null,
+        };
+    }
+
+    /**
+     * Redeem an authorization code at the token endpoint
+     */
+    private async exchangeCode(code: string, codeVerifier: string): Promise<TokenResponse> {
+        const metadata = await this.getMetadata();
+
+        const response = await fetch(metadata.token_endpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                Accept: 'application/json',
+            },
+            body: new URLSearchParams({
+                grant_type: 'authorization_code',
+                code,
+                redirect_uri: this.redirectUri,
+                client_id: this.provider.clientId,
+                client_secret: this.provider.clientSecret,
+                code_verifier: codeVerifier,
+            }),
+        });
+
+        const body = await response.json().catch(() => ({})) as Partial<TokenResponse> & { error?: string };
+
+        if (!response.ok || body.error || !body.access_token) {
+            throw new Error(`Token request failed: ${body.error ?? `status ${response.status}`}`);
+        }
+
+        return body as TokenResponse;
+    }
+
+    /**
+     * Validate an ID token against the provider's published keys
+     */
+    private async verifyIdToken(idToken: string, nonce: string): Promise<IdTokenClaims> {
+        const metadata = await this.getMetadata();
+        const decoded = jwt.decode(idToken, { complete: true });
+
+        if (!decoded || typeof decoded.payload === 'string') {
+            throw new Error('Malformed ID token');
+        }
+
+        const key = await this.getSigningKey(decoded.header.kid);
+
+        const claims = jwt.verify(idToken, key, {
+            algorithms: ID_TOKEN_ALGORITHMS,
+            audience: this.provider.clientId,
+            clockTolerance: this.clockTolerance,
+        }) as IdTokenClaims;
+
+        // Multi-tenant issuers (Microsoft "common") are templated on the tenant id
+        const expectedIssuer = metadata.issuer.replace('{tenantid}', claims.tid ?? '');
+        if (claims.iss !== expectedIssuer) {
+            throw new Error(`Unexpected ID token issuer: ${claims.iss}`);
+        }
+
+        if (!claims.nonce || claims.nonce !== nonce) {
+            throw new Error('ID token nonce mismatch');
+        }
+
+        return claims;
+    }
+
+    /**
+     * Public key for a key id, refetching the JWKS once when the key is unknown (provider key rotation)
+     */
+    private async getSigningKey(kid: string | undefined): Promise<KeyObject> {
+        const cacheKey = kid ?? '';
+
+        if (!this.keys.has(cacheKey)) {
+            await this.loadKeys();
+        }
+
+        const key = this.keys.get(cacheKey);
+        if (!key) {
+            throw new Error(`No signing key found for kid: ${cacheKey}`);
+        }
+
+        return key;
+    }
+
+    private async loadKeys(): Promise<void> {
+        const metadata = await this.getMetadata();
+
+        if (!metadata.jwks_uri) {
+            throw new Error('Provider does not publish a JWKS');
+        }
+
+        const response = await fetch(metadata.jwks_uri);
+        if (!response.ok) {
+            throw new Error(`JWKS request failed with status ${response.status}`);
+        }
+
+        const { keys } = await response.json() as { keys: (JsonWebKeyInput['key'] & { kid?: string; use?: string })[] };
+
+        this.keys.clear();
+        for (const jwk of keys) {
+            if (jwk.use && jwk.use !== 'sig') {
+                continue;
+            }
+            this.keys.set(jwk.kid ?? '', createPublicKey({ key: jwk, format: 'jwk' }));
+        }
+    }
+
+    /**
+     * Discovery document, or the explicit endpoints of a plain OAuth2 provider
+     */
+    private async getMetadata(): Promise<ProviderMetadata> {
+        if (this.metadata) {
+            return this.metadata;
+        }
+
+        const { issuer, authorizationEndpoint, tokenEndpoint } = this.provider;
+
+        if (authorizationEndpoint && tokenEndpoint) {
+            this.metadata = {
+                issuer: issuer ?? '',
+                authorization_endpoint: authorizationEndpoint,
+                token_endpoint: tokenEndpoint,
+            };
+            return this.metadata;
+        }
+
+        if (!issuer) {
+            throw new Error(`Provider ${this.provider.name} has neither an issuer nor explicit endpoints`);
+        }
+
+        const response = await fetch(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+        if (!response.ok) {
+            throw new Error(`Discovery request failed with status ${response.status}`);
+        }
+
+        this.metadata = await response.json() as ProviderMetadata;
+        return this.metadata;
+    }
+}
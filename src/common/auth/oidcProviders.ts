@@ -0,0 +1,125 @@
+import { ENV } from '@src/common/constants/env';
+import logger from '@src/common/utils/logger';
+import type { ExternalProfile } from '@src/models/oidc';
+
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+export interface OidcProviderConfig {
+    name: string;
+    displayName: string;
+    clientId: string;
+    clientSecret: string;
+    scopes: string[];
+
+    // OpenID Connect: endpoints come from discovery, the identity from the ID token
+    issuer?: string;
+
+    // Plain OAuth2 (no ID token): explicit endpoints and a profile loader
+    authorizationEndpoint?: string;
+    tokenEndpoint?: string;
+    fetchProfile?: (accessToken: string) => Promise<ExternalProfile>;
+}
+
+type ProviderPreset = Omit<OidcProviderConfig, 'name' | 'clientId' | 'clientSecret'>;
+
+/******************************************************************************
+                                Presets
+******************************************************************************/
+
+/**
+ * GitHub is OAuth2 only: the profile comes from its REST API, and the email is
+ * the primary address only when GitHub has verified it
+ */
+const fetchGitHubProfile = async (accessToken: string): Promise<ExternalProfile> => {
+    const headers = { Authorization: `Bearer ${accessToken}`, Accept: 'application/vnd.github+json' };
+
+    const [userResponse, emailsResponse] = await Promise.all([
+        fetch('https://api.github.com/user', { headers }),
+        fetch('https://api.github.com/user/emails', { headers }),
+    ]);
+
+    if (!userResponse.ok) {
+        throw new Error(`GitHub user request failed with status ${userResponse.status}`);
+    }
+
+    const user = await userResponse.json() as { id: number; name: string | null };
+    const emails = emailsResponse.ok
+        ? await emailsResponse.json() as { email: string; primary: boolean; verified: boolean }[]
+        : [];
+    const primary = emails.find(entry => entry.primary);
+    const [firstName, ...rest] = (user.name ?? '').split(' ').filter(Boolean);
+
+    return {
+        subject: String(user.id),
+        email: primary?.email ?? null,
+        emailVerified: primary?.verified === true,
+        firstName: firstName ?? null,
+        lastName: rest.length > 0 ? rest.join(' ') : null,
+    };
+};
+
+const PRESETS: Record<string, ProviderPreset> = {
+    google: {
+        displayName: 'Google',
+        issuer: 'https://accounts.google.com',
+        scopes: ['openid', 'email', 'profile'],
+    },
+    microsoft: {
+        displayName: 'Microsoft',
+        // "common" accepts any tenant; the ID token's issuer is checked against its tid claim
+        issuer: `https://login.microsoftonline.com/${process.env.OIDC_MICROSOFT_TENANT || 'common'}/v2.0`,
+        scopes: ['openid', 'email', 'profile'],
+    },
+    github: {
+        displayName: 'GitHub',
+        authorizationEndpoint: 'https://github.com/login/oauth/authorize',
+        tokenEndpoint: 'https://github.com/login/oauth/access_token',
+        scopes: ['read:user', 'user:email'],
+        fetchProfile: fetchGitHubProfile,
+    },
+};
+
+/******************************************************************************
+                                Functions
+******************************************************************************/
+
+/**
+ * Build the config of every provider listed in OIDC_PROVIDERS from its OIDC_<NAME>_* variables.
+ * Any OpenID Connect provider can be added by name with an OIDC_<NAME>_ISSUER.
+ */
+export const loadOidcProviders = (): Map<string, OidcProviderConfig> => {
+    const providers = new Map<string, OidcProviderConfig>();
+
+    for (const name of ENV.OIDC_PROVIDERS) {
+        const prefix = `OIDC_${name.toUpperCase()}_`;
+        const preset = PRESETS[name];
+        const clientId = process.env[`${prefix}CLIENT_ID`];
+        const clientSecret = process.env[`${prefix}CLIENT_SECRET`] || '';
+        const issuer = process.env[`${prefix}ISSUER`] || preset?.issuer;
+        const scopes = process.env[`${prefix}SCOPES`]?.split(/[\s,]+/).filter(Boolean);
+
+        if (!clientId) {
+            logger.warn(`Sign-in provider "${name}" is enabled but ${prefix}CLIENT_ID is not set; skipping it`);
+            continue;
+        }
+
+        if (!issuer && !preset?.authorizationEndpoint) {
+            logger.warn(`Sign-in provider "${name}" needs ${prefix}ISSUER; skipping it`);
+            continue;
+        }
+
+        providers.set(name, {
+            ...preset,
+            name,
+            displayName: process.env[`${prefix}DISPLAY_NAME`] || preset?.displayName || name,
+            clientId,
+            clientSecret,
+            scopes: scopes ?? preset?.scopes ?? ['openid', 'email', 'profile'],
+            ...(issuer ? { issuer } : {}),
+        });
+    }
+
+    return providers;
+};
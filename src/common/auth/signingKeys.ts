@@ -0,0 +1,169 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, randomUUID, type KeyObject } from 'crypto';
+import { prisma } from '@utils/prisma';
+import { SecretBox } from '@utils/secretBox';
+import type { JwtAlgorithm } from '@src/common/constants/env';
+
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+/**
+ * Lifecycle of a key pair:
+ * - next: published in the JWKS so verifiers can cache it, not used yet
+ * - active: signs new tokens
+ * - retired: no longer signs, still verifies until expiresAt (when the last token it signed has expired)
+ */
+export type SigningKeyStatus = 'next' | 'active' | 'retired';
+
+// A key pair as kept in a store (PEM encoded)
+export interface SigningKeyRecord {
+    kid: string;
+    algorithm: JwtAlgorithm;
+    status: SigningKeyStatus;
+    publicKey: string; // SPKI PEM
+    privateKey: string; // PKCS#8 PEM
+    createdAt: Date;
+    activatedAt: Date | null;
+    retiredAt: Date | null;
+    expiresAt: Date | null; // Set when retired
+}
+
+// A key pair ready for use
+export interface SigningKeyPair extends Omit<SigningKeyRecord, 'publicKey' | 'privateKey'> {
+    publicKey: KeyObject;
+    privateKey: KeyObject;
+}
+
+/**
+ * Store of signing key pairs. Each instance reads the keys from it; rotation writes every
+ * changed key in one go.
+ */
+export interface SigningKeyStore {
+    readonly name: string;
+    list(): Promise<SigningKeyRecord[]>;
+    save(keys: SigningKeyRecord[]): Promise<void>; // Inserts or updates by kid, all or nothing
+    purgeExpired(): Promise<number>; // Deletes retired keys past expiresAt
+}
+
+/******************************************************************************
+                                Stores
+******************************************************************************/
+
+/**
+ * Process-local store (single instance deployments and tests). Keys are lost on restart, which
+ * invalidates outstanding access tokens; clients get new ones with their refresh token.
+ */
+export class MemorySigningKeyStore implements SigningKeyStore {
+    readonly name = 'memory';
+    private readonly keys = new Map<string, SigningKeyRecord>();
+
+    async list(): Promise<SigningKeyRecord[]> {
+        return [...this.keys.values()];
+    }
+
+    async save(keys: SigningKeyRecord[]): Promise<void> {
+        for (const key of keys) {
+            this.keys.set(key.kid, key);
+        }
+    }
+
+    async purgeExpired(): Promise<number> {
+        const now = Date.now();
+        let purged = 0;
+
+        for (const [kid, key] of this.keys) {
+            if (key.status === 'retired' && key.expiresAt && key.expiresAt.getTime() <= now) {
+                this.keys.delete(kid);
+                purged++;
+            }
+        }
+
+        return purged;
+    }
+}
+
+/**
+ * Postgres-backed store, shared by every instance using the same database.
+ * Private keys are encrypted at rest.
+ */
+export class PostgresSigningKeyStore implements SigningKeyStore {
+    readonly name = 'postgres';
+    private readonly secretBox: SecretBox;
+
+    constructor(encryptionKey: string) {
+        this.secretBox = new SecretBox(encryptionKey);
+    }
+
+    async list(): Promise<SigningKeyRecord[]> {
+        const keys = await prisma.signingKey.findMany({ orderBy: { createdAt: 'asc' } });
+
+        return keys.map(key => ({
+            ...key,
+            algorithm: key.algorithm as JwtAlgorithm,
+            status: key.status as SigningKeyStatus,
+            privateKey: this.secretBox.decrypt(key.privateKey),
+        }));
+    }
+
+    async save(keys: SigningKeyRecord[]): Promise<void> {
+        await prisma.$transaction(keys.map(key => {
+            const data = { ...key, privateKey: this.secretBox.encrypt(key.privateKey) };
+
+            return prisma.signingKey.upsert({
+                where: { kid: key.kid },
+                update: data,
+                create: data,
+            });
+        }));
+    }
+
+    async purgeExpired(): Promise<number> {
+        const result = await prisma.signingKey.deleteMany({
+            where: { status: 'retired', expiresAt: { lte: new Date() } },
+        });
+        return result.count;
+    }
+}
+
+/******************************************************************************
+                                Functions
+******************************************************************************/
+
+/**
+ * Generate a key pair for the algorithm (RSA 2048, P-256 or Ed25519)
+ */
+export const generateSigningKey = (algorithm: JwtAlgorithm, status: SigningKeyStatus): SigningKeyRecord => {
+    const encoding = {
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    } as const;
+
+    const { publicKey, privateKey } = algorithm === 'RS256'
+        ? generateKeyPairSync('rsa', { modulusLength: 2048, ...encoding })
+        : algorithm === 'ES256'
+            ? generateKeyPairSync('ec', { namedCurve: 'P-256', ...encoding })
+            : generateKeyPairSync('ed25519', encoding);
+
+    const now = new Date();
+
+    return {
+        kid: randomUUID(),
+        algorithm,
+        status,
+        publicKey,
+        privateKey,
+        createdAt: now,
+        activatedAt: status === 'active' ? now : null,
+        retiredAt: null,
+        expiresAt: null,
+    };
+};
+
+/**
+ * Parse a stored key pair
+ */
+export const toSigningKeyPair = (record: SigningKeyRecord): SigningKeyPair => ({
+    ...record,
+    publicKey: createPublicKey(record.publicKey),
+    privateKey: createPrivateKey(record.privateKey),
+});
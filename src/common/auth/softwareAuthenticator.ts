@@ -0,0 +1,175 @@
+import { createHash, generateKeyPairSync, randomBytes, sign, type KeyObject } from 'crypto';
+import { isoCBOR } from '@simplewebauthn/server/helpers';
+import type {
+    AuthenticationResponseJSON,
+    PublicKeyCredentialCreationOptionsJSON,
+    PublicKeyCredentialRequestOptionsJSON,
+    RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+
+/******************************************************************************
+                                Constants
+******************************************************************************/
+
+// Authenticator data flags (WebAuthn §6.1)
+const FLAGS = {
+    USER_PRESENT: 0x01,
+    USER_VERIFIED: 0x04,
+    ATTESTED_CREDENTIAL_DATA: 0x40,
+} as const;
+
+// COSE key parameters for an ES256 (P-256) public key (RFC 9053)
+const COSE = {
+    KTY: 1,
+    ALG: 3,
+    CRV: -1,
+    X: -2,
+    Y: -3,
+    KTY_EC2: 2,
+    ALG_ES256: -7,
+    CRV_P256: 1,
+} as const;
+
+/******************************************************************************
+                            Software Authenticator
+******************************************************************************/
+
+interface StoredCredential {
+    id: Buffer;
+    privateKey: KeyObject;
+    counter: number;
+}
+
+/**
+ * In-memory stand-in for a platform authenticator, for exercising the passkey
+ * ceremonies in tests and scripts without a browser. Produces ES256 credentials
+ * with "none" attestation. Never use it to protect real accounts.
+ */
+export class SoftwareAuthenticator {
+    private readonly credentials: StoredCredential[] = [];
+
+    constructor(
+        private readonly origin: string,
+        private readonly options: { userVerification: boolean } = { userVerification: true }
+    ) {}
+
+    /**
+     * Answer navigator.credentials.create()
+     */
+    createCredential(options: PublicKeyCredentialCreationOptionsJSON): RegistrationResponseJSON {
+        const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+        const jwk = publicKey.export({ format: 'jwk' });
+
+        const credential: StoredCredential = { id: randomBytes(16), privateKey, counter: 0 };
+        this.credentials.push(credential);
+
+        const cosePublicKey = isoCBOR.encode(new Map<number, number | Uint8Array>([
+            [COSE.KTY, COSE.KTY_EC2],
+            [COSE.ALG, COSE.ALG_ES256],
+            [COSE.CRV, COSE.CRV_P256],
+            [COSE.X, Buffer.from(jwk.x!, 'base64url')],
+            [COSE.Y, Buffer.from(jwk.y!, 'base64url')],
+        ]));
+
+        const attestedCredentialData = Buffer.concat([
+            Buffer.alloc(16), // AAGUID (all zeros for "none" attestation)
+            this.uint16(credential.id.length),
+            credential.id,
+            cosePublicKey,
+        ]);
+
+        const authData = Buffer.concat([
+            this.authenticatorData(options.rp.id ?? new URL(this.origin).hostname, credential.counter, FLAGS.ATTESTED_CREDENTIAL_DATA),
+            attestedCredentialData,
+        ]);
+
+        const attestationObject = isoCBOR.encode(new Map<string, string | Map<never, never> | Uint8Array>([
+            ['fmt', 'none'],
+            ['attStmt', new Map<never, never>()],
+            ['authData', authData],
+        ]));
+
+        const id = credential.id.toString('base64url');
+
+        return {
+            id,
+            rawId: id,
+            type: 'public-key',
+            response: {
+                clientDataJSON: this.clientData('webauthn.create', options.challenge),
+                attestationObject: Buffer.from(attestationObject).toString('base64url'),
+                transports: ['internal'],
+            },
+            clientExtensionResults: {},
+            authenticatorAttachment: 'platform',
+        };
+    }
+
+    /**
+     * Answer navigator.credentials.get() with the first matching credential
+     */
+    getAssertion(options: PublicKeyCredentialRequestOptionsJSON): AuthenticationResponseJSON {
+        const allowed = options.allowCredentials?.map(descriptor => descriptor.id) ?? [];
+        const credential = this.credentials.find(candidate =>
+            allowed.length === 0 || allowed.includes(candidate.id.toString('base64url'))
+        );
+
+        if (!credential) {
+            throw new Error('No matching credential on this authenticator');
+        }
+
+        credential.counter += 1;
+
+        const authData = this.authenticatorData(
+            options.rpId ?? new URL(this.origin).hostname,
+            credential.counter
+        );
+        const clientDataJSON = this.clientData('webauthn.get', options.challenge);
+        const clientDataHash = createHash('sha256').update(Buffer.from(clientDataJSON, 'base64url')).digest();
+
+        const signature = sign('sha256', Buffer.concat([authData, clientDataHash]), credential.privateKey);
+        const id = credential.id.toString('base64url');
+
+        return {
+            id,
+            rawId: id,
+            type: 'public-key',
+            response: {
+                clientDataJSON,
+                authenticatorData: authData.toString('base64url'),
+                signature: signature.toString('base64url'),
+            },
+            clientExtensionResults: {},
+            authenticatorAttachment: 'platform',
+        };
+    }
+
+    /**
+     * rpIdHash | flags | signCount
+     */
+    private authenticatorData(rpId: string, counter: number, extraFlags: number = 0): Buffer {
+        const flags = FLAGS.USER_PRESENT
+            | (this.options.userVerification ? FLAGS.USER_VERIFIED : 0)
+            | extraFlags;
+
+        const signCount = Buffer.alloc(4);
+        signCount.writeUInt32BE(counter);
+
+        return Buffer.concat([
+            createHash('sha256').update(rpId).digest(),
+            Buffer.from([flags]),
+            signCount,
+        ]);
+    }
+
+    private clientData(type: 'webauthn.create' | 'webauthn.get', challenge: string): string {
+        const json = JSON.stringify({ type, challenge, origin: this.origin, crossOrigin: false });
+        return Buffer.from(json).toString('base64url');
+    }
+
+    private uint16(value: number): Buffer {
+        const buffer = Buffer.alloc(2);
+        buffer.writeUInt16BE(value);
+        return buffer;
+    }
+}
@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryDenylistStore } from './tokenDenylist';
+
+describe('MemoryDenylistStore', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('denies a token id until the token would have expired', async () => {
+        const store = new MemoryDenylistStore();
+        await store.add('jti-1', new Date(Date.now() + 60_000));
+
+        expect(await store.has('jti-1')).toBe(true);
+        expect(await store.has('jti-2')).toBe(false);
+
+        vi.advanceTimersByTime(60_000);
+        expect(await store.has('jti-1')).toBe(false);
+    });
+
+    it('purges expired entries only', async () => {
+        const store = new MemoryDenylistStore();
+        await store.add('short', new Date(Date.now() + 1_000));
+        await store.add('long', new Date(Date.now() + 60_000));
+
+        vi.advanceTimersByTime(1_000);
+
+        expect(await store.purgeExpired()).toBe(1);
+        expect(await store.has('long')).toBe(true);
+    });
+});
@@ -0,0 +1,125 @@
+import { prisma } from '@utils/prisma';
+
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+/**
+ * Store of revoked access token ids (jti).
+ * Entries only need to live until the token would have expired anyway.
+ */
+export interface TokenDenylistStore {
+    readonly name: string;
+    add(jti: string, expiresAt: Date): Promise<void>;
+    has(jti: string): Promise<boolean>;
+    purgeExpired(): Promise<number>;
+}
+
+/**
+ * Minimal subset of a Redis client (node-redis v4 signature).
+ * Wrap other clients, e.g. ioredis, to match it.
+ */
+export interface RedisLikeClient {
+    set(key: string, value: string, options: { EX: number }): Promise<unknown>;
+    exists(key: string): Promise<number>;
+}
+
+/******************************************************************************
+                                Stores
+******************************************************************************/
+
+/**
+ * Process-local store (single instance deployments and tests)
+ */
+export class MemoryDenylistStore implements TokenDenylistStore {
+    readonly name = 'memory';
+    private readonly entries = new Map<string, number>();
+
+    async add(jti: string, expiresAt: Date): Promise<void> {
+        this.entries.set(jti, expiresAt.getTime());
+    }
+
+    async has(jti: string): Promise<boolean> {
+        const expiresAt = this.entries.get(jti);
+
+        if (expiresAt === undefined) {
+            return false;
+        }
+
+        if (expiresAt <= Date.now()) {
+            this.entries.delete(jti);
+            return false;
+        }
+
+        return true;
+    }
+
+    async purgeExpired(): Promise<number> {
+        const now = Date.now();
+        let purged = 0;
+
+        for (const [jti, expiresAt] of this.entries) {
+            if (expiresAt <= now) {
+                this.entries.delete(jti);
+                purged++;
+            }
+        }
+
+        return purged;
+    }
+}
+
+/**
+ * Postgres-backed store, shared by every instance using the same database
+ */
+export class PostgresDenylistStore implements TokenDenylistStore {
+    readonly name = 'postgres';
+
+    async add(jti: string, expiresAt: Date): Promise<void> {
+        await prisma.revokedToken.upsert({
+            where: { jti },
+            update: { expiresAt },
+            create: { jti, expiresAt },
+        });
+    }
+
+    async has(jti: string): Promise<boolean> {
+        const entry = await prisma.revokedToken.findUnique({ where: { jti } });
+        return entry !== null && entry.expiresAt > new Date();
+    }
+
+    async purgeExpired(): Promise<number> {
+        const result = await prisma.revokedToken.deleteMany({
+            where: { expiresAt: { lte: new Date() } },
+        });
+        return result.count;
+    }
+}
+
+/**
+ * Redis-compatible store; entries expire on their own through the key TTL
+ */
+export class RedisDenylistStore implements TokenDenylistStore {
+    readonly name = 'redis';
+
+    constructor(
+        private readonly client: RedisLikeClient,
+        private readonly prefix: string = 'denylist:'
+    ) { }
+
+    async add(jti: string, expiresAt: Date): Promise<void> {
+        const ttlSeconds = Math.ceil((expiresAt.getTime() - Date.now()) / 1000);
+
+        if (ttlSeconds > 0) {
+            await this.client.set(this.prefix + jti, '1', { EX: ttlSeconds });
+        }
+    }
+
+    async has(jti: string): Promise<boolean> {
+        return (await this.client.exists(this.prefix + jti)) > 0;
+    }
+
+    async purgeExpired(): Promise<number> {
+        return 0; // Handled by Redis key expiry
+    }
+}
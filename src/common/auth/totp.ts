@@ -0,0 +1,140 @@
+import { createHmac, randomBytes } from 'crypto';
+
+/******************************************************************************
+                                Constants
+******************************************************************************/
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_DEFAULTS = {
+    PERIOD: 30, // seconds per time step
+    DIGITS: 6,
+    WINDOW: 1, // accepted steps of clock drift on either side
+    SECRET_BYTES: 20, // 160 bits, as recommended by RFC 4226
+} as const;
+
+/******************************************************************************
+                                Base32 (RFC 4648)
+******************************************************************************/
+
+export const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error(`Invalid base32 character: ${char}`);
+        }
+
+        value = (value << 5) | index;
+        bits += 5;
+
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return Buffer.from(bytes);
+};
+
+/******************************************************************************
+                                TOTP (RFC 6238)
+******************************************************************************/
+
+/**
+ * Generate a new random base32 secret
+ */
+export const generateTotpSecret = (): string => base32Encode(randomBytes(TOTP_DEFAULTS.SECRET_BYTES));
+
+/**
+ * Time step number for a point in time
+ */
+export const getTimeStep = (time: number = Date.now()): number => Math.floor(time / 1000 / TOTP_DEFAULTS.PERIOD);
+
+/**
+ * HOTP value (RFC 4226) for a counter
+ */
+export const generateHotp = (secret: string, counter: number): string => {
+    const counterBuffer = Buffer.alloc(8);
+    counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+
+    // Dynamic truncation
+    const offset = hmac[hmac.length - 1]! & 0x0f;
+    const binary =
+        ((hmac[offset]! & 0x7f) << 24) |
+        ((hmac[offset + 1]! & 0xff) << 16) |
+        ((hmac[offset + 2]! & 0xff) << 8) |
+        (hmac[offset + 3]! & 0xff);
+
+    return (binary % 10 ** TOTP_DEFAULTS.DIGITS).toString().padStart(TOTP_DEFAULTS.DIGITS, '0');
+};
+
+/**
+ * TOTP code for a point in time
+ */
+export const generateTotp = (secret: string, time: number = Date.now()): string =>
+    generateHotp(secret, getTimeStep(time));
+
+/**
+ * Check a code against the current time step (plus drift window).
+ * Returns the matching time step so callers can reject replays of the same code, or null.
+ */
+export const verifyTotp = (secret: string, code: string, time: number = Date.now()): number | null => {
+    if (!/^\d+$/.test(code) || code.length !== TOTP_DEFAULTS.DIGITS) {
+        return null;
+    }
+
+    const currentStep = getTimeStep(time);
+
+    for (let drift = -TOTP_DEFAULTS.WINDOW; drift <= TOTP_DEFAULTS.WINDOW; drift++) {
+        if (generateHotp(secret, currentStep + drift) === code) {
+            return currentStep + drift;
+        }
+    }
+
+    return null;
+};
+
+/**
+ * otpauth:// URI for authenticator apps (render it as a QR code on the client)
+ */
+export const buildOtpauthUri = (secret: string, accountName: string, issuer: string): string => {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: 'SHA1',
+        digits: String(TOTP_DEFAULTS.DIGITS),
+        period: String(TOTP_DEFAULTS.PERIOD),
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+};
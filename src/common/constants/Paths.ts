@@ -7,8 +7,37 @@ export default {
         Refresh: '/refresh',
         Logout: '/logout',
         ChangePassword: '/change-password',
+        ChangeEmail: '/change-email',
+        ChangeEmailConfirm: '/change-email/confirm',
+        ChangeEmailRevert: '/change-email/revert',
+        ForgotPassword: '/forgot-password',
+        ResetPassword: '/reset-password',
         Me: '/me',
-        Verify: '/verify'
+        MeExport: '/me/export',
+        MeDelete: '/me/delete',
+        MeDeleteCancel: '/me/delete/cancel',
+        MeActivity: '/me/activity',
+        Sessions: '/sessions',
+        SessionById: '/sessions/:sessionId',
+        MfaVerify: '/mfa/verify',
+        MfaEnroll: '/mfa/enroll',
+        MfaConfirm: '/mfa/enroll/confirm',
+        MfaDisable: '/mfa/disable',
+        MfaRecoveryCodes: '/mfa/recovery-codes',
+        Passkeys: '/passkeys',
+        PasskeyById: '/passkeys/:passkeyId',
+        PasskeyRegisterOptions: '/passkeys/register/options',
+        PasskeyRegisterVerify: '/passkeys/register/verify',
+        PasskeyLoginOptions: '/passkeys/login/options',
+        PasskeyLoginVerify: '/passkeys/login/verify',
+        OidcProviders: '/oidc/providers',
+        OidcAuthorize: '/oidc/:provider/authorize',
+        OidcCallback: '/oidc/:provider/callback',
+        OidcLink: '/oidc/:provider/link',
+        Identities: '/identities',
+        IdentityById: '/identities/:identityId',
+        Verify: '/verify',
+        ResendVerification: '/verify/resend'
     },
     Users: {
         Base: '/users',
@@ -19,7 +48,11 @@ export default {
         Delete: '/:id',
         GetRoles: '/:id/roles',
         AssignRole: '/:id/roles/:roleId',
-        RemoveRole: '/:id/roles/:roleId'
+        RemoveRole: '/:id/roles/:roleId',
+        Sessions: '/:id/sessions',
+        SessionById: '/:id/sessions/:sessionId',
+        Unlock: '/:id/unlock',
+        Restore: '/:id/restore'
     },
     Roles: {
         Base: '/roles',
@@ -28,5 +61,14 @@ export default {
         Create: '',
         Update: '/:id',
         Delete: '/:id'
+    },
+    AuditLogs: {
+        Base: '/audit-logs',
+        GetAll: '/',
+        Export: '/export'
+    },
+    WellKnown: {
+        Base: '/.well-known',
+        Jwks: '/jwks.json'
     }
 } as const;
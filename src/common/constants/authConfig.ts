@@ -0,0 +1,105 @@
+import { z } from 'zod';
+
+/******************************************************************************
+                                Schema
+******************************************************************************/
+
+const secret = (name: string) => z
+    .string({ error: `${name} must be set` })
+    .min(16, `${name} must be at least 16 characters`);
+
+// Token, session and key settings from the environment; unset variables take the defaults
+const AuthConfigSchema = z.object({
+    JWT_ISSUER: z.string().min(1).default('backend-template'),
+    JWT_AUDIENCE: z.string().min(1).default('backend-template'),
+    // Capped well below SIGNING_KEYS.RETIRED_KEY_TTL, so tokens never outlive the key that signed them
+    JWT_ACCESS_TOKEN_MINUTES: z.coerce.number().int().min(1).max(30).default(15),
+    JWT_CLOCK_SKEW_SECONDS: z.coerce.number().int().min(0).max(300).default(30),
+    SESSION_IDLE_TIMEOUT_MINUTES: z.coerce.number().int().min(0).default(0),
+    SESSION_ABSOLUTE_TIMEOUT_DAYS: z.coerce.number().int().min(1).default(7),
+    SESSION_REMEMBER_ME_DAYS: z.coerce.number().int().min(1).default(30),
+    MFA_ENCRYPTION_KEY: secret('MFA_ENCRYPTION_KEY (or JWT_SECRET)'),
+    AUDIT_SIGNING_KEY: secret('AUDIT_SIGNING_KEY (or JWT_SECRET)'),
+    JWT_KEY_ENCRYPTION_KEY: secret('JWT_KEY_ENCRYPTION_KEY').optional(), // Checked by the postgres key store
+})
+    // Idleness is only observed when the session's refresh token is used, and an access token is
+    // accepted for its lifetime plus the clock skew, so an active session may go that long unseen
+    .refine(env => env.SESSION_IDLE_TIMEOUT_MINUTES === 0
+        || env.SESSION_IDLE_TIMEOUT_MINUTES * 60 > env.JWT_ACCESS_TOKEN_MINUTES * 60 + env.JWT_CLOCK_SKEW_SECONDS, {
+        message: 'must be 0 (disabled) or longer than JWT_ACCESS_TOKEN_MINUTES plus JWT_CLOCK_SKEW_SECONDS',
+        path: ['SESSION_IDLE_TIMEOUT_MINUTES'],
+    })
+    .refine(env => env.SESSION_REMEMBER_ME_DAYS >= env.SESSION_ABSOLUTE_TIMEOUT_DAYS, {
+        message: 'must be at least SESSION_ABSOLUTE_TIMEOUT_DAYS',
+        path: ['SESSION_REMEMBER_ME_DAYS'],
+    });
+
+// Keys that take JWT_SECRET when unset, so secrets encrypted and checkpoints signed before they
+// had their own variables stay readable
+const FALLBACK_VARIABLES: Partial<Record<keyof typeof AuthConfigSchema.shape, string>> = {
+    MFA_ENCRYPTION_KEY: 'JWT_SECRET',
+    AUDIT_SIGNING_KEY: 'JWT_SECRET',
+};
+
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+// Durations are in seconds
+export interface AuthConfig {
+    issuer: string; // iss of every token
+    audience: string; // aud of access tokens; verifyToken rejects others
+    accessTokenTtl: number;
+    clockSkew: number; // Leeway when checking exp against this server's clock
+    sessionIdleTimeout: number; // A session unused for this long expires; 0 disables it
+    sessionTimeout: number; // Absolute session lifetime
+    rememberMeSessionTimeout: number; // Absolute lifetime with "remember me"
+    mfaEncryptionKey: string; // Encrypts TOTP secrets at rest
+    auditSigningKey: string; // Signs audit chain checkpoints
+    jwtKeyEncryptionKey: string | null; // Encrypts private signing keys in the postgres store
+}
+
+/******************************************************************************
+                                Functions
+******************************************************************************/
+
+/**
+ * Validate the token, session and key settings. Throws listing the invalid variables, so a
+ * misconfigured server fails at startup instead of issuing tokens it can't verify.
+ */
+export function loadAuthConfig(env: NodeJS.ProcessEnv): AuthConfig {
+    // An empty variable counts as unset
+    const values = Object.fromEntries(
+        (Object.keys(AuthConfigSchema.shape) as (keyof typeof AuthConfigSchema.shape)[]).map(name => {
+            const fallback = FALLBACK_VARIABLES[name];
+            return [name, env[name] || (fallback && env[fallback]) || undefined];
+        })
+    );
+
+    const result = AuthConfigSchema.safeParse(values);
+
+    if (!result.success) {
+        throw new Error(`Invalid auth configuration:\n${z.prettifyError(result.error)}`);
+    }
+
+    const config = result.data;
+
+    return {
+        issuer: config.JWT_ISSUER,
+        audience: config.JWT_AUDIENCE,
+        accessTokenTtl: config.JWT_ACCESS_TOKEN_MINUTES * 60,
+        clockSkew: config.JWT_CLOCK_SKEW_SECONDS,
+        sessionIdleTimeout: config.SESSION_IDLE_TIMEOUT_MINUTES * 60,
+        sessionTimeout: config.SESSION_ABSOLUTE_TIMEOUT_DAYS * 24 * 60 * 60,
+        rememberMeSessionTimeout: config.SESSION_REMEMBER_ME_DAYS * 24 * 60 * 60,
+        mfaEncryptionKey: config.MFA_ENCRYPTION_KEY,
+        auditSigningKey: config.AUDIT_SIGNING_KEY,
+        jwtKeyEncryptionKey: config.JWT_KEY_ENCRYPTION_KEY ?? null,
+    };
+}
+
+/******************************************************************************
+                                Export
+******************************************************************************/
+
+export const AUTH_CONFIG: Readonly<AuthConfig> = Object.freeze(loadAuthConfig(process.env));
@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('ENV', () => {
+    beforeEach(() => {
+        vi.resetModules();
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('takes the defaults for unset and empty selectors', async () => {
+        vi.stubEnv('JWT_KEY_STORE', '');
+        vi.stubEnv('AUDIT_RETENTION_MODE', undefined);
+
+        const { ENV } = await import('./env');
+
+        expect(ENV).toMatchObject({ JWT_KEY_STORE: 'memory', AUDIT_RETENTION_MODE: 'archive', MAIL_TRANSPORT: 'memory' });
+    });
+
+    it.each([
+        ['MAIL_TRANSPORT', 'smpt'],
+        ['JWT_ALGORITHM', 'HS256'],
+        ['JWT_KEY_STORE', 'postgress'],
+        ['TOKEN_DENYLIST_STORE', 'redis'],
+        ['RATE_LIMIT_STORE', 'Postgres'],
+        ['AUDIT_RETENTION_MODE', 'delete'],
+        ['EMAIL_VERIFICATION_POLICY', 'strict'],
+    ])('fails at startup when %s is %s', async (name, value) => {
+        vi.stubEnv(name, value);
+
+        await expect(import('./env')).rejects.toThrow(`Invalid ${name} "${value}": must be one of`);
+    });
+});
@@ -1,8 +1,119 @@
+import { z } from 'zod';
+
+/******************************************************************************
+                                Options
+******************************************************************************/
+
+const MAIL_TRANSPORTS = ['console', 'file', 'smtp', 'memory'] as const;
+const STORES = ['memory', 'postgres'] as const;
+const JWT_ALGORITHMS = ['RS256', 'ES256', 'EdDSA'] as const;
+const AUDIT_RETENTION_MODES = ['archive', 'purge'] as const;
+const EMAIL_VERIFICATION_POLICIES = ['allow', 'grace', 'block'] as const;
+
+/**
+ * Read a variable that selects one of a fixed set of options (an empty variable counts as unset).
+ * A typo throws at startup instead of quietly selecting something else.
+ */
+const option = <const T extends readonly [string, ...string[]]>(name: string, options: T, fallback: T[number]): T[number] => {
+    const result = z.enum(options).safeParse(process.env[name] || fallback);
+
+    if (!result.success) {
+        throw new Error(`Invalid ${name} "${process.env[name]}": must be one of ${options.join(', ')}`);
+    }
+
+    return result.data;
+};
+
+/******************************************************************************
+                                Environment
+******************************************************************************/
+
 export const ENV = {
     PORT: Number(process.env.PORT) || 8000,
     NODE_ENV: process.env.NODE_ENV || 'development',
     LOG_LEVEL: process.env.LOG_LEVEL || 'info',
+
+    // Public URL of the frontend, used to build links in emails
+    APP_URL: process.env.APP_URL || 'http://localhost:3000',
+
+    // Mail
+    MAIL_TRANSPORT: option('MAIL_TRANSPORT', MAIL_TRANSPORTS, 'console'),
+    MAIL_FROM: process.env.MAIL_FROM || 'no-reply@example.com',
+    MAIL_OUTBOX_DIR: process.env.MAIL_OUTBOX_DIR || './logs/mail',
+    MAIL_DEFAULT_LOCALE: process.env.MAIL_DEFAULT_LOCALE || 'en',
+    // Failed deliveries are retried in the background, waiting MAIL_RETRY_DELAY_MS and doubling it each time
+    MAIL_MAX_ATTEMPTS: Number(process.env.MAIL_MAX_ATTEMPTS) || 3,
+    MAIL_RETRY_DELAY_MS: Number(process.env.MAIL_RETRY_DELAY_MS ?? 1000),
+    SMTP_HOST: process.env.SMTP_HOST || 'localhost',
+    SMTP_PORT: Number(process.env.SMTP_PORT) || 587,
+    SMTP_SECURE: process.env.SMTP_SECURE === 'true',
+    SMTP_USER: process.env.SMTP_USER || '',
+    SMTP_PASS: process.env.SMTP_PASS || '',
+
+    // Email verification
+    EMAIL_VERIFICATION_POLICY: option('EMAIL_VERIFICATION_POLICY', EMAIL_VERIFICATION_POLICIES, 'allow'),
+    EMAIL_VERIFICATION_GRACE_DAYS: Number(process.env.EMAIL_VERIFICATION_GRACE_DAYS) || 7,
+
+    // Email the user when a replayed refresh token revokes one of their sessions
+    NOTIFY_ON_TOKEN_REUSE: process.env.NOTIFY_ON_TOKEN_REUSE !== 'false',
+
+    // Access token signing: algorithm of newly generated keys, and where the key pairs are kept
+    // (postgres shares them between instances and needs JWT_KEY_ENCRYPTION_KEY)
+    JWT_ALGORITHM: option('JWT_ALGORITHM', JWT_ALGORITHMS, 'RS256'),
+    JWT_KEY_STORE: option('JWT_KEY_STORE', STORES, 'memory'),
+
+    // Where revoked access token ids are kept (a Redis store can be plugged in with authService.setDenylistStore)
+    TOKEN_DENYLIST_STORE: option('TOKEN_DENYLIST_STORE', STORES, 'memory'),
+
+    // Brute-force protection for sign-in
+    LOGIN_MAX_FAILURES: Number(process.env.LOGIN_MAX_FAILURES) || 5,
+    LOGIN_IP_MAX_FAILURES: Number(process.env.LOGIN_IP_MAX_FAILURES) || 20,
+    LOGIN_LOCKOUT_MINUTES: Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15,
+
+    // Request rate limiting (a custom store can be plugged in with setRateLimitStore)
+    RATE_LIMIT_ENABLED: process.env.RATE_LIMIT_ENABLED !== 'false',
+    RATE_LIMIT_STORE: option('RATE_LIMIT_STORE', STORES, 'memory'),
+
+    // Audit log retention: entries older than AUDIT_RETENTION_DAYS (0 keeps them forever) are
+    // archived to AUDIT_ARCHIVE_DIR as NDJSON and deleted, or just deleted in 'purge' mode
+    AUDIT_RETENTION_DAYS: Number(process.env.AUDIT_RETENTION_DAYS) || 0,
+    AUDIT_RETENTION_MODE: option('AUDIT_RETENTION_MODE', AUDIT_RETENTION_MODES, 'archive'),
+    AUDIT_ARCHIVE_DIR: process.env.AUDIT_ARCHIVE_DIR || './logs/audit',
+
+    // How often the server runs cleanExpiredSessions (0 disables it, e.g. when cron runs `npm run maintenance`)
+    MAINTENANCE_INTERVAL_MINUTES: Number(process.env.MAINTENANCE_INTERVAL_MINUTES ?? 60),
+
+    // Two-factor authentication
+    MFA_ISSUER: process.env.MFA_ISSUER || 'Backend Template',
+
+    // WebAuthn / passkeys (the RP ID is the domain of APP_URL, without scheme or port)
+    WEBAUTHN_RP_ID: process.env.WEBAUTHN_RP_ID || 'localhost',
+    WEBAUTHN_RP_NAME: process.env.WEBAUTHN_RP_NAME || 'Backend Template',
+    WEBAUTHN_ORIGIN: process.env.WEBAUTHN_ORIGIN || process.env.APP_URL || 'http://localhost:3000',
+
+    // Social login: enabled OIDC/OAuth2 providers (each configured with OIDC_<NAME>_* variables)
+    OIDC_PROVIDERS: (process.env.OIDC_PROVIDERS || '').split(',').map(name => name.trim().toLowerCase()).filter(Boolean),
+    // Public URL of the API's OIDC routes; the callback is <base>/<provider>/callback
+    OIDC_REDIRECT_BASE_URL: process.env.OIDC_REDIRECT_BASE_URL || `http://localhost:${Number(process.env.PORT) || 8000}/api/auth/oidc`,
 } as const;
 
+/******************************************************************************
+                                Types
+******************************************************************************/
+
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 export type NodeEnv = 'development' | 'production' | 'test';
+export type MailTransportName = typeof MAIL_TRANSPORTS[number];
+export type TokenDenylistStoreName = typeof STORES[number];
+export type SigningKeyStoreName = typeof STORES[number];
+export type JwtAlgorithm = typeof JWT_ALGORITHMS[number];
+export type RateLimitStoreName = typeof STORES[number];
+export type AuditRetentionMode = typeof AUDIT_RETENTION_MODES[number];
+
+/**
+ * How login treats accounts whose email has not been verified:
+ * - allow: no restriction
+ * - grace: allowed for EMAIL_VERIFICATION_GRACE_DAYS after registration, then rejected
+ * - block: rejected until verified
+ */
+export type EmailVerificationPolicy = typeof EMAIL_VERIFICATION_POLICIES[number];
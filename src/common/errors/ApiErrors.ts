@@ -94,8 +94,13 @@ export class ValidationError extends ApiError {
  * 429 Too Many Requests Error
  */
 export class TooManyRequestsError extends ApiError {
-    constructor(message: string = 'Too many requests', details?: any) {
+    public readonly retryAfter?: number; // seconds, sent as the Retry-After header
+
+    constructor(message: string = 'Too many requests', details?: any, retryAfter?: number) {
         super(message, 429, 'TOO_MANY_REQUESTS', details);
+        if (retryAfter !== undefined) {
+            this.retryAfter = retryAfter;
+        }
     }
 }
 
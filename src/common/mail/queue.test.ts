@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MailQueue } from './queue';
+import type { MailMessage } from './transports';
+
+const message: MailMessage = { from: 'no-reply@example.com', to: 'ada@example.com', subject: 'Hi', text: 'Hi', html: '<p>Hi</p>' };
+
+describe('MailQueue', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('retries with a doubling delay, then gives up', async () => {
+        const deliver = vi.fn().mockRejectedValue(new Error('Connection refused'));
+        const queue = new MailQueue(deliver, { maxAttempts: 3, retryDelayMs: 100 });
+
+        queue.push(message);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(deliver).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(99);
+        expect(deliver).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(deliver).toHaveBeenCalledTimes(2);
+
+        await vi.advanceTimersByTimeAsync(199);
+        expect(deliver).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(deliver).toHaveBeenCalledTimes(3);
+
+        await expect(queue.drain()).resolves.toBeUndefined();
+        await vi.advanceTimersByTimeAsync(10_000);
+        expect(deliver).toHaveBeenCalledTimes(3);
+    });
+});
@@ -0,0 +1,113 @@
+import logger from '@utils/logger';
+import type { MailMessage } from './transports';
+
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+export interface MailQueueOptions {
+    maxAttempts: number;
+    retryDelayMs: number; // Doubled after every failed attempt
+}
+
+interface MailJob {
+    message: MailMessage;
+    attempts: number;
+}
+
+const DEFAULT_OPTIONS: MailQueueOptions = {
+    maxAttempts: 3,
+    retryDelayMs: 1000,
+};
+
+/******************************************************************************
+                                Mail Queue
+******************************************************************************/
+
+/**
+ * In-process queue that delivers mail in the background, so a slow or failing
+ * mail server never blocks the request that triggered the email.
+ */
+export class MailQueue {
+    private readonly jobs: MailJob[] = [];
+    private readonly options: MailQueueOptions;
+    private readonly drainWaiters: (() => void)[] = [];
+    private pending = 0;
+    private running = false;
+
+    constructor(
+        private readonly deliver: (message: MailMessage) => Promise<void>,
+        options: Partial<MailQueueOptions> = {}
+    ) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    /**
+     * Add a message to the queue and return immediately
+     */
+    push(message: MailMessage): void {
+        this.pending++;
+        this.jobs.push({ message, attempts: 0 });
+        void this.process();
+    }
+
+    /**
+     * Resolve once every queued message was delivered or gave up (tests, graceful shutdown)
+     */
+    drain(): Promise<void> {
+        if (this.pending === 0) {
+            return Promise.resolve();
+        }
+
+        return new Promise(resolve => this.drainWaiters.push(resolve));
+    }
+
+    /**
+     * Work through the queue one message at a time
+     */
+    private async process(): Promise<void> {
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+
+        let job = this.jobs.shift();
+        while (job) {
+            await this.attempt(job);
+            job = this.jobs.shift();
+        }
+
+        this.running = false;
+    }
+
+    private async attempt(job: MailJob): Promise<void> {
+        job.attempts++;
+
+        try {
+            await this.deliver(job.message);
+            this.settle();
+        } catch (error) {
+            if (job.attempts >= this.options.maxAttempts) {
+                logger.err(`Giving up on mail "${job.message.subject}" to ${job.message.to} after ${job.attempts} attempts: ${String(error)}`);
+                this.settle();
+                return;
+            }
+
+            const delay = this.options.retryDelayMs * 2 ** (job.attempts - 1);
+            logger.warn(`Mail delivery failed (attempt ${job.attempts}), retrying in ${delay}ms: ${String(error)}`);
+
+            setTimeout(() => {
+                this.jobs.push(job);
+                void this.process();
+            }, delay).unref();
+        }
+    }
+
+    private settle(): void {
+        this.pending--;
+
+        if (this.pending === 0) {
+            this.drainWaiters.splice(0).forEach(resolve => resolve());
+        }
+    }
+}
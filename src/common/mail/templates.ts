@@ -0,0 +1,291 @@
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+// Variables each template expects
+export interface MailTemplateVariables {
+    verification: { name: string; link: string };
+    passwordReset: { name: string; link: string; expiresInMinutes: number };
+    emailChangeConfirm: { name: string; newEmail: string; link: string; expiresInHours: number };
+    emailChangeNotice: { name: string; newEmail: string; link: string; revertDays: number };
+    emailChangedByAdmin: { name: string; newEmail: string };
+    accountDeletionScheduled: { name: string; date: string };
+    newDeviceLogin: { name: string; device: string; ipAddress: string; time: string };
+    accountLocked: { name: string; until: string };
+    tokenReuse: { name: string; time: string };
+}
+
+export type MailTemplateName = keyof MailTemplateVariables;
+
+export interface RenderedMail {
+    subject: string;
+    text: string;
+    html: string;
+}
+
+// Copy for a single template in a single locale
+interface TemplateCopy<V> {
+    subject: string;
+    heading: string;
+    paragraphs: (vars: V) => string[];
+    action?: { label: string; link: (vars: V) => string };
+    footer: string;
+}
+
+type LocaleTemplates = {
+    [K in MailTemplateName]: TemplateCopy<MailTemplateVariables[K]>;
+};
+
+/******************************************************************************
+                                Templates
+******************************************************************************/
+
+const en: LocaleTemplates = {
+    verification: {
+        subject: 'Verify your email address',
+        heading: 'Confirm your email',
+        paragraphs: vars => [
+            `Hi ${vars.name},`,
+            'Please confirm your email address to finish setting up your account.',
+        ],
+        action: { label: 'Verify email', link: vars => vars.link },
+        footer: 'If you did not create an account, you can ignore this email.',
+    },
+    passwordReset: {
+        subject: 'Reset your password',
+        heading: 'Password reset',
+        paragraphs: vars => [
+            `Hi ${vars.name},`,
+            `We received a request to reset your password. The link below is valid for ${vars.expiresInMinutes} minutes.`,
+        ],
+        action: { label: 'Choose a new password', link: vars => vars.link },
+        footer: 'If you did not request a password reset, you can ignore this email.',
+    },
+    emailChangeConfirm: {
+        subject: 'Confirm your new email address',
+        heading: 'Confirm your new email',
+        paragraphs: vars => [
+            `Hi ${vars.name},`,
+            `Please confirm that you want to use ${vars.newEmail} for your account. The link below is valid for ${vars.expiresInHours} hours.`,
+        ],
+        action: { label: 'Confirm new email', link: vars => vars.link },
+        footer: 'If you did not request this change, you can ignore this email.',
+    },
+    emailChangeNotice: {
+        subject: 'Your email address is being changed',
+        heading: 'Email change requested',
+        paragraphs: vars => [
+            `Hi ${vars.name},`,
+            `A request was made to change the email address of your account to ${vars.newEmail}. The change takes effect once the new address is confirmed.`,
+            `If this wasn't you, use the link below within ${vars.revertDays} days to cancel or undo the change and sign out every session.`,
+        ],
+        action: { label: "This wasn't me", link: vars => vars.link },
+        footer: 'If you made this request, no action is needed.',
+    },
+    emailChangedByAdmin: {
+        subject: 'Your email address was changed',
+        heading: 'Email address changed',
+        paragraphs: vars => [
+            `Hi ${vars.name},`,
+            `An administrator changed the email address of your account to ${vars.newEmail}. Emails about your account will go to that address from now on.`,
+        ],
+        footer: 'If you did not expect this change, contact support.',
+    },
+    accountDeletionScheduled: {
+        subject: 'Your account will be deleted',
+        heading: 'Account deletion scheduled',
+        paragraphs: vars => [
+            `Hi ${vars.name},`,
+            `Your account and the personal data we hold about it will be permanently deleted on ${vars.date}. You have been signed out of every session.`,
+            'Until then you can sign in and cancel the deletion from your account settings.',
+        ],
+        footer: 'If you did not ask for this, sign in and cancel the deletion, or contact support.',
+    },
+    newDeviceLogin: {
+        subject: 'New sign-in to your account',
+        heading: 'New sign-in detected',
+        paragraphs: vars => [
+            `Hi ${vars.name},`,
+            `Your account was just signed in to from ${vars.device} (IP ${vars.ipAddress}) at ${vars.time}.`,
+        ],
+        footer: 'If this was not you, reset your password immediately.',
+    },
+    accountLocked: {
+        subject: 'Your account has been temporarily locked',
+        heading: 'Account locked',
+        paragraphs: vars => [
+            `Hi ${vars.name},`,
+            `After several failed sign-in attempts your account has been locked until ${vars.until}.`,
+        ],
+        footer: 'If these attempts were not made by you, consider resetting your password.',
+    },
+    tokenReuse: {
+        subject: 'Suspicious activity on your account',
+        heading: 'A session was signed out',
+        paragraphs: vars => [
+            `Hi ${vars.name},`,
+            `At ${vars.time} an old sign-in token for your account was used again, which can mean it was stolen. We signed that session out to protect you.`,
+        ],
+        footer: 'If you did not expect this, change your password and review your active sessions.',
+    },
+};
+
+const es: LocaleTemplates = {
+    verification: {
+        subject: 'Verifica tu correo electrónico',
+        heading: 'Confirma tu correo',
+        paragraphs: vars => [
+            `Hola ${vars.name}:`,
+            'Confirma tu dirección de correo electrónico para terminar de configurar tu cuenta.',
+        ],
+        action: { label: 'Verificar correo', link: vars => vars.link },
+        footer: 'Si no creaste una cuenta, puedes ignorar este correo.',
+    },
+    passwordReset: {
+        subject: 'Restablece tu contraseña',
+        heading: 'Restablecer contraseña',
+        paragraphs: vars => [
+            `Hola ${vars.name}:`,
+            `Recibimos una solicitud para restablecer tu contraseña. El enlace es válido durante ${vars.expiresInMinutes} minutos.`,
+        ],
+        action: { label: 'Elegir una nueva contraseña', link: vars => vars.link },
+        footer: 'Si no solicitaste restablecer tu contraseña, puedes ignorar este correo.',
+    },
+    emailChangeConfirm: {
+        subject: 'Confirma tu nueva dirección de correo',
+        heading: 'Confirma tu nuevo correo',
+        paragraphs: vars => [
+            `Hola ${vars.name}:`,
+            `Confirma que quieres usar ${vars.newEmail} en tu cuenta. El enlace es válido durante ${vars.expiresInHours} horas.`,
+        ],
+        action: { label: 'Confirmar nuevo correo', link: vars => vars.link },
+        footer: 'Si no solicitaste este cambio, puedes ignorar este correo.',
+    },
+    emailChangeNotice: {
+        subject: 'Se está cambiando tu dirección de correo',
+        heading: 'Solicitud de cambio de correo',
+        paragraphs: vars => [
+            `Hola ${vars.name}:`,
+            `Se solicitó cambiar la dirección de correo de tu cuenta a ${vars.newEmail}. El cambio se aplica cuando se confirme la nueva dirección.`,
+            `Si no fuiste tú, usa el enlace de abajo en los próximos ${vars.revertDays} días para cancelar o deshacer el cambio y cerrar todas las sesiones.`,
+        ],
+        action: { label: 'No fui yo', link: vars => vars.link },
+        footer: 'Si hiciste esta solicitud, no tienes que hacer nada.',
+    },
+    emailChangedByAdmin: {
+        subject: 'Se cambió tu dirección de correo',
+        heading: 'Dirección de correo cambiada',
+        paragraphs: vars => [
+            `Hola ${vars.name}:`,
+            `Un administrador cambió la dirección de correo de tu cuenta a ${vars.newEmail}. A partir de ahora, los correos sobre tu cuenta se enviarán a esa dirección.`,
+        ],
+        footer: 'Si no esperabas este cambio, contacta con soporte.',
+    },
+    accountDeletionScheduled: {
+        subject: 'Tu cuenta será eliminada',
+        heading: 'Eliminación de cuenta programada',
+        paragraphs: vars => [
+            `Hola ${vars.name}:`,
+            `Tu cuenta y los datos personales que tenemos sobre ella se eliminarán definitivamente el ${vars.date}. Se cerraron todas tus sesiones.`,
+            'Hasta entonces puedes iniciar sesión y cancelar la eliminación desde la configuración de tu cuenta.',
+        ],
+        footer: 'Si no lo solicitaste, inicia sesión y cancela la eliminación, o contacta con soporte.',
+    },
+    newDeviceLogin: {
+        subject: 'Nuevo inicio de sesión en tu cuenta',
+        heading: 'Nuevo inicio de sesión',
+        paragraphs: vars => [
+            `Hola ${vars.name}:`,
+            `Se inició sesión en tu cuenta desde ${vars.device} (IP ${vars.ipAddress}) el ${vars.time}.`,
+        ],
+        footer: 'Si no fuiste tú, restablece tu contraseña de inmediato.',
+    },
+    accountLocked: {
+        subject: 'Tu cuenta ha sido bloqueada temporalmente',
+        heading: 'Cuenta bloqueada',
+        paragraphs: vars => [
+            `Hola ${vars.name}:`,
+            `Tras varios intentos fallidos de inicio de sesión, tu cuenta está bloqueada hasta ${vars.until}.`,
+        ],
+        footer: 'Si no realizaste estos intentos, considera restablecer tu contraseña.',
+    },
+    tokenReuse: {
+        subject: 'Actividad sospechosa en tu cuenta',
+        heading: 'Se cerró una sesión',
+        paragraphs: vars => [
+            `Hola ${vars.name}:`,
+            `El ${vars.time} se volvió a usar un token de inicio de sesión antiguo de tu cuenta, lo que puede indicar que fue robado. Cerramos esa sesión para protegerte.`,
+        ],
+        footer: 'Si no esperabas esto, cambia tu contraseña y revisa tus sesiones activas.',
+    },
+};
+
+const TEMPLATES: Record<string, LocaleTemplates> = { en, es };
+
+export const SUPPORTED_LOCALES = Object.keys(TEMPLATES);
+
+/******************************************************************************
+                                Rendering
+******************************************************************************/
+
+/**
+ * Escape a value for safe interpolation into HTML
+ */
+const escapeHtml = (value: string): string =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+
+/**
+ * Pick the best supported locale ('es-MX' falls back to 'es', unknown to the default)
+ */
+export const resolveLocale = (locale: string | null | undefined, fallback: string): string => {
+    if (locale) {
+        if (TEMPLATES[locale]) {
+            return locale;
+        }
+
+        const language = locale.split('-')[0];
+        if (language && TEMPLATES[language]) {
+            return language;
+        }
+    }
+
+    return TEMPLATES[fallback] ? fallback : 'en';
+};
+
+/**
+ * Render a template into text and HTML variants
+ */
+export const renderTemplate = <T extends MailTemplateName>(
+    template: T,
+    variables: MailTemplateVariables[T],
+    locale: string
+): RenderedMail => {
+    const copy = (TEMPLATES[locale] ?? en)[template] as TemplateCopy<MailTemplateVariables[T]>;
+    const paragraphs = copy.paragraphs(variables);
+    const link = copy.action?.link(variables);
+
+    const text = [
+        ...paragraphs,
+        ...(copy.action && link ? [`${copy.action.label}: ${link}`] : []),
+        copy.footer,
+    ].join('\n\n');
+
+    const html = [
+        '<!DOCTYPE html>',
+        '<html><body style="font-family: sans-serif; line-height: 1.5;">',
+        `<h1>${escapeHtml(copy.heading)}</h1>`,
+        ...paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`),
+        ...(copy.action && link
+            ? [`<p><a href="${escapeHtml(link)}">${escapeHtml(copy.action.label)}</a></p>`]
+            : []),
+        `<p style="color: #666; font-size: 12px;">${escapeHtml(copy.footer)}</p>`,
+        '</body></html>',
+    ].join('\n');
+
+    return { subject: copy.subject, text, html };
+};
@@ -0,0 +1,108 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer, { type Transporter } from 'nodemailer';
+import logger from '@utils/logger';
+
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+export interface MailMessage {
+    to: string;
+    from: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+/**
+ * A mail transport delivers a fully rendered message.
+ * Implement this interface to plug in a real provider.
+ */
+export interface MailTransport {
+    readonly name: string;
+    send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+}
+
+/******************************************************************************
+                                Transports
+******************************************************************************/
+
+/**
+ * Writes messages to the application log (development default)
+ */
+export class ConsoleTransport implements MailTransport {
+    readonly name = 'console';
+
+    async send(message: MailMessage): Promise<void> {
+        logger.info(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+    }
+}
+
+/**
+ * Appends messages as JSON lines to an outbox file (useful for local inspection)
+ */
+export class FileTransport implements MailTransport {
+    readonly name = 'file';
+
+    constructor(private readonly outboxDir: string) { }
+
+    async send(message: MailMessage): Promise<void> {
+        await fs.promises.mkdir(this.outboxDir, { recursive: true });
+
+        const entry = JSON.stringify({ ...message, sentAt: new Date().toISOString() });
+        await fs.promises.appendFile(path.join(this.outboxDir, 'outbox.jsonl'), entry + '\n');
+    }
+}
+
+/**
+ * Keeps messages in memory so tests can assert on what was sent
+ */
+export class MemoryTransport implements MailTransport {
+    readonly name = 'memory';
+    readonly messages: MailMessage[] = [];
+
+    async send(message: MailMessage): Promise<void> {
+        this.messages.push(message);
+    }
+
+    /**
+     * Most recent message sent to an address
+     */
+    lastTo(to: string): MailMessage | undefined {
+        return [...this.messages].reverse().find(message => message.to === to);
+    }
+
+    clear(): void {
+        this.messages.length = 0;
+    }
+}
+
+/**
+ * Delivers messages through an SMTP server
+ */
+export class SmtpTransport implements MailTransport {
+    readonly name = 'smtp';
+    private readonly transporter: Transporter;
+
+    constructor(options: SmtpOptions) {
+        this.transporter = nodemailer.createTransport({
+            host: options.host,
+            port: options.port,
+            secure: options.secure,
+            ...(options.user ? { auth: { user: options.user, pass: options.pass } } : {}),
+        });
+    }
+
+    async send(message: MailMessage): Promise<void> {
+        await this.transporter.sendMail(message);
+    }
+}
@@ -1,16 +1,20 @@
 import { Request, Response, NextFunction } from 'express';
 import authService from '../../services/authService.js';
-import { UnauthorizedError } from '../errors/ApiErrors.js';
+import { ForbiddenError, UnauthorizedError } from '../errors/ApiErrors.js';
+import { setContextUser } from '../utils/requestContext.js';
 import { AUTH_ERRORS } from '../../models/auth.js';
-import { userHasAnyRole, type UserWithRoles } from '../../models/user.js';
+import { userHasAnyRole, userHasPermission, type UserWithPermissions } from '../../models/user.js';
+import type { Permission } from '../../models/permission.js';
 
 /******************************************************************************
                             Extended Request Types
 ******************************************************************************/
 
 export interface AuthenticatedRequest extends Request {
-    user: UserWithRoles;
+    user: UserWithPermissions;
     sessionId?: string;
+    tokenId?: string; // jti of the access token used for this request
+    tokenExpiresAt?: Date;
 }
 
 /******************************************************************************
@@ -39,10 +43,15 @@ export const authenticate = async (
         }
 
         // Verify token and get user
-        const user = await authService.verifyToken(token);
+        const verified = await authService.verifyToken(token);
 
-        // Attach user to request
-        (req as AuthenticatedRequest).user = user;
+        // Attach user and token details to request
+        const authenticatedReq = req as AuthenticatedRequest;
+        authenticatedReq.user = verified.user;
+        authenticatedReq.sessionId = verified.sessionId;
+        authenticatedReq.tokenId = verified.tokenId;
+        authenticatedReq.tokenExpiresAt = verified.expiresAt;
+        setContextUser(verified.user.id);
 
         next();
     } catch (error) {
@@ -51,7 +60,28 @@ export const authenticate = async (
 };
 
 /**
- * Middleware to check if user has any of the required roles (OPTIONAL - for authorization)
+ * Middleware to check that the user's roles grant every listed permission, e.g. requirePermission('users:update')
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        const authenticatedReq = req as AuthenticatedRequest;
+
+        if (!authenticatedReq.user) {
+            throw new UnauthorizedError(AUTH_ERRORS.UNAUTHORIZED);
+        }
+
+        const missing = permissions.filter(permission => !userHasPermission(authenticatedReq.user, permission));
+        if (missing.length > 0) {
+            throw new ForbiddenError(AUTH_ERRORS.INSUFFICIENT_PERMISSIONS, { missing });
+        }
+
+        next();
+    };
+};
+
+/**
+ * Middleware to check if user has any of the required roles (OPTIONAL - for authorization).
+ * Prefer requirePermission, which doesn't tie routes to role names.
  */
 export const authorize = (roles: string[]) => {
     return (req: Request, res: Response, next: NextFunction): void => {
@@ -72,7 +102,7 @@ export const authorize = (roles: string[]) => {
 /**
  * Middleware for admin-only routes (OPTIONAL - for authorization)
  */
-export const adminOnly = authorize(['admin']);
+export const adminOnly = requirePermission('system:admin');
 
 /**
  * Middleware for authenticated users (any role)
@@ -95,8 +125,13 @@ export const optionalAuth = async (
 
             if (token) {
                 try {
-                    const user = await authService.verifyToken(token);
-                    (req as AuthenticatedRequest).user = user;
+                    const verified = await authService.verifyToken(token);
+                    const authenticatedReq = req as AuthenticatedRequest;
+                    authenticatedReq.user = verified.user;
+                    authenticatedReq.sessionId = verified.sessionId;
+                    authenticatedReq.tokenId = verified.tokenId;
+                    authenticatedReq.tokenExpiresAt = verified.expiresAt;
+                    setContextUser(verified.user.id);
                 } catch (error) {
                     // Ignore authentication errors for optional auth
                 }
@@ -124,7 +159,7 @@ export const isAdmin = (req: Request): boolean => {
 /**
  * Get current user from request
  */
-export const getCurrentUser = (req: Request): UserWithRoles => {
+export const getCurrentUser = (req: Request): UserWithPermissions => {
     const authenticatedReq = req as AuthenticatedRequest;
     return authenticatedReq.user;
 };
@@ -1,5 +1,21 @@
 import type { Request, Response, NextFunction } from 'express';
 import logger from '@utils/logger'
+import { createErrorResponse } from '../types/ApiResponse';
+import { getClientInfo } from '../utils/request';
+import { resolveRequestId, runWithRequestContext } from '../utils/requestContext';
+
+/**
+ * Request context middleware (must come first)
+ * Gives the request an id, reusing the caller's X-Request-Id when valid, and runs the rest of
+ * the chain within a context that logs, audit entries and error responses read it from
+ */
+export const requestContext = (req: Request, res: Response, next: NextFunction): void => {
+    const requestId = resolveRequestId(req.header('X-Request-Id'));
+
+    res.setHeader('X-Request-Id', requestId);
+
+    runWithRequestContext({ requestId, ...getClientInfo(req) }, next);
+};
 
 /**
  * Request logging middleware
@@ -28,7 +44,8 @@ export const requestLogger = (req: Request, res: Response, next: NextFunction):
 export const corsHandler = (req: Request, res: Response, next: NextFunction): void => {
     res.header('Access-Control-Allow-Origin', '*');
     res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+    res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, X-Request-Id');
+    res.header('Access-Control-Expose-Headers', 'X-Request-Id');
 
     // Handle preflight requests
     if (req.method === 'OPTIONS') {
@@ -57,12 +74,7 @@ export const timeoutHandler = (timeout: number = 30000) => {
     return (req: Request, res: Response, next: NextFunction): void => {
         res.setTimeout(timeout, () => {
             if (!res.headersSent) {
-                res.status(408).json({
-                    success: false,
-                    message: 'Request timeout',
-                    error: { code: 'REQUEST_TIMEOUT' },
-                    timestamp: new Date().toISOString()
-                });
+                res.status(408).json(createErrorResponse('Request timeout', 'REQUEST_TIMEOUT'));
             }
         });
         next();
@@ -1,5 +1,5 @@
 import type { Request, Response, NextFunction } from "express";
-import { ApiError, ValidationError } from "@errors/ApiErrors";
+import { ApiError, TooManyRequestsError, ValidationError } from "@errors/ApiErrors";
 import { createErrorResponse } from "../types/ApiResponse";
 import HttpStatusCodes from "@constants/HttpStatusCodes";
 import logger from "@utils/logger";
@@ -47,6 +47,11 @@ export const errorHandler = (
     return;
   }
 
+  // Tell throttled clients when to retry
+  if (err instanceof TooManyRequestsError && err.retryAfter !== undefined) {
+    res.set("Retry-After", String(err.retryAfter));
+  }
+
   // If it's an ApiError, handle it appropriately
   if (err instanceof ApiError) {
     const response = createErrorResponse(err.message, err.code, err.details);
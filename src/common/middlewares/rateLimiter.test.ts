@@ -0,0 +1,103 @@
+import type { Request, Response } from 'express';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { TooManyRequestsError } from '../errors/ApiErrors';
+import { MemoryRateLimitStore, type RateLimitStore } from '../rateLimit/stores';
+import { createRateLimiter, type RateLimiterOptions } from './rateLimiter';
+
+// Minimal response that records headers
+const createResponse = () => {
+    const headers = new Map<string, unknown>();
+    return {
+        headers,
+        setHeader: (name: string, value: unknown) => headers.set(name, value),
+        getHeader: (name: string) => headers.get(name),
+    } as unknown as Response & { headers: Map<string, unknown> };
+};
+
+const request = (fields: Partial<Request> = {}) => ({ ip: '203.0.113.7', body: {}, ...fields }) as Request;
+
+describe('createRateLimiter', () => {
+    let store: MemoryRateLimitStore;
+
+    const limiter = (options: Partial<RateLimiterOptions> = {}) => createRateLimiter({
+        name: 'test', algorithm: 'fixed-window', limit: 2, window: 60, store, ...options,
+    });
+
+    // Run a middleware and return what it passed to next
+    const call = async (middleware: ReturnType<typeof limiter>, req: Request = request(), res: Response = createResponse()) => {
+        const next = vi.fn();
+        await middleware(req, res, next);
+        return next.mock.calls[0]?.[0] as unknown;
+    };
+
+    beforeEach(() => {
+        store = new MemoryRateLimitStore();
+    });
+
+    it('sets the RateLimit headers and rejects requests over the limit with Retry-After', async () => {
+        const middleware = limiter();
+        const res = createResponse();
+
+        expect(await call(middleware, request(), res)).toBeUndefined();
+        expect(res.headers.get('RateLimit-Limit')).toBe(2);
+        expect(res.headers.get('RateLimit-Remaining')).toBe(1);
+        expect(res.headers.get('RateLimit-Policy')).toBe('2;w=60');
+
+        await call(middleware);
+        const error = await call(middleware);
+
+        expect(error).toBeInstanceOf(TooManyRequestsError);
+        expect((error as TooManyRequestsError).retryAfter).toBeGreaterThan(0);
+        expect((error as TooManyRequestsError).statusCode).toBe(429);
+    });
+
+    it('limits each client separately', async () => {
+        const middleware = limiter({ limit: 1 });
+
+        expect(await call(middleware, request({ ip: '203.0.113.7' }))).toBeUndefined();
+        expect(await call(middleware, request({ ip: '198.51.100.1' }))).toBeUndefined();
+        expect(await call(middleware, request({ ip: '203.0.113.7' }))).toBeInstanceOf(TooManyRequestsError);
+    });
+
+    it('keys by normalised email, and skips requests without one', async () => {
+        const middleware = limiter({ limit: 1, keyBy: 'email' });
+
+        expect(await call(middleware, request({ body: { email: 'Ada@Example.com' } }))).toBeUndefined();
+        expect(await call(middleware, request({ ip: '198.51.100.1', body: { email: ' ada@example.com ' } })))
+            .toBeInstanceOf(TooManyRequestsError);
+
+        expect(await call(middleware, request())).toBeUndefined();
+        expect(await call(middleware, request())).toBeUndefined();
+    });
+
+    it('keys by user, falling back to the IP address', async () => {
+        const middleware = limiter({ limit: 1, keyBy: 'user' });
+        const asUser = (id: string) => request({ user: { id } } as Partial<Request>);
+
+        expect(await call(middleware, asUser('user-1'))).toBeUndefined();
+        expect(await call(middleware, asUser('user-2'))).toBeUndefined();
+        expect(await call(middleware, asUser('user-1'))).toBeInstanceOf(TooManyRequestsError);
+        expect(await call(middleware, request())).toBeUndefined();
+    });
+
+    it('reports the most restrictive of several limits', async () => {
+        const res = createResponse();
+
+        await call(limiter({ name: 'strict', limit: 2 }), request(), res);
+        await call(limiter({ name: 'loose', limit: 100 }), request(), res);
+
+        expect(res.headers.get('RateLimit-Limit')).toBe(2);
+        expect(res.headers.get('RateLimit-Remaining')).toBe(1);
+    });
+
+    it('lets requests through when the store fails', async () => {
+        const broken: RateLimitStore = {
+            name: 'broken',
+            update: () => Promise.reject(new Error('connection lost')),
+            reset: async () => undefined,
+            purgeExpired: async () => 0,
+        };
+
+        expect(await call(limiter({ store: broken, limit: 0 }))).toBeUndefined();
+    });
+});
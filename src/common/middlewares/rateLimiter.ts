@@ -0,0 +1,138 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { TooManyRequestsError } from '../errors/ApiErrors.js';
+import { ENV } from '../constants/env.js';
+import logger from '../utils/logger.js';
+import { consume, type RateLimitAlgorithm, type RateLimitDecision } from '../rateLimit/algorithms.js';
+import { MemoryRateLimitStore, PostgresRateLimitStore, type RateLimitStore } from '../rateLimit/stores.js';
+import type { AuthenticatedRequest } from './authMiddleware.js';
+
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+/**
+ * What a client is identified by:
+ * - ip: the client address (req.ip, so configure "trust proxy" behind a load balancer)
+ * - user: the authenticated user's id, falling back to the IP for anonymous requests
+ * - email: the normalised `email` field of the request body; requests without one are not limited
+ * - a function returning the key, or null to skip limiting the request
+ */
+export type RateLimitKey = 'ip' | 'user' | 'email' | ((req: Request) => string | null);
+
+export interface RateLimiterOptions {
+    name: string; // Namespaces the keys, so limiters sharing a store don't collide
+    algorithm: RateLimitAlgorithm;
+    limit: number;
+    window: number; // seconds
+    keyBy?: RateLimitKey;
+    store?: RateLimitStore; // Defaults to the shared store (see setRateLimitStore)
+    message?: string;
+    skip?: (req: Request) => boolean;
+}
+
+/******************************************************************************
+                                Shared Store
+******************************************************************************/
+
+let defaultStore: RateLimitStore = ENV.RATE_LIMIT_STORE === 'postgres'
+    ? new PostgresRateLimitStore()
+    : new MemoryRateLimitStore();
+
+/**
+ * Replace the store used by limiters without an explicit one (e.g. a fresh memory store per test)
+ */
+export const setRateLimitStore = (store: RateLimitStore): void => {
+    defaultStore = store;
+};
+
+export const getRateLimitStore = (): RateLimitStore => defaultStore;
+
+/******************************************************************************
+                            Rate Limiter Middleware
+******************************************************************************/
+
+/**
+ * Create a rate limiting middleware.
+ * Sets the RateLimit-* headers (IETF draft) and rejects requests over the limit with 429 and Retry-After.
+ * If the store fails, the request is let through rather than taking the endpoint down with it.
+ */
+export const createRateLimiter = (options: RateLimiterOptions): RequestHandler => {
+    const { name, algorithm, limit, window, keyBy = 'ip' } = options;
+    const policy = { algorithm, limit, window };
+    const message = options.message ?? 'Too many requests, please try again later';
+
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        if (!ENV.RATE_LIMIT_ENABLED || options.skip?.(req)) {
+            next();
+            return;
+        }
+
+        const key = resolveKey(req, keyBy);
+        if (key === null) {
+            next();
+            return;
+        }
+
+        let decision: RateLimitDecision;
+        try {
+            const store = options.store ?? defaultStore;
+            decision = await store.update(`${name}:${key}`, state => {
+                const result = consume(policy, state);
+                return { state: result.state, expiresAt: result.expiresAt, result: result.decision };
+            });
+        } catch (error) {
+            logger.err(`Rate limiter ${name} failed, allowing request: ${String(error)}`);
+            next();
+            return;
+        }
+
+        setRateLimitHeaders(res, decision, window);
+
+        if (!decision.allowed) {
+            logger.warn(`Rate limit ${name} exceeded for ${key}`);
+            next(new TooManyRequestsError(message, { retryAfter: decision.retryAfter }, decision.retryAfter));
+            return;
+        }
+
+        next();
+    };
+};
+
+/**
+ * Client key for a request, or null when the request should not be limited
+ */
+const resolveKey = (req: Request, keyBy: RateLimitKey): string | null => {
+    if (typeof keyBy === 'function') {
+        return keyBy(req);
+    }
+
+    const ip = `ip:${req.ip ?? 'unknown'}`;
+
+    switch (keyBy) {
+        case 'ip':
+            return ip;
+        case 'user': {
+            const user = (req as Partial<AuthenticatedRequest>).user;
+            return user ? `user:${user.id}` : ip;
+        }
+        case 'email': {
+            const email = (req.body as { email?: unknown } | undefined)?.email;
+            return typeof email === 'string' && email.trim() ? `email:${email.trim().toLowerCase()}` : null;
+        }
+    }
+};
+
+/**
+ * Report the most restrictive of the limits applied to the request so far
+ */
+const setRateLimitHeaders = (res: Response, decision: RateLimitDecision, window: number): void => {
+    const current = res.getHeader('RateLimit-Remaining');
+    if (current !== undefined && Number(current) <= decision.remaining) {
+        return;
+    }
+
+    res.setHeader('RateLimit-Limit', decision.limit);
+    res.setHeader('RateLimit-Remaining', decision.remaining);
+    res.setHeader('RateLimit-Reset', decision.reset);
+    res.setHeader('RateLimit-Policy', `${decision.limit};w=${window}`);
+};
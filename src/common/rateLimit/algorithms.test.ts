@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { consume, type RateLimitPolicy, type RateLimitResult, type RateLimitState } from './algorithms';
+
+// A window boundary, so offsets below read as "seconds into the window"
+const windowStart = 1_700_000_040_000;
+const at = (seconds: number) => windowStart + seconds * 1000;
+
+// Send requests at the given times, threading the state through; returns every result
+const run = (policy: RateLimitPolicy, times: number[], state: RateLimitState | null = null): RateLimitResult[] =>
+    times.map(now => {
+        const result = consume(policy, state, now);
+        state = result.state;
+        return result;
+    });
+
+const allowed = (results: RateLimitResult[]) => results.filter(result => result.decision.allowed).length;
+
+describe('rate limit algorithms', () => {
+    describe('fixed window', () => {
+        const policy: RateLimitPolicy = { algorithm: 'fixed-window', limit: 3, window: 60 };
+
+        it('allows the limit per window and says when the window ends', () => {
+            const results = run(policy, [at(10), at(11), at(12), at(15)]);
+
+            expect(results.map(result => result.decision.remaining)).toEqual([2, 1, 0, 0]);
+            expect(results[3]!.decision).toMatchObject({ allowed: false, retryAfter: 45, reset: 45 });
+        });
+
+        it('starts over in the next window', () => {
+            const [last] = run(policy, [at(10), at(11), at(12), at(60)]).slice(-1);
+
+            expect(last!.decision).toMatchObject({ allowed: true, remaining: 2 });
+        });
+    });
+
+    describe('sliding window', () => {
+        const policy: RateLimitPolicy = { algorithm: 'sliding-window', limit: 10, window: 60 };
+
+        it('weights the previous window by how much of it still overlaps', () => {
+            const previous = run(policy, Array.from({ length: 10 }, (_, i) => at(i)));
+            const state = previous[9]!.state;
+
+            // Halfway through the next window, half of the previous 10 still count
+            const results = run(policy, Array.from({ length: 6 }, () => at(90)), state);
+
+            expect(allowed(results)).toBe(5);
+            expect(results[5]!.decision).toMatchObject({ allowed: false, remaining: 0, retryAfter: 6 });
+
+            // Once the previous window has decayed that far, one more request fits
+            const [retry] = run(policy, [at(96)], results[5]!.state);
+            expect(retry!.decision.allowed).toBe(true);
+        });
+
+        it('does not allow the burst a fixed window allows across a boundary', () => {
+            const burst = [...Array.from({ length: 10 }, () => at(59)), ...Array.from({ length: 10 }, () => at(61))];
+
+            expect(allowed(run({ ...policy, algorithm: 'fixed-window' }, burst))).toBe(20);
+            expect(allowed(run(policy, burst))).toBe(10);
+        });
+    });
+
+    describe('token bucket', () => {
+        // Bursts of 5, refilled at one token every 2 seconds
+        const policy: RateLimitPolicy = { algorithm: 'token-bucket', limit: 5, window: 10 };
+
+        it('allows a burst, then the refill rate', () => {
+            const results = run(policy, Array.from({ length: 6 }, () => at(0)));
+
+            expect(allowed(results)).toBe(5);
+            expect(results[5]!.decision).toMatchObject({ allowed: false, retryAfter: 2, reset: 10 });
+
+            const later = run(policy, [at(2), at(2)], results[5]!.state);
+            expect(later.map(result => result.decision.allowed)).toEqual([true, false]);
+        });
+
+        it('refills up to the burst size only', () => {
+            const [first] = run(policy, [at(0)]);
+            const [later] = run(policy, [at(3600)], first!.state);
+
+            expect(later!.decision.remaining).toBe(4);
+        });
+    });
+});
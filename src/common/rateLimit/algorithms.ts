@@ -0,0 +1,157 @@
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+/**
+ * A limit of `limit` requests per `window` seconds.
+ * For the token bucket, `limit` is the burst size and the bucket refills at limit/window tokens per second.
+ */
+export interface RateLimitPolicy {
+    algorithm: RateLimitAlgorithm;
+    limit: number;
+    window: number;
+}
+
+// Per-key state persisted between requests (shape depends on the algorithm)
+export type RateLimitState = Record<string, number>;
+
+export interface RateLimitDecision {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    reset: number; // seconds until the quota is fully available again
+    retryAfter: number; // seconds until the next request can succeed (0 when allowed)
+}
+
+export interface RateLimitResult {
+    decision: RateLimitDecision;
+    state: RateLimitState;
+    expiresAt: number; // epoch ms after which the state can be discarded
+}
+
+/******************************************************************************
+                                Algorithms
+******************************************************************************/
+
+/**
+ * Count requests in consecutive, non-overlapping windows.
+ * Cheap, but allows up to twice the limit across a window boundary.
+ */
+const fixedWindow = (policy: RateLimitPolicy, state: RateLimitState | null, now: number): RateLimitResult => {
+    const windowMs = policy.window * 1000;
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const count = state?.windowStart === windowStart ? (state.count ?? 0) : 0;
+
+    const allowed = count < policy.limit;
+    const used = allowed ? count + 1 : count;
+    const reset = seconds(windowStart + windowMs - now);
+
+    return {
+        decision: {
+            allowed,
+            limit: policy.limit,
+            remaining: Math.max(0, policy.limit - used),
+            reset,
+            retryAfter: allowed ? 0 : reset,
+        },
+        state: { windowStart, count: used },
+        expiresAt: windowStart + windowMs,
+    };
+};
+
+/**
+ * Sliding window counter: the previous window's count is weighted by how much of it
+ * still overlaps the sliding window, which smooths out the fixed window's boundary bursts.
+ */
+const slidingWindow = (policy: RateLimitPolicy, state: RateLimitState | null, now: number): RateLimitResult => {
+    const windowMs = policy.window * 1000;
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+
+    let count = 0;
+    let previous = 0;
+    if (state?.windowStart === windowStart) {
+        count = state.count ?? 0;
+        previous = state.previous ?? 0;
+    } else if (state?.windowStart === windowStart - windowMs) {
+        previous = state.count ?? 0;
+    }
+
+    const overlap = 1 - (now - windowStart) / windowMs;
+    const estimated = previous * overlap + count;
+
+    const allowed = estimated + 1 <= policy.limit;
+    const used = allowed ? count + 1 : count;
+    const remaining = Math.max(0, Math.floor(policy.limit - (previous * overlap + used)));
+
+    const untilWindowEnd = windowStart + windowMs - now;
+
+    // Time until the previous window's weight has decayed enough to admit one more request
+    let retryAfter = 0;
+    if (!allowed) {
+        const room = policy.limit - count - 1;
+        retryAfter = room >= 0 && previous > 0
+            ? seconds((overlap - room / previous) * windowMs)
+            : seconds(untilWindowEnd + Math.max(0, 1 - (policy.limit - 1) / count) * windowMs);
+    }
+
+    // Both windows' counts have aged out once the current window has fully slid past
+    const reset = used > 0 ? untilWindowEnd + windowMs : previous > 0 ? untilWindowEnd : 0;
+
+    return {
+        decision: {
+            allowed,
+            limit: policy.limit,
+            remaining,
+            reset: seconds(reset),
+            retryAfter,
+        },
+        state: { windowStart, count: used, previous },
+        expiresAt: windowStart + 2 * windowMs,
+    };
+};
+
+/**
+ * Token bucket: holds up to `limit` tokens, refilled continuously; each request takes one.
+ * Allows short bursts while enforcing the average rate.
+ */
+const tokenBucket = (policy: RateLimitPolicy, state: RateLimitState | null, now: number): RateLimitResult => {
+    const refillPerMs = policy.limit / (policy.window * 1000);
+
+    const elapsed = state?.updatedAt !== undefined ? Math.max(0, now - state.updatedAt) : Infinity;
+    const available = Math.min(policy.limit, (state?.tokens ?? policy.limit) + elapsed * refillPerMs);
+
+    const allowed = available >= 1;
+    const tokens = allowed ? available - 1 : available;
+    const untilFull = (policy.limit - tokens) / refillPerMs;
+
+    return {
+        decision: {
+            allowed,
+            limit: policy.limit,
+            remaining: Math.floor(tokens),
+            reset: seconds(untilFull),
+            retryAfter: allowed ? 0 : seconds((1 - tokens) / refillPerMs),
+        },
+        state: { tokens, updatedAt: now },
+        expiresAt: now + Math.ceil(untilFull),
+    };
+};
+
+/**
+ * Apply one request to a key's state
+ */
+export const consume = (policy: RateLimitPolicy, state: RateLimitState | null, now: number = Date.now()): RateLimitResult => {
+    switch (policy.algorithm) {
+        case 'fixed-window':
+            return fixedWindow(policy, state, now);
+        case 'sliding-window':
+            return slidingWindow(policy, state, now);
+        case 'token-bucket':
+            return tokenBucket(policy, state, now);
+    }
+};
+
+// Whole seconds, rounded up so clients never retry too early
+const seconds = (ms: number): number => Math.max(0, Math.ceil(ms / 1000));
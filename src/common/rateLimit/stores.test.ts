@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '@src/common/utils/prisma';
+import { resetMemoryPrisma } from '@src/test/memoryPrisma';
+import { consume, type RateLimitPolicy } from './algorithms';
+import { MemoryRateLimitStore, PostgresRateLimitStore, type RateLimitStore } from './stores';
+
+vi.mock('@src/common/utils/prisma', async () => {
+    const { createMemoryPrisma } = await import('@src/test/memoryPrisma');
+    return { prisma: createMemoryPrisma() };
+});
+
+const policy: RateLimitPolicy = { algorithm: 'fixed-window', limit: 3, window: 60 };
+
+// One request against the store, as the middleware makes it
+const hit = (store: RateLimitStore, key: string = 'test:ip:203.0.113.7') => store.update(key, state => {
+    const result = consume(policy, state);
+    return { state: result.state, expiresAt: result.expiresAt, result: result.decision.allowed };
+});
+
+describe.each([
+    ['memory', () => new MemoryRateLimitStore()],
+    ['postgres', () => new PostgresRateLimitStore()],
+])('%s rate limit store', (_name, createStore) => {
+    let store: RateLimitStore;
+
+    beforeEach(() => {
+        resetMemoryPrisma(prisma);
+        store = createStore();
+    });
+
+    it('counts every one of concurrent requests', async () => {
+        const results = await Promise.all(Array.from({ length: 5 }, () => hit(store)));
+
+        expect(results.filter(Boolean)).toHaveLength(policy.limit);
+    });
+
+    it('resets a key', async () => {
+        await Promise.all(Array.from({ length: 3 }, () => hit(store)));
+
+        await store.reset('test:ip:203.0.113.7');
+
+        expect(await hit(store)).toBe(true);
+    });
+});
+
+describe('PostgresRateLimitStore', () => {
+    it('gives up when every attempt loses the race', async () => {
+        resetMemoryPrisma(prisma);
+        const store = new PostgresRateLimitStore(2);
+        await hit(store);
+
+        // Another instance writes between every read and write
+        const contended = store.update('test:ip:203.0.113.7', state => {
+            void prisma.rateLimitBucket.updateMany({ data: { version: { increment: 1 } } });
+            const result = consume(policy, state);
+            return { state: result.state, expiresAt: result.expiresAt, result: true };
+        });
+
+        await expect(contended).rejects.toThrow('under too much contention');
+    });
+});
@@ -0,0 +1,111 @@
+import { prisma } from '@utils/prisma';
+import type { RateLimitState } from './algorithms';
+
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+// Next state for a key and when it can be discarded
+export interface RateLimitUpdate<T> {
+    state: RateLimitState;
+    expiresAt: number;
+    result: T;
+}
+
+/**
+ * Store of per-key rate limit state.
+ * `update` must apply the function atomically, so concurrent requests for a key never both see the same state.
+ */
+export interface RateLimitStore {
+    readonly name: string;
+    update<T>(key: string, apply: (state: RateLimitState | null) => RateLimitUpdate<T>): Promise<T>;
+    reset(key: string): Promise<void>;
+    purgeExpired(): Promise<number>;
+}
+
+/******************************************************************************
+                                Stores
+******************************************************************************/
+
+/**
+ * Process-local store (single instance deployments and tests)
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+    readonly name = 'memory';
+    private readonly entries = new Map<string, { state: RateLimitState; expiresAt: number }>();
+
+    async update<T>(key: string, apply: (state: RateLimitState | null) => RateLimitUpdate<T>): Promise<T> {
+        const entry = this.entries.get(key);
+        const current = entry && entry.expiresAt > Date.now() ? entry.state : null;
+
+        const next = apply(current);
+        this.entries.set(key, { state: next.state, expiresAt: next.expiresAt });
+
+        return next.result;
+    }
+
+    async reset(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async purgeExpired(): Promise<number> {
+        const now = Date.now();
+        let purged = 0;
+
+        for (const [key, entry] of this.entries) {
+            if (entry.expiresAt <= now) {
+                this.entries.delete(key);
+                purged++;
+            }
+        }
+
+        return purged;
+    }
+}
+
+/**
+ * Postgres-backed store, shared by every instance using the same database.
+ * Updates use optimistic concurrency on a version column and retry when another instance wrote first.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+    readonly name = 'postgres';
+
+    constructor(private readonly maxAttempts: number = 5) { }
+
+    async update<T>(key: string, apply: (state: RateLimitState | null) => RateLimitUpdate<T>): Promise<T> {
+        for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+            const bucket = await prisma.rateLimitBucket.findUnique({ where: { key } });
+            const current = bucket && bucket.expiresAt > new Date() ? bucket.state as RateLimitState : null;
+
+            const next = apply(current);
+            const data = { state: next.state, expiresAt: new Date(next.expiresAt) };
+
+            const written = bucket
+                ? await prisma.rateLimitBucket.updateMany({
+                    where: { key, version: bucket.version },
+                    data: { ...data, version: { increment: 1 } },
+                })
+                : await prisma.rateLimitBucket.createMany({
+                    data: [{ key, ...data }],
+                    skipDuplicates: true,
+                });
+
+            if (written.count === 1) {
+                return next.result;
+            }
+        }
+
+        throw new Error(`Rate limit state for ${key} is under too much contention`);
+    }
+
+    async reset(key: string): Promise<void> {
+        await prisma.rateLimitBucket.deleteMany({ where: { key } });
+    }
+
+    async purgeExpired(): Promise<number> {
+        const result = await prisma.rateLimitBucket.deleteMany({
+            where: { expiresAt: { lte: new Date() } },
+        });
+        return result.count;
+    }
+}
@@ -1,3 +1,5 @@
+import { getRequestContext } from '../utils/requestContext';
+
 /**
  * Standard API response interface for consistent response structure
  */
@@ -9,14 +11,36 @@ export interface ApiResponse<T = any> {
         code: string;
         details?: any;
     };
+    requestId?: string; // On errors, to match them with server logs and audit entries
     timestamp: string;
 }
 
 /**
- * Success response helper
+ * Columns that only exist on database entities (credentials, secrets, key material).
+ * A payload carrying one of them wasn't passed through a transform*ToResponse serializer.
+ */
+type EntityOnlyField = 'password' | 'mfaSecret' | 'mfaLastUsedStep' | 'tokenHash' | 'codeHash' | 'publicKey';
+
+/**
+ * Resolves to never for payloads that contain an entity-only field at any depth
+ */
+export type Serialized<T> =
+    T extends Date | string | number | boolean | bigint | null | undefined
+        ? T
+        : T extends readonly (infer U)[]
+            ? Serialized<U>[]
+            : T extends object
+                ? [Extract<keyof T, EntityOnlyField>] extends [never]
+                    ? { [K in keyof T]: Serialized<T[K]> }
+                    : never
+                : T;
+
+/**
+ * Success response helper. Only serialized payloads type-check, so a route can't return
+ * a Prisma entity (or an object wrapping one) by accident.
  */
 export const createSuccessResponse = <T>(
-    data: T,
+    data: T & Serialized<T>,
     message: string = 'Success'
 ): ApiResponse<T> => ({
     success: true,
@@ -26,21 +50,26 @@ export const createSuccessResponse = <T>(
 });
 
 /**
- * Error response helper
+ * Error response helper. Carries the current request's id so a reported error can be traced.
  */
 export const createErrorResponse = (
     message: string,
     code: string = 'INTERNAL_ERROR',
     details?: any
-): ApiResponse => ({
-    success: false,
-    message,
-    error: {
-        code,
-        details
-    },
-    timestamp: new Date().toISOString()
-});
+): ApiResponse => {
+    const requestId = getRequestContext()?.requestId;
+
+    return {
+        success: false,
+        message,
+        error: {
+            code,
+            details
+        },
+        ...(requestId !== undefined && { requestId }),
+        timestamp: new Date().toISOString()
+    };
+};
 
 /**
  * Pagination metadata interface
@@ -51,3 +80,29 @@ export interface PaginationMeta {
     total: number;
     totalPages: number;
 }
+
+/**
+ * Paginated list payload
+ */
+export interface PaginatedData<T> {
+    items: T[];
+    pagination: PaginationMeta;
+}
+
+/**
+ * Pagination metadata helper
+ */
+export const createPaginationMeta = (page: number, limit: number, total: number): PaginationMeta => ({
+    page,
+    limit,
+    total,
+    totalPages: Math.ceil(total / limit),
+});
+
+/**
+ * Cursor-paginated list payload; pass nextCursor back to get the following page (null on the last one)
+ */
+export interface CursorPaginatedData<T> {
+    items: T[];
+    nextCursor: string | null;
+}
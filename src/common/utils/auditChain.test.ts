@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalJson, hashAuditEntry, signAuditCheckpoint, type ChainedAuditContent } from './auditChain';
+
+const content: ChainedAuditContent = {
+    sequence: 1,
+    userId: 'user-1',
+    action: 'login',
+    resource: 'user:user-1',
+    details: { method: 'password', client: { os: 'Linux', browser: 'Firefox' } },
+    ipAddress: null,
+    userAgent: null,
+    requestId: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+};
+
+describe('audit chain', () => {
+    it('hashes details independently of key order, as jsonb returns them', () => {
+        const reordered = { ...content, details: { client: { browser: 'Firefox', os: 'Linux' }, method: 'password' } };
+
+        expect(canonicalJson(reordered.details)).toBe(canonicalJson(content.details));
+        expect(hashAuditEntry(null, reordered)).toBe(hashAuditEntry(null, content));
+    });
+
+    it('covers the content and the previous hash', () => {
+        const hash = hashAuditEntry(null, content);
+
+        expect(hashAuditEntry('a'.repeat(64), content)).not.toBe(hash);
+        expect(hashAuditEntry(null, { ...content, action: 'logout' })).not.toBe(hash);
+        expect(hashAuditEntry(null, { ...content, details: { method: 'passkey' } })).not.toBe(hash);
+    });
+
+    it('signs checkpoints with the key', () => {
+        expect(signAuditCheckpoint('key-1', 1, 'hash')).toBe(signAuditCheckpoint('key-1', 1, 'hash'));
+        expect(signAuditCheckpoint('key-2', 1, 'hash')).not.toBe(signAuditCheckpoint('key-1', 1, 'hash'));
+        expect(signAuditCheckpoint('key-1', 2, 'hash')).not.toBe(signAuditCheckpoint('key-1', 1, 'hash'));
+    });
+});
@@ -0,0 +1,56 @@
+import { createHash, createHmac } from 'crypto';
+
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+// Fields of an audit entry covered by its hash
+export interface ChainedAuditContent {
+    sequence: number;
+    userId: string | null;
+    action: string;
+    resource: string | null;
+    details: unknown;
+    ipAddress: string | null;
+    userAgent: string | null;
+    requestId: string | null;
+    createdAt: Date;
+}
+
+/******************************************************************************
+                                Functions
+******************************************************************************/
+
+/**
+ * JSON with object keys sorted at every depth. Details are stored as jsonb, which doesn't keep
+ * key order, so hashes are computed over this form rather than over JSON.stringify.
+ */
+export const canonicalJson = (value: unknown): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+
+    if (value !== null && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, item]) => item !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+        return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+    }
+
+    return JSON.stringify(value);
+};
+
+/**
+ * Hash of an entry, chained to the previous entry's hash (null for the first entry)
+ */
+export const hashAuditEntry = (prevHash: string | null, content: ChainedAuditContent): string =>
+    createHash('sha256')
+        .update(`${prevHash ?? ''}\n${canonicalJson({ ...content, createdAt: content.createdAt.toISOString() })}`)
+        .digest('hex');
+
+/**
+ * Signature of a checkpoint, vouching that the entry at sequence had this hash
+ */
+export const signAuditCheckpoint = (key: string, sequence: number, hash: string): string =>
+    createHmac('sha256', key).update(`${sequence}:${hash}`).digest('hex');
@@ -1,6 +1,7 @@
 import { Formats, JetLogger, LoggerModes } from 'jet-logger';
 import fs from 'fs';
 import { ENV } from '../constants/env';
+import { getRequestContext } from './requestContext';
 
 // Ensure log directory exists in production
 if (ENV.NODE_ENV === 'production') {
@@ -10,7 +11,7 @@ if (ENV.NODE_ENV === 'production') {
     }
 }
 
-const logger = new JetLogger(
+const jetLogger = new JetLogger(
     ENV.NODE_ENV === 'production' ? LoggerModes.File : LoggerModes.Console,
     ENV.NODE_ENV === 'production' ? './logs/app.log' : undefined,
     true,
@@ -18,4 +19,26 @@ const logger = new JetLogger(
     ENV.NODE_ENV === 'production' ? Formats.Json : Formats.Line,
 );
 
+/**
+ * Prefix messages logged while handling a request with its id (and user, once authenticated),
+ * so they can be matched with the response and its audit entries
+ */
+const withContext = (content: any): any => {
+    const context = getRequestContext();
+
+    if (!context || typeof content !== 'string') {
+        return content;
+    }
+
+    const tag = context.userId ? `${context.requestId} user:${context.userId}` : context.requestId;
+    return `[${tag}] ${content}`;
+};
+
+const logger = {
+    info: (content: any, printFull?: boolean) => jetLogger.info(withContext(content), printFull),
+    imp: (content: any, printFull?: boolean) => jetLogger.imp(withContext(content), printFull),
+    warn: (content: any, printFull?: boolean) => jetLogger.warn(withContext(content), printFull),
+    err: (content: any, printFull?: boolean) => jetLogger.err(withContext(content), printFull),
+};
+
 export default logger;
@@ -0,0 +1,10 @@
+import type { Request } from 'express';
+import type { ClientInfo } from '@src/models/auth';
+
+/**
+ * Extract client IP address and user agent from a request
+ */
+export const getClientInfo = (req: Request): ClientInfo => ({
+    ipAddress: req.ip,
+    userAgent: req.header('User-Agent'),
+});
@@ -0,0 +1,50 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { ClientInfo } from '@src/models/auth';
+
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+// What is known about the request being handled, readable anywhere down its call chain
+export interface RequestContext extends ClientInfo {
+    requestId: string;
+    userId?: string; // Set once the request is authenticated
+}
+
+/******************************************************************************
+                                Request Context
+******************************************************************************/
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+// Incoming ids are echoed into logs and headers, so only plain tokens are accepted
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Run fn (and everything it starts) within a request context
+ */
+export const runWithRequestContext = <T>(context: RequestContext, fn: () => T): T =>
+    storage.run(context, fn);
+
+/**
+ * Context of the current request; undefined outside one (startup, maintenance jobs, scripts)
+ */
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
+
+/**
+ * Record the authenticated user on the current request's context
+ */
+export const setContextUser = (userId: string): void => {
+    const context = storage.getStore();
+
+    if (context) {
+        context.userId = userId;
+    }
+};
+
+/**
+ * The caller's request id when it is a usable one, otherwise a new id
+ */
+export const resolveRequestId = (incoming: string | undefined): string =>
+    incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
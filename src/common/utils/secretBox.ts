@@ -0,0 +1,34 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+/**
+ * Symmetric encryption for secrets stored at rest (AES-256-GCM).
+ * Output format: base64(iv).base64(authTag).base64(ciphertext)
+ */
+export class SecretBox {
+    private readonly key: Buffer;
+
+    constructor(secret: string) {
+        this.key = createHash('sha256').update(secret).digest();
+    }
+
+    encrypt(plaintext: string): string {
+        const iv = randomBytes(12);
+        const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+        const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+        return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join('.');
+    }
+
+    decrypt(payload: string): string {
+        const [iv, authTag, ciphertext] = payload.split('.').map(part => Buffer.from(part, 'base64'));
+
+        if (!iv || !authTag || !ciphertext) {
+            throw new Error('Malformed encrypted payload');
+        }
+
+        const decipher = createDecipheriv('aes-256-gcm', this.key, iv);
+        decipher.setAuthTag(authTag);
+
+        return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+    }
+}
@@ -0,0 +1,29 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Generate a random opaque token suitable for email links and refresh tokens
+ */
+export const generateOpaqueToken = (bytes: number = 32): string => {
+    return randomBytes(bytes).toString('hex');
+};
+
+/**
+ * Hash an opaque token for storage (only the hash is ever persisted)
+ */
+export const hashToken = (token: string): string => {
+    return createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Constant-time string comparison
+ */
+export const safeEqual = (a: string, b: string): boolean => {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+
+    if (bufferA.length !== bufferB.length) {
+        return false;
+    }
+
+    return timingSafeEqual(bufferA, bufferB);
+};
@@ -0,0 +1,78 @@
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+export interface ParsedUserAgent {
+    browser: string;
+    os: string;
+    device: 'desktop' | 'mobile' | 'tablet' | 'bot' | 'unknown';
+}
+
+/******************************************************************************
+                                Parsing
+******************************************************************************/
+
+// Order matters: Edge and Opera also announce Chrome, Chrome also announces Safari
+const BROWSERS: [RegExp, string][] = [
+    [/Edg(?:e|A|iOS)?\/([\d]+)/, 'Edge'],
+    [/(?:OPR|Opera)\/([\d]+)/, 'Opera'],
+    [/SamsungBrowser\/([\d]+)/, 'Samsung Internet'],
+    [/(?:Chrome|CriOS)\/([\d]+)/, 'Chrome'],
+    [/(?:Firefox|FxiOS)\/([\d]+)/, 'Firefox'],
+    [/Version\/([\d]+).*Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+    [/Windows NT/, 'Windows'],
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Mac OS X/, 'macOS'],
+    [/Android/, 'Android'],
+    [/CrOS/, 'ChromeOS'],
+    [/Linux/, 'Linux'],
+];
+
+/**
+ * Best-effort parsing of a User-Agent header into browser, OS and device type
+ */
+export const parseUserAgent = (userAgent: string | null | undefined): ParsedUserAgent => {
+    if (!userAgent) {
+        return { browser: 'Unknown', os: 'Unknown', device: 'unknown' };
+    }
+
+    let browser = 'Unknown';
+    for (const [pattern, name] of BROWSERS) {
+        const match = userAgent.match(pattern);
+        if (match) {
+            browser = `${name} ${match[1]}`;
+            break;
+        }
+    }
+
+    const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Unknown';
+
+    let device: ParsedUserAgent['device'] = 'desktop';
+    if (/bot|crawler|spider/i.test(userAgent)) {
+        device = 'bot';
+    } else if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+        device = 'tablet';
+    } else if (/Mobi|iPhone|iPod/.test(userAgent)) {
+        device = 'mobile';
+    } else if (os === 'Unknown' && browser === 'Unknown') {
+        device = 'unknown';
+    }
+
+    return { browser, os, device };
+};
+
+/**
+ * Short human readable description, e.g. "Chrome 126 on macOS"
+ */
+export const describeUserAgent = (userAgent: string | null | undefined): string => {
+    const parsed = parseUserAgent(userAgent);
+
+    if (parsed.browser === 'Unknown' && parsed.os === 'Unknown') {
+        return userAgent || 'Unknown device';
+    }
+
+    return `${parsed.browser} on ${parsed.os}`;
+};
@@ -1,6 +1,6 @@
 import type { Request, Response, NextFunction } from 'express';
 import { ValidationError } from '../errors/ApiErrors';
-import { ZodError } from 'zod';
+import { ZodError, type ZodType } from 'zod';
 
 /**
  * Validation rule interface
@@ -228,12 +228,13 @@ const isValidUrl = (url: string): boolean => {
 };
 
 /**
- * Zod validation middleware
+ * Zod validation middleware. Handlers see the parsed body: defaults applied, transforms run and
+ * keys the schema doesn't declare dropped, so req.body matches the schema's inferred type.
  */
-export const validateRequestBody = (schema: any) => {
+export const validateRequestBody = (schema: ZodType) => {
     return (req: Request, res: Response, next: NextFunction): void => {
         try {
-            schema.parse(req.body);
+            req.body = schema.parse(req.body);
             next();
         } catch (error: any) {
             if (error instanceof ZodError) {
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import type { UserProfile } from './user';
+import type { RoleAssignmentResponse } from './role';
+import type { SessionResponse } from './session';
+import type { PasskeyResponse } from './passkey';
+import type { AuditLogResponse } from './audit';
+
+/******************************************************************************
+                                Zod Schemas
+******************************************************************************/
+
+// Account deletion schema (the password is asked again)
+export const DeleteAccountSchema = z.object({
+    password: z.string().min(1, 'Password is required'),
+});
+
+// Admin deletion options (query string)
+export const DeleteUserQuerySchema = z.object({
+    erase: z.string().transform((val: string) => val === 'true').optional(), // Erase the account after the grace period instead of only deactivating it
+});
+
+/******************************************************************************
+                                TypeScript Types
+******************************************************************************/
+
+export type DeleteAccountRequest = z.infer<typeof DeleteAccountSchema>;
+export type DeleteUserQuery = z.infer<typeof DeleteUserQuerySchema>;
+
+// Everything held about a user (GDPR data export)
+export interface AccountExport {
+    exportedAt: Date;
+    profile: UserProfile;
+    roles: RoleAssignmentResponse[];
+    sessions: SessionResponse[]; // Including expired and revoked ones still on record
+    passkeys: PasskeyResponse[];
+    auditLogs: AuditLogResponse[]; // Actions by the user and actions on their account
+}
+
+// Pending deletion, returned when it is scheduled
+export interface AccountDeletionResponse {
+    deletionScheduledAt: Date;
+}
+
+/******************************************************************************
+                                Constants
+******************************************************************************/
+
+export const ACCOUNT_DELETION = {
+    GRACE_PERIOD: 30 * 24 * 60 * 60, // the account can be restored for 30 days (in seconds)
+} as const;
+
+export const ACCOUNT_ERRORS = {
+    DELETION_PENDING: 'The account is already scheduled for deletion',
+    NO_DELETION_PENDING: 'The account is not scheduled for deletion',
+} as const;
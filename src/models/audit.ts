@@ -0,0 +1,213 @@
+import { z } from 'zod';
+import type { AuditLog, Prisma } from '@src/generated/prisma';
+
+/******************************************************************************
+                                Zod Schemas
+******************************************************************************/
+
+// Audit log filters (query string)
+export const AuditLogFilterSchema = z.object({
+    userId: z.string().optional(), // Acting user
+    action: z.string().optional(), // One action, or several separated by commas
+    resource: z.string().optional(), // Exact, or a prefix ending in "*" (e.g. "role:*")
+    ipAddress: z.string().optional(),
+    requestId: z.string().optional(),
+    from: z.string().datetime('from must be an ISO 8601 date-time').optional(),
+    to: z.string().datetime('to must be an ISO 8601 date-time').optional(),
+});
+
+// Audit log query schema (newest first, cursor paginated)
+export const AuditLogQuerySchema = AuditLogFilterSchema.extend({
+    cursor: z.string().optional(), // nextCursor of the previous page
+    limit: z.string().transform((val: string) => Math.min(parseInt(val) || 50, 200)).optional(),
+});
+
+// Audit log export schema
+export const AuditLogExportSchema = AuditLogFilterSchema.extend({
+    format: z.enum(['csv', 'ndjson']).optional(),
+});
+
+// Recent security activity query schema
+export const SecurityActivityQuerySchema = z.object({
+    limit: z.string().transform((val: string) => Math.min(parseInt(val) || 20, 100)).optional(),
+});
+
+/******************************************************************************
+                                TypeScript Types
+******************************************************************************/
+
+export type AuditLogFilter = z.infer<typeof AuditLogFilterSchema>;
+export type AuditLogQuery = z.infer<typeof AuditLogQuerySchema>;
+export type AuditLogExportQuery = z.infer<typeof AuditLogExportSchema>;
+export type SecurityActivityQuery = z.infer<typeof SecurityActivityQuerySchema>;
+export type AuditExportFormat = NonNullable<AuditLogExportQuery['format']>;
+
+// Audit log entry response type
+export interface AuditLogResponse {
+    id: string;
+    userId: string | null; // Acting user; null for system actions and deleted users
+    action: string;
+    resource: string | null;
+    details: Prisma.JsonValue;
+    ipAddress: string | null;
+    userAgent: string | null;
+    requestId: string | null;
+    createdAt: Date;
+    sequence: number | null; // Position in the hash chain
+    prevHash: string | null;
+    hash: string | null;
+    redactedAt: Date | null;
+}
+
+// Entry that is part of the hash chain
+export type ChainedAuditLog = AuditLog & { sequence: number };
+
+// A new audit entry; the client and request id come from the request context
+export interface AuditEntryInput {
+    userId: string | null;
+    action: string;
+    details?: any;
+    resource: string | null;
+}
+
+// First problem found walking the hash chain
+export interface AuditChainBreak {
+    sequence: number;
+    entryId: string | null; // Null when the entry itself is missing
+    reason: string;
+}
+
+// Outcome of walking the hash chain
+export interface AuditChainVerification {
+    valid: boolean;
+    checkedEntries: number;
+    checkedCheckpoints: number;
+    firstSequence: number | null; // Earlier entries were retired
+    lastSequence: number | null;
+    unchainedEntries: number; // Entries written since the chain began that aren't part of it
+    brokenLink: AuditChainBreak | null;
+}
+
+/******************************************************************************
+                                Utility Functions
+******************************************************************************/
+
+/**
+ * Transform database audit log entry to response format
+ */
+export function transformAuditLogToResponse(entry: AuditLog): AuditLogResponse {
+    return {
+        id: entry.id,
+        userId: entry.userId,
+        action: entry.action,
+        resource: entry.resource,
+        details: entry.details,
+        ipAddress: entry.ipAddress,
+        userAgent: entry.userAgent,
+        requestId: entry.requestId,
+        createdAt: entry.createdAt,
+        sequence: entry.sequence,
+        prevHash: entry.prevHash,
+        hash: entry.hash,
+        redactedAt: entry.redactedAt,
+    };
+}
+
+/**
+ * Format an entry as a CSV line (columns as in AUDIT_CSV_COLUMNS)
+ */
+export function formatAuditCsvRow(entry: AuditLogResponse): string {
+    return [
+        entry.id,
+        entry.createdAt.toISOString(),
+        entry.userId ?? '',
+        entry.action,
+        entry.resource ?? '',
+        entry.ipAddress ?? '',
+        entry.userAgent ?? '',
+        entry.requestId ?? '',
+        entry.details === null ? '' : JSON.stringify(entry.details),
+        entry.sequence === null ? '' : String(entry.sequence),
+        entry.prevHash ?? '',
+        entry.hash ?? '',
+        entry.redactedAt?.toISOString() ?? '',
+    ].map(escapeCsvValue).join(',');
+}
+
+/**
+ * Quote a CSV value when needed, and neutralise values a spreadsheet would run as a formula
+ */
+function escapeCsvValue(value: string): string {
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Remove personal data from audit details, at any depth
+ */
+export function anonymiseAuditDetails(details: Prisma.JsonValue): Prisma.JsonValue {
+    if (Array.isArray(details)) {
+        return details.map(anonymiseAuditDetails);
+    }
+
+    if (details === null || typeof details !== 'object') {
+        return details;
+    }
+
+    return Object.fromEntries(
+        Object.entries(details)
+            .filter(([key]) => !(AUDIT_PERSONAL_FIELDS as readonly string[]).includes(key))
+            .map(([key, value]) => [key, anonymiseAuditDetails(value ?? null)])
+    );
+}
+
+/******************************************************************************
+                                Constants
+******************************************************************************/
+
+export const AUDIT_CSV_COLUMNS = [
+    'id', 'createdAt', 'userId', 'action', 'resource', 'ipAddress', 'userAgent', 'requestId', 'details',
+    'sequence', 'prevHash', 'hash', 'redactedAt',
+] as const;
+
+// Actions shown to users as their recent security activity
+export const SECURITY_ACTIONS = [
+    'login',
+    'login_failed',
+    'logout',
+    'account_locked',
+    'account_unlocked',
+    'password_change',
+    'password_set',
+    'password_reset',
+    'password_reset_requested',
+    'mfa_enabled',
+    'mfa_disabled',
+    'mfa_failed',
+    'mfa_recovery_codes_regenerated',
+    'passkey_registered',
+    'passkey_removed',
+    'identity_linked',
+    'identity_unlinked',
+    'email_verified',
+    'email_change_requested',
+    'email_changed',
+    'email_change_cancelled',
+    'email_change_reverted',
+    'session_revoked',
+    'sessions_revoked',
+    'token_reuse_detected',
+    'data_exported',
+    'account_deletion_scheduled',
+    'account_deletion_cancelled',
+] as const;
+
+export const AUDIT_EXPORT_BATCH_SIZE = 500;
+
+export const AUDIT_CHAIN = {
+    MAX_APPEND_ATTEMPTS: 10, // Writers racing for the same sequence number retry on top of the winner
+    VERIFY_BATCH_SIZE: 1000,
+} as const;
+
+// Keys of audit details that hold personal data (dropped when the user is erased)
+export const AUDIT_PERSONAL_FIELDS = ['email', 'oldEmail', 'newEmail', 'ipAddress', 'userAgent', 'device'] as const;
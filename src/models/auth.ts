@@ -1,5 +1,7 @@
 import { z } from 'zod';
+import { ENV } from '@src/common/constants/env';
 import type { Session } from '@src/generated/prisma';
+import type { UserWithPermissions, UserWithRoles } from './user';
 
 /******************************************************************************
                                 Zod Schemas
@@ -20,6 +22,7 @@ export const RegisterSchema = z.object({
     firstName: z.string().min(1, 'First name is required').optional(),
     lastName: z.string().min(1, 'Last name is required').optional(),
     username: z.string().min(3, 'Username must be at least 3 characters').optional(),
+    locale: z.string().min(2).max(10).optional(), // Preferred language for emails, e.g. 'en' or 'es-MX'
 }).refine(data => data.password === data.confirmPassword, {
     message: "Passwords don't match",
     path: ["confirmPassword"],
@@ -27,7 +30,7 @@ export const RegisterSchema = z.object({
 
 // Change password schema
 export const ChangePasswordSchema = z.object({
-    currentPassword: z.string().min(1, 'Current password is required'),
+    currentPassword: z.string().min(1, 'Current password is required').optional(), // Omitted when setting a first password
     newPassword: z.string().min(8, 'New password must be at least 8 characters'),
     confirmPassword: z.string().min(1, 'Password confirmation is required'),
 }).refine(data => data.newPassword === data.confirmPassword, {
@@ -40,6 +43,42 @@ export const RefreshTokenSchema = z.object({
     refreshToken: z.string().min(1, 'Refresh token is required'),
 });
 
+// Change email schema
+export const ChangeEmailSchema = z.object({
+    newEmail: z.string().email('Invalid email format'),
+    currentPassword: z.string().min(1, 'Current password is required'),
+});
+
+// Email change confirmation and revert schema (token from either email)
+export const EmailChangeTokenSchema = z.object({
+    token: z.string().min(1, 'Token is required'),
+});
+
+// Email verification schema
+export const VerifyEmailSchema = z.object({
+    token: z.string().min(1, 'Verification token is required'),
+});
+
+// Resend verification email schema
+export const ResendVerificationSchema = z.object({
+    email: z.string().email('Invalid email format'),
+});
+
+// Forgot password schema
+export const ForgotPasswordSchema = z.object({
+    email: z.string().email('Invalid email format'),
+});
+
+// Reset password schema
+export const ResetPasswordSchema = z.object({
+    token: z.string().min(1, 'Reset token is required'),
+    newPassword: z.string().min(8, 'New password must be at least 8 characters'),
+    confirmPassword: z.string().min(1, 'Password confirmation is required'),
+}).refine(data => data.newPassword === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+});
+
 /******************************************************************************
                                 TypeScript Types
 ******************************************************************************/
@@ -47,7 +86,13 @@ export const RefreshTokenSchema = z.object({
 export type LoginRequest = z.infer<typeof LoginSchema>;
 export type RegisterRequest = z.infer<typeof RegisterSchema>;
 export type ChangePasswordRequest = z.infer<typeof ChangePasswordSchema>;
+export type ChangeEmailRequest = z.infer<typeof ChangeEmailSchema>;
+export type EmailChangeTokenRequest = z.infer<typeof EmailChangeTokenSchema>;
 export type RefreshTokenRequest = z.infer<typeof RefreshTokenSchema>;
+export type VerifyEmailRequest = z.infer<typeof VerifyEmailSchema>;
+export type ResendVerificationRequest = z.infer<typeof ResendVerificationSchema>;
+export type ForgotPasswordRequest = z.infer<typeof ForgotPasswordSchema>;
+export type ResetPasswordRequest = z.infer<typeof ResetPasswordSchema>;
 
 // JWT payload interface
 export interface JwtPayload {
@@ -57,6 +102,30 @@ export interface JwtPayload {
     iat?: number;
     exp?: number;
     jti?: string; // JWT ID for token tracking
+    sid?: string; // Session the token was issued for
+    iss?: string;
+    aud?: string | string[];
+}
+
+// Adds application-specific claims to access tokens (registered with authService.addClaimBuilder).
+// The claims above always win over a builder's, so it can't impersonate another user or session.
+export type AccessTokenClaimBuilder = (
+    user: UserWithRoles,
+    sessionId: string
+) => Record<string, unknown> | Promise<Record<string, unknown>>;
+
+// Result of verifying an access token
+export interface VerifiedAccessToken {
+    user: UserWithPermissions;
+    sessionId: string;
+    tokenId: string;
+    expiresAt: Date;
+}
+
+// Information about the client making a request
+export interface ClientInfo {
+    ipAddress?: string | undefined;
+    userAgent?: string | undefined;
 }
 
 // Authentication response
@@ -67,6 +136,7 @@ export interface AuthResponse {
         username: string | null;
         firstName: string | null;
         lastName: string | null;
+        emailVerified: boolean;
         roles: {
             id: string;
             name: string;
@@ -80,6 +150,13 @@ export interface AuthResponse {
     };
 }
 
+export type AuthTokens = AuthResponse['tokens'];
+
+// Registration response - tokens are withheld while the verification policy would reject login
+export type RegisterResponse =
+    | (AuthResponse & { verificationRequired: false })
+    | (Omit<AuthResponse, 'tokens'> & { verificationRequired: true });
+
 // Session with user info
 export interface SessionWithUser extends Session {
     user: {
@@ -103,17 +180,40 @@ export interface SessionWithUser extends Session {
                                 Constants
 ******************************************************************************/
 
-// JWT configuration
-export const JWT_CONFIG = {
-    ACCESS_TOKEN_EXPIRES_IN: '15m', // 15 minutes
-    REFRESH_TOKEN_EXPIRES_IN: '7d', // 7 days
-    REMEMBER_ME_EXPIRES_IN: '30d', // 30 days for remember me
+// Email verification settings
+export const EMAIL_VERIFICATION = {
+    TOKEN_EXPIRY: 24 * 60 * 60, // 24 hours (in seconds)
 } as const;
 
-// Session expiry times (in seconds)
-export const SESSION_EXPIRY = {
-    DEFAULT: 7 * 24 * 60 * 60, // 7 days
-    REMEMBER_ME: 30 * 24 * 60 * 60, // 30 days
+// Email change settings
+export const EMAIL_CHANGE = {
+    TOKEN_EXPIRY: 24 * 60 * 60, // the new address must confirm within 24 hours (in seconds)
+    REVERT_WINDOW: 7 * 24 * 60 * 60, // the old address can undo the change for 7 days (in seconds)
+} as const;
+
+// Password reset settings
+export const PASSWORD_RESET = {
+    TOKEN_EXPIRY: 60 * 60, // 1 hour (in seconds)
+} as const;
+
+// Failed sign-in throttling, tracked per account (email) and per IP address
+export const LOGIN_THROTTLE = {
+    FAILURE_WINDOW: 15 * 60, // failures older than this are forgotten (in seconds)
+    DELAY_AFTER: 2, // failures before retries are delayed
+    BASE_DELAY: 1, // first delay, doubled with every further failure (in seconds)
+    MAX_DELAY: 30, // (in seconds)
+    ACCOUNT_MAX_FAILURES: ENV.LOGIN_MAX_FAILURES, // failures that lock the account
+    IP_MAX_FAILURES: ENV.LOGIN_IP_MAX_FAILURES, // failures that block the IP address
+    LOCKOUT_DURATION: ENV.LOGIN_LOCKOUT_MINUTES * 60, // first lockout, doubled with every consecutive one (in seconds)
+    MAX_LOCKOUT_DURATION: 24 * 60 * 60, // 24 hours; also how long a quiet period resets the doubling
+} as const;
+
+// Request rate limits for the public auth endpoints (windows in seconds)
+export const AUTH_RATE_LIMITS = {
+    LOGIN_IP: { algorithm: 'sliding-window', limit: 20, window: 60 },
+    LOGIN_EMAIL: { algorithm: 'sliding-window', limit: 10, window: 60 },
+    REGISTER_IP: { algorithm: 'fixed-window', limit: 5, window: 60 * 60 },
+    REFRESH_IP: { algorithm: 'token-bucket', limit: 30, window: 60 }, // bursts of 30, refilled at 30 per minute
 } as const;
 
 // Auth error messages
@@ -123,44 +223,17 @@ export const AUTH_ERRORS = {
     USER_INACTIVE: 'Account is deactivated',
     INVALID_TOKEN: 'Invalid or expired token',
     TOKEN_EXPIRED: 'Token has expired',
+    TOKEN_REVOKED: 'Token has been revoked',
     SESSION_EXPIRED: 'Session has expired',
     UNAUTHORIZED: 'Unauthorized access',
     INSUFFICIENT_PERMISSIONS: 'Insufficient permissions',
     EMAIL_ALREADY_EXISTS: 'Email already exists',
     USERNAME_ALREADY_EXISTS: 'Username already exists',
+    EMAIL_NOT_VERIFIED: 'Email address has not been verified',
+    EMAIL_ALREADY_VERIFIED: 'Email address is already verified',
+    INCORRECT_PASSWORD: 'Current password is incorrect',
+    PASSWORD_REQUIRED: 'Set a password first; this action has to be confirmed with it',
+    SAME_EMAIL: 'The new email address is the same as the current one',
+    ACCOUNT_LOCKED: 'Account is temporarily locked after too many failed sign-in attempts',
+    TOO_MANY_ATTEMPTS: 'Too many failed sign-in attempts, please try again later',
 } as const;
-
-/******************************************************************************
-                                Role Permissions (OPTIONAL - for authorization)
-******************************************************************************/
-
-// Role permissions structure
-export interface RolePermissions {
-    users: {
-        create?: boolean;
-        read?: boolean;
-        update?: boolean;
-        delete?: boolean;
-    };
-    system: {
-        admin?: boolean;
-        logs?: boolean;
-        settings?: boolean;
-    };
-}
-
-// Default permissions for roles (OPTIONAL - customize based on your needs)
-export const DEFAULT_PERMISSIONS: Record<string, RolePermissions> = {
-    admin: {
-        users: { create: true, read: true, update: true, delete: true },
-        system: { admin: true, logs: true, settings: true },
-    },
-    user: {
-        users: { read: false, update: false, delete: false },
-        system: { admin: false, logs: false, settings: false },
-    },
-    moderator: {
-        users: { read: true, update: true, delete: false },
-        system: { admin: false, logs: true, settings: false },
-    },
-};
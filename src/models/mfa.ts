@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import type { AuthResponse } from './auth';
+import { ENV } from '@src/common/constants/env';
+
+/******************************************************************************
+                                Zod Schemas
+******************************************************************************/
+
+// Second login step: TOTP or recovery code for a challenge token
+export const MfaVerifySchema = z.object({
+    challengeToken: z.string().min(1, 'Challenge token is required'),
+    code: z.string().min(1, 'Code is required'),
+});
+
+// Start enrollment (challengeToken only when enrollment is enforced during login)
+export const MfaEnrollSchema = z.object({
+    challengeToken: z.string().min(1).optional(),
+});
+
+// Confirm enrollment with a code from the authenticator app
+export const MfaConfirmSchema = z.object({
+    code: z.string().min(1, 'Code is required'),
+    challengeToken: z.string().min(1).optional(),
+});
+
+// Disable two-factor authentication (password only for accounts that have one)
+export const MfaDisableSchema = z.object({
+    password: z.string().min(1).optional(),
+    code: z.string().min(1, 'Code is required'),
+});
+
+// Regenerate recovery codes
+export const MfaRecoveryCodesSchema = z.object({
+    code: z.string().min(1, 'Code is required'),
+});
+
+/******************************************************************************
+                                TypeScript Types
+******************************************************************************/
+
+export type MfaVerifyRequest = z.infer<typeof MfaVerifySchema>;
+export type MfaEnrollRequest = z.infer<typeof MfaEnrollSchema>;
+export type MfaConfirmRequest = z.infer<typeof MfaConfirmSchema>;
+export type MfaDisableRequest = z.infer<typeof MfaDisableSchema>;
+export type MfaRecoveryCodesRequest = z.infer<typeof MfaRecoveryCodesSchema>;
+
+// What the user still has to do before tokens are issued
+export type MfaChallengeType = 'mfa_required' | 'mfa_enrollment_required';
+
+// Returned by login instead of AuthResponse when a second factor is needed
+export interface MfaChallengeResponse {
+    status: MfaChallengeType;
+    challengeToken: string;
+    expiresIn: number; // seconds
+    methods: MfaMethod[]; // second factors the user can answer with
+}
+
+// Login either completes or asks for a second factor
+export type LoginResponse = AuthResponse | MfaChallengeResponse;
+
+// Claims of a challenge token
+export interface MfaChallengePayload {
+    sub: string;
+    purpose: MfaChallengeType;
+    rememberMe: boolean;
+}
+
+export interface MfaEnrollmentResponse {
+    secret: string; // base32, for manual entry
+    otpauthUri: string; // render as QR code
+}
+
+export interface MfaConfirmResponse {
+    recoveryCodes: string[]; // shown once, only hashes are stored
+    session: AuthResponse | null; // set when enrollment completed an enforced login
+}
+
+// How a second factor was satisfied
+export type MfaMethod = 'totp' | 'recovery_code' | 'passkey';
+
+// Two-factor state shown on the user's profile
+export interface MfaStatus {
+    enabled: boolean; // TOTP enrollment confirmed
+    requiredByRole: boolean;
+    recoveryCodesRemaining: number;
+}
+
+/******************************************************************************
+                                Constants
+******************************************************************************/
+
+export const MFA_CONFIG = {
+    ISSUER: ENV.MFA_ISSUER, // Shown as the account name prefix in authenticator apps
+    CHALLENGE_EXPIRY: 5 * 60, // 5 minutes (in seconds)
+    RECOVERY_CODE_COUNT: 10,
+} as const;
+
+export const MFA_ERRORS = {
+    INVALID_CODE: 'Invalid authentication code',
+    INVALID_CHALLENGE: 'Invalid or expired MFA challenge',
+    ALREADY_ENABLED: 'Two-factor authentication is already enabled',
+    NOT_ENABLED: 'Two-factor authentication is not enabled',
+    ENROLLMENT_NOT_STARTED: 'Two-factor enrollment has not been started',
+    REQUIRED_BY_ROLE: 'Two-factor authentication is required for your role and cannot be disabled',
+    LAST_FACTOR: 'Your role requires a second factor; enable two-factor authentication before removing your last passkey',
+} as const;
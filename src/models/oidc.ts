@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import type { LoginResponse } from './mfa';
+import type { UserIdentity } from '@src/generated/prisma';
+
+/******************************************************************************
+                                Zod Schemas
+******************************************************************************/
+
+// Parameters the provider sends back to the redirect URI (as query string, or posted by the frontend)
+export const OidcCallbackSchema = z.object({
+    state: z.string().min(1, 'State is required'),
+    code: z.string().min(1).optional(),
+    error: z.string().optional(),
+    error_description: z.string().optional(),
+    rememberMe: z.boolean().optional().default(false),
+});
+
+/******************************************************************************
+                                TypeScript Types
+******************************************************************************/
+
+export type OidcCallbackRequest = z.infer<typeof OidcCallbackSchema>;
+
+// Normalised account data from an ID token or userinfo response
+export interface ExternalProfile {
+    subject: string;
+    email: string | null;
+    emailVerified: boolean;
+    firstName: string | null;
+    lastName: string | null;
+}
+
+// Public provider info (for rendering "Sign in with..." buttons)
+export interface OidcProviderInfo {
+    name: string;
+    displayName: string;
+}
+
+export interface OidcAuthorizationResponse {
+    authorizationUrl: string;
+}
+
+// Identity response type
+export interface IdentityResponse {
+    id: string;
+    provider: string;
+    email: string | null;
+    createdAt: Date;
+    lastLoginAt: Date | null;
+}
+
+// Returned by the callback when it completed a link instead of a sign-in
+export interface IdentityLinkedResponse {
+    status: 'identity_linked';
+    identity: IdentityResponse;
+}
+
+export type OidcCallbackResponse = LoginResponse | IdentityLinkedResponse;
+
+/******************************************************************************
+                                Utility Functions
+******************************************************************************/
+
+/**
+ * Transform database identity to response format
+ */
+export function transformIdentityToResponse(identity: UserIdentity): IdentityResponse {
+    return {
+        id: identity.id,
+        provider: identity.provider,
+        email: identity.email,
+        createdAt: identity.createdAt,
+        lastLoginAt: identity.lastLoginAt,
+    };
+}
+
+/******************************************************************************
+                                Constants
+******************************************************************************/
+
+export const OIDC_CONFIG = {
+    REQUEST_EXPIRY: 10 * 60, // 10 minutes (in seconds) to complete the provider's sign-in
+    CLOCK_TOLERANCE: 60, // seconds of clock skew accepted on ID token timestamps
+} as const;
+
+export const OIDC_ERRORS = {
+    UNKNOWN_PROVIDER: 'Unknown or disabled sign-in provider',
+    INVALID_STATE: 'Invalid or expired sign-in request',
+    PROVIDER_ERROR: 'The sign-in provider rejected the request',
+    INVALID_ID_TOKEN: 'Invalid ID token from the sign-in provider',
+    EMAIL_REQUIRED: 'The sign-in provider did not share an email address',
+    ACCOUNT_EXISTS: 'An account with this email already exists. Sign in and link this provider from your account settings',
+    IDENTITY_IN_USE: 'This external account is already linked to another user',
+    IDENTITY_NOT_FOUND: 'Linked account not found',
+    LAST_LOGIN_METHOD: 'Set a password or add a passkey before unlinking your only sign-in method',
+} as const;
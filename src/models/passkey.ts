@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import type { Credential } from '@src/generated/prisma';
+
+/******************************************************************************
+                                Zod Schemas
+******************************************************************************/
+
+// Credential JSON produced by the browser (checked in depth by the WebAuthn verifier)
+const CredentialResponseSchema = z.object({
+    id: z.string().min(1),
+    rawId: z.string().min(1),
+    type: z.literal('public-key'),
+    response: z.record(z.string(), z.any()),
+    clientExtensionResults: z.record(z.string(), z.any()).optional().default({}),
+    authenticatorAttachment: z.enum(['platform', 'cross-platform']).optional(),
+});
+
+// Finish passkey registration
+export const PasskeyRegisterSchema = z.object({
+    response: CredentialResponseSchema,
+    name: z.string().min(1).max(100).optional(),
+});
+
+// Request authentication options (email narrows to that user's passkeys, challengeToken for second-factor use)
+export const PasskeyLoginOptionsSchema = z.object({
+    email: z.string().email('Invalid email format').optional(),
+    challengeToken: z.string().min(1).optional(),
+});
+
+// Finish passkey authentication
+export const PasskeyLoginSchema = z.object({
+    response: CredentialResponseSchema,
+    challengeToken: z.string().min(1).optional(),
+    rememberMe: z.boolean().optional().default(false),
+});
+
+/******************************************************************************
+                                TypeScript Types
+******************************************************************************/
+
+export type PasskeyRegisterRequest = z.infer<typeof PasskeyRegisterSchema>;
+export type PasskeyLoginOptionsRequest = z.infer<typeof PasskeyLoginOptionsSchema>;
+export type PasskeyLoginRequest = z.infer<typeof PasskeyLoginSchema>;
+
+export type WebAuthnCeremony = 'registration' | 'authentication';
+
+// Passkey response type (never exposes key material)
+export interface PasskeyResponse {
+    id: string;
+    name: string | null;
+    deviceType: string | null;
+    backedUp: boolean;
+    transports: string[];
+    createdAt: Date;
+    lastUsedAt: Date | null;
+}
+
+/******************************************************************************
+                                Utility Functions
+******************************************************************************/
+
+/**
+ * Transform database credential to response format
+ */
+export function transformCredentialToResponse(credential: Credential): PasskeyResponse {
+    return {
+        id: credential.id,
+        name: credential.name,
+        deviceType: credential.deviceType,
+        backedUp: credential.backedUp,
+        transports: credential.transports,
+        createdAt: credential.createdAt,
+        lastUsedAt: credential.lastUsedAt,
+    };
+}
+
+/******************************************************************************
+                                Constants
+******************************************************************************/
+
+export const PASSKEY_CONFIG = {
+    CHALLENGE_EXPIRY: 5 * 60, // 5 minutes (in seconds)
+} as const;
+
+export const PASSKEY_ERRORS = {
+    VERIFICATION_FAILED: 'Passkey verification failed',
+    NOT_FOUND: 'Passkey not found',
+    ALREADY_REGISTERED: 'This passkey is already registered',
+} as const;
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { Prisma } from '@src/generated/prisma';
+import {
+    hasPermission,
+    isPermissionRule,
+    listGrantedPermissions,
+    matchesPermission,
+    parsePermissionRules,
+    resolvePermissions,
+} from './permission';
+
+const role = (permissions: Prisma.JsonValue, isActive: boolean = true) => ({ permissions, isActive });
+
+describe('permissions', () => {
+    it('validates rules against the registry', () => {
+        expect(['*', 'users:*', '*:read', 'users:read', '!system:admin'].every(isPermissionRule)).toBe(true);
+        expect(['users', 'users:fly', 'robots:read', '*:*', '*:fly', 'users:read:own', '!'].some(isPermissionRule)).toBe(false);
+    });
+
+    it('matches wildcards on the resource, the action or both', () => {
+        expect(matchesPermission('*', 'system:admin')).toBe(true);
+        expect(matchesPermission('users:*', 'users:delete')).toBe(true);
+        expect(matchesPermission('users:*', 'roles:delete')).toBe(false);
+        expect(matchesPermission('*:read', 'sessions:read')).toBe(true);
+        expect(matchesPermission('*:read', 'sessions:revoke')).toBe(false);
+    });
+
+    it('unions the grants of every active role', () => {
+        const permissions = resolvePermissions([role(['users:read']), role(['roles:*']), role(['system:admin'], false)]);
+
+        expect(permissions).toEqual({ allow: ['roles:*', 'users:read'], deny: [] });
+        expect(hasPermission(permissions, 'roles:assign')).toBe(true);
+        expect(hasPermission(permissions, 'system:admin')).toBe(false);
+    });
+
+    it('lets a deny in any role override every grant, wildcards included', () => {
+        const permissions = resolvePermissions([role(['*']), role(['!users:delete', '!*:revoke'])]);
+
+        expect(hasPermission(permissions, 'users:update')).toBe(true);
+        expect(hasPermission(permissions, 'users:delete')).toBe(false);
+        expect(hasPermission(permissions, 'sessions:revoke')).toBe(false);
+        expect(listGrantedPermissions(permissions)).not.toContain('users:delete');
+    });
+
+    it('ignores denies of inactive roles', () => {
+        const permissions = resolvePermissions([role(['users:*']), role(['!users:delete'], false)]);
+
+        expect(hasPermission(permissions, 'users:delete')).toBe(true);
+    });
+
+    it('expands wildcards to the concrete permissions they grant', () => {
+        const permissions = resolvePermissions([role(['sessions:*', '*:read', '!roles:read'])]);
+
+        expect(listGrantedPermissions(permissions).sort()).toEqual(['sessions:read', 'sessions:revoke', 'users:read']);
+    });
+
+    it('reads the legacy nested format and drops unknown rules', () => {
+        expect(parsePermissionRules({ users: { read: true, delete: false }, robots: { fly: true } })).toEqual(['users:read']);
+        expect(parsePermissionRules(['users:read', 'robots:fly', 42])).toEqual(['users:read']);
+        expect(parsePermissionRules(null)).toEqual([]);
+        expect(parsePermissionRules('users:read')).toEqual([]);
+    });
+});
@@ -0,0 +1,174 @@
+import { z } from 'zod';
+import type { Prisma, Role } from '@src/generated/prisma';
+
+/******************************************************************************
+                                Permission Registry
+******************************************************************************/
+
+/**
+ * Every permission the application checks, as resource -> actions.
+ * Permissions are written "resource:action"; add new ones here so requirePermission() accepts them.
+ */
+export const PERMISSIONS = {
+    users: ['create', 'read', 'update', 'delete', 'unlock'],
+    roles: ['create', 'read', 'update', 'delete', 'assign'],
+    sessions: ['read', 'revoke'],
+    system: ['admin', 'logs', 'settings'],
+} as const;
+
+/******************************************************************************
+                                TypeScript Types
+******************************************************************************/
+
+export type PermissionResource = keyof typeof PERMISSIONS;
+export type PermissionAction = (typeof PERMISSIONS)[PermissionResource][number];
+
+// A concrete permission, e.g. "users:update"
+export type Permission = {
+    [R in PermissionResource]: `${R}:${(typeof PERMISSIONS)[R][number]}`
+}[PermissionResource];
+
+// A permission or a wildcard: "*", "users:*" or "*:read"
+export type PermissionPattern = Permission | '*' | `${PermissionResource}:*` | `*:${PermissionAction}`;
+
+// A grant, or a deny rule when prefixed with "!" (e.g. "!users:delete")
+export type PermissionRule = PermissionPattern | `!${PermissionPattern}`;
+
+// Union of the rules of all of a user's roles
+export interface EffectivePermissions {
+    allow: PermissionPattern[];
+    deny: PermissionPattern[];
+}
+
+/******************************************************************************
+                                Zod Schemas
+******************************************************************************/
+
+// Permission rules stored on a role
+export const PermissionRulesSchema = z.array(
+    z.string().refine(isPermissionRule, { message: 'Unknown permission or invalid rule' })
+);
+
+/******************************************************************************
+                                Utility Functions
+******************************************************************************/
+
+/**
+ * Check a rule against the registry
+ */
+export function isPermissionRule(value: string): value is PermissionRule {
+    const pattern = value.startsWith('!') ? value.slice(1) : value;
+
+    if (pattern === '*') {
+        return true;
+    }
+
+    const [resource, action, ...rest] = pattern.split(':');
+    if (!resource || !action || rest.length > 0) {
+        return false;
+    }
+
+    if (resource === '*') {
+        return action !== '*' && Object.values(PERMISSIONS).some(actions => (actions as readonly string[]).includes(action));
+    }
+
+    const actions = PERMISSIONS[resource as PermissionResource] as readonly string[] | undefined;
+
+    return actions !== undefined && (action === '*' || actions.includes(action));
+}
+
+/**
+ * Read a role's stored rules. Besides a list of rules, the legacy nested format
+ * ({ users: { read: true } }) is accepted, where `true` grants "resource:action"
+ * and `false` grants nothing. Rules no longer in the registry are ignored.
+ */
+export function parsePermissionRules(value: Prisma.JsonValue | null): PermissionRule[] {
+    if (Array.isArray(value)) {
+        return value.filter((rule): rule is PermissionRule => typeof rule === 'string' && isPermissionRule(rule));
+    }
+
+    if (!value || typeof value !== 'object') {
+        return [];
+    }
+
+    const rules: string[] = [];
+    for (const [resource, actions] of Object.entries(value)) {
+        if (!actions || typeof actions !== 'object' || Array.isArray(actions)) {
+            continue;
+        }
+        for (const [action, granted] of Object.entries(actions)) {
+            if (granted === true) {
+                rules.push(`${resource}:${action}`);
+            }
+        }
+    }
+
+    return rules.filter(isPermissionRule);
+}
+
+/**
+ * Merge the rules of several roles. Grants are unioned, and a deny rule in any
+ * active role overrides every grant (so it can't be undone by another role).
+ */
+export function resolvePermissions(roles: Pick<Role, 'permissions' | 'isActive'>[]): EffectivePermissions {
+    const allow = new Set<PermissionPattern>();
+    const deny = new Set<PermissionPattern>();
+
+    for (const role of roles) {
+        if (!role.isActive) {
+            continue;
+        }
+
+        for (const rule of parsePermissionRules(role.permissions)) {
+            if (rule.startsWith('!')) {
+                deny.add(rule.slice(1) as PermissionPattern);
+            } else {
+                allow.add(rule as PermissionPattern);
+            }
+        }
+    }
+
+    return { allow: [...allow].sort(), deny: [...deny].sort() };
+}
+
+/**
+ * Check whether a pattern covers a permission
+ */
+export function matchesPermission(pattern: PermissionPattern, permission: Permission): boolean {
+    if (pattern === '*' || pattern === permission) {
+        return true;
+    }
+
+    const [patternResource, patternAction] = pattern.split(':');
+    const [resource, action] = permission.split(':');
+
+    return (patternResource === '*' || patternResource === resource)
+        && (patternAction === '*' || patternAction === action);
+}
+
+/**
+ * Every concrete permission in the registry
+ */
+export function listAllPermissions(): Permission[] {
+    return (Object.keys(PERMISSIONS) as PermissionResource[]).flatMap(
+        resource => PERMISSIONS[resource].map(action => `${resource}:${action}` as Permission)
+    );
+}
+
+/**
+ * Check whether effective permissions grant a permission (deny rules win)
+ */
+export function hasPermission(permissions: EffectivePermissions, permission: Permission): boolean {
+    if (permissions.deny.some(pattern => matchesPermission(pattern, permission))) {
+        return false;
+    }
+
+    return permissions.allow.some(pattern => matchesPermission(pattern, permission));
+}
+
+/**
+ * Expand effective permissions to the concrete permissions they grant
+ */
+export function listGrantedPermissions(permissions: EffectivePermissions): Permission[] {
+    return listAllPermissions().filter(permission => hasPermission(permissions, permission));
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { collectRoleLineage, createsRoleCycle, type RoleNode } from './role';
+
+const node = (id: string, parentId: string | null, isActive: boolean = true): RoleNode =>
+    ({ id, parentId, permissions: [], isActive });
+
+// user <- moderator <- admin, plus an unrelated support role
+const hierarchy = (...roles: RoleNode[]) => new Map(roles.map(role => [role.id, role]));
+
+describe('role hierarchy', () => {
+    const user = node('user', null);
+    const moderator = node('moderator', 'user');
+    const admin = node('admin', 'moderator');
+    const support = node('support', null);
+
+    it('collects a role and all its ancestors', () => {
+        const roles = hierarchy(user, moderator, admin, support);
+
+        expect(collectRoleLineage([admin], roles).map(role => role.id)).toEqual(['admin', 'moderator', 'user']);
+        expect(collectRoleLineage([moderator, support], roles).map(role => role.id)).toEqual(['moderator', 'user', 'support']);
+    });
+
+    it('stops inheriting at an inactive role', () => {
+        const roles = hierarchy(user, { ...moderator, isActive: false }, admin);
+
+        expect(collectRoleLineage([admin], roles).map(role => role.id)).toEqual(['admin']);
+    });
+
+    it('survives a cycle in stored data', () => {
+        const roles = hierarchy(node('a', 'b'), node('b', 'a'));
+
+        expect(collectRoleLineage([roles.get('a')!], roles).map(role => role.id)).toEqual(['a', 'b']);
+    });
+
+    it('detects a parent that would create a cycle', () => {
+        const roles = hierarchy(user, moderator, admin, support);
+
+        expect(createsRoleCycle('user', 'admin', roles)).toBe(true); // admin descends from user
+        expect(createsRoleCycle('user', 'user', roles)).toBe(true);
+        expect(createsRoleCycle('support', 'admin', roles)).toBe(false);
+        expect(createsRoleCycle('admin', 'support', roles)).toBe(false);
+    });
+});
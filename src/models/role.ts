@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import type { Role } from '@src/generated/prisma';
+import type { Role, UserRole } from '@src/generated/prisma';
+import { parsePermissionRules, PermissionRulesSchema, type PermissionRule } from './permission';
 
 /******************************************************************************
                                 Zod Schemas (OPTIONAL - for authorization)
@@ -10,7 +11,9 @@ export const CreateRoleSchema = z.object({
     name: z.string().min(2, 'Name must be at least 2 characters').max(100),
     displayName: z.string().min(2, 'Display name must be at least 2 characters').max(100),
     description: z.string().max(255).optional(),
-    permissions: z.record(z.string(), z.any()).optional(), // JSON permissions object
+    permissions: PermissionRulesSchema.optional(), // e.g. ["users:read", "sessions:*", "!users:delete"]
+    requireMfa: z.boolean().optional(), // Enforce two-factor authentication for members
+    parentId: z.string().nullable().optional(), // Role to inherit permissions from
 });
 
 // Role update schema
@@ -18,23 +21,54 @@ export const UpdateRoleSchema = z.object({
     name: z.string().min(2, 'Name must be at least 2 characters').max(100).optional(),
     displayName: z.string().min(2, 'Display name must be at least 2 characters').max(100).optional(),
     description: z.string().max(255).optional(),
-    permissions: z.record(z.string(), z.any()).optional(), // JSON permissions object
+    permissions: PermissionRulesSchema.optional(), // e.g. ["users:read", "sessions:*", "!users:delete"]
     isActive: z.boolean().optional(),
+    requireMfa: z.boolean().optional(),
+    parentId: z.string().nullable().optional(), // null detaches the role from its parent
 });
 
-// User role assignment schema
-export const UserRoleSchema = z.object({
-    userId: z.string().uuid(),
-    roleId: z.string().uuid(),
+// Role query schema
+export const RoleQuerySchema = z.object({
+    page: z.string().transform((val: string) => parseInt(val) || 1).optional(),
+    limit: z.string().transform((val: string) => Math.min(parseInt(val) || 20, 100)).optional(),
+    search: z.string().optional(), // Matches name, display name or description
+    isActive: z.string().transform((val: string) => val === 'true').optional(),
 });
 
+// Role deletion options (query string)
+export const DeleteRoleQuerySchema = z.object({
+    reassignTo: z.string().min(1).optional(), // Role to move the deleted role's members to
+});
+
+// User role assignment schema (the body may be omitted for a permanent assignment)
+export const AssignRoleSchema = z.object({
+    expiresAt: z.string().datetime('expiresAt must be an ISO 8601 date-time')
+        .refine((val: string) => new Date(val) > new Date(), 'expiresAt must be in the future')
+        .optional(), // Temporary elevation; the role stops applying after this
+}).default({});
+
 /******************************************************************************
                                 TypeScript Types
 ******************************************************************************/
 
 export type CreateRoleRequest = z.infer<typeof CreateRoleSchema>;
 export type UpdateRoleRequest = z.infer<typeof UpdateRoleSchema>;
-export type UserRoleAssignment = z.infer<typeof UserRoleSchema>;
+export type AssignRoleRequest = z.infer<typeof AssignRoleSchema>;
+export type RoleQuery = z.infer<typeof RoleQuerySchema>;
+export type DeleteRoleQuery = z.infer<typeof DeleteRoleQuerySchema>;
+
+// Role definition created by the seed script
+export interface SystemRoleDefinition {
+    name: string;
+    displayName: string;
+    description: string;
+    permissions: readonly PermissionRule[]; // In addition to those inherited from the parent
+    parent: string | null; // Name of the parent role
+    isSystem: boolean;
+}
+
+// The parts of a role needed to resolve inherited permissions
+export type RoleNode = Pick<Role, 'id' | 'parentId' | 'permissions' | 'isActive'>;
 
 // Role response type
 export interface RoleResponse {
@@ -42,13 +76,104 @@ export interface RoleResponse {
     name: string;
     displayName: string;
     description: string | null;
-    permissions: Record<string, any> | null;
+    permissions: PermissionRule[];
+    parentId: string | null;
     isSystem: boolean;
     isActive: boolean;
+    requireMfa: boolean;
     createdAt: Date;
     updatedAt: Date;
 }
 
+// A role held by a user
+export interface RoleAssignmentResponse {
+    role: {
+        id: string;
+        name: string;
+        displayName: string;
+        isActive: boolean;
+    };
+    assignedAt: Date;
+    assignedBy: string | null;
+    expiresAt: Date | null; // null for permanent assignments
+}
+
+/******************************************************************************
+                                Utility Functions
+******************************************************************************/
+
+/**
+ * Expand roles to themselves plus all their ancestors. Inactive roles grant nothing,
+ * including what they would inherit. Safe against cycles in stored data.
+ */
+export function collectRoleLineage<T extends RoleNode>(roles: T[], rolesById: Map<string, T>): T[] {
+    const lineage = new Map<string, T>();
+
+    for (const role of roles) {
+        let current: T | undefined = role;
+        while (current && current.isActive && !lineage.has(current.id)) {
+            lineage.set(current.id, current);
+            current = current.parentId ? rolesById.get(current.parentId) : undefined;
+        }
+    }
+
+    return [...lineage.values()];
+}
+
+/**
+ * Check whether making parentId the parent of roleId would create a cycle
+ */
+export function createsRoleCycle(roleId: string, parentId: string, rolesById: Map<string, Pick<Role, 'id' | 'parentId'>>): boolean {
+    const visited = new Set<string>();
+    let current: string | null = parentId;
+
+    while (current) {
+        if (current === roleId || visited.has(current)) {
+            return true;
+        }
+        visited.add(current);
+        current = rolesById.get(current)?.parentId ?? null;
+    }
+
+    return false;
+}
+
+/**
+ * Transform database role to response format
+ */
+export function transformRoleToResponse(role: Role): RoleResponse {
+    return {
+        id: role.id,
+        name: role.name,
+        displayName: role.displayName,
+        description: role.description,
+        permissions: parsePermissionRules(role.permissions),
+        parentId: role.parentId,
+        isSystem: role.isSystem,
+        isActive: role.isActive,
+        requireMfa: role.requireMfa,
+        createdAt: role.createdAt,
+        updatedAt: role.updatedAt,
+    };
+}
+
+/**
+ * Transform a user's role assignment to response format
+ */
+export function transformAssignmentToResponse(assignment: UserRole & { role: Role }): RoleAssignmentResponse {
+    return {
+        role: {
+            id: assignment.role.id,
+            name: assignment.role.name,
+            displayName: assignment.role.displayName,
+            isActive: assignment.role.isActive,
+        },
+        assignedAt: assignment.createdAt,
+        assignedBy: assignment.createdBy,
+        expiresAt: assignment.expiresAt,
+    };
+}
+
 /******************************************************************************
                                 Constants
 ******************************************************************************/
@@ -59,30 +184,47 @@ export const SYSTEM_ROLES = {
         name: 'admin',
         displayName: 'Administrator',
         description: 'Full system access',
-        permissions: {
-            users: { create: true, read: true, update: true, delete: true },
-            system: { admin: true, logs: true, settings: true },
-        },
+        permissions: ['*'],
+        parent: 'moderator',
         isSystem: true,
     },
     USER: {
         name: 'user',
         displayName: 'User',
         description: 'Basic user access',
-        permissions: {
-            users: { read: false, update: false, delete: false },
-            system: { admin: false, logs: false, settings: false },
-        },
+        permissions: [],
+        parent: null,
         isSystem: true,
     },
     MODERATOR: {
         name: 'moderator',
         displayName: 'Moderator',
         description: 'Moderation privileges',
-        permissions: {
-            users: { read: true, update: true, delete: false },
-            system: { admin: false, logs: true, settings: false },
-        },
+        permissions: ['users:read', 'users:update', 'sessions:read', 'system:logs'],
+        parent: 'user',
         isSystem: true,
     },
+} as const satisfies Record<string, SystemRoleDefinition>;
+
+export const LAST_ADMIN_CHECK = {
+    MAX_ATTEMPTS: 3, // Concurrent changes that conflict with each other are retried on the winner's result
+} as const;
+
+export const DEFAULT_ROLE_QUERY = {
+    page: 1,
+    limit: 20,
+};
+
+export const ROLE_ERRORS = {
+    NOT_FOUND: 'Role not found',
+    NAME_TAKEN: 'A role with this name already exists',
+    SYSTEM_ROLE_PROTECTED: 'System roles cannot be deleted, renamed, deactivated or given other permissions',
+    ROLE_IN_USE: 'The role is still assigned to users; pass reassignTo to move them to another role',
+    INVALID_REASSIGN_TARGET: 'The role to reassign users to must be a different, existing role',
+    PARENT_NOT_FOUND: 'Parent role not found',
+    HIERARCHY_CYCLE: 'A role cannot inherit from itself or one of its descendants',
+    ASSIGNMENT_NOT_FOUND: 'The user does not have this role',
+    ABOVE_OWN_PERMISSIONS: 'You cannot assign a role that grants permissions you do not have',
+    CHANGE_ABOVE_OWN_PERMISSIONS: 'You cannot give a role permissions you do not have',
+    LAST_ADMIN: 'This would leave no active administrator',
 } as const;
@@ -0,0 +1,73 @@
+import type { Prisma, Session } from '@src/generated/prisma';
+import { AUTH_CONFIG } from '@src/common/constants/authConfig';
+import { parseUserAgent, type ParsedUserAgent } from '@src/common/utils/userAgent';
+
+/******************************************************************************
+                                TypeScript Types
+******************************************************************************/
+
+// Session response type (never exposes token material)
+export interface SessionResponse {
+    id: string;
+    device: ParsedUserAgent;
+    userAgent: string | null;
+    ipAddress: string | null;
+    createdAt: Date;
+    lastUsedAt: Date;
+    expiresAt: Date;
+    current: boolean;
+}
+
+/******************************************************************************
+                                Utility Functions
+******************************************************************************/
+
+/**
+ * Transform database session to response format
+ */
+export function transformSessionToResponse(session: Session, currentSessionId?: string): SessionResponse {
+    return {
+        id: session.id,
+        device: parseUserAgent(session.userAgent),
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session.id === currentSessionId,
+    };
+}
+
+/**
+ * Whether a session is past its absolute lifetime or, with an idle timeout configured, unused for too long
+ */
+export function isSessionExpired(session: Pick<Session, 'expiresAt' | 'lastUsedAt'>, now: Date = new Date()): boolean {
+    return session.expiresAt < now
+        || (AUTH_CONFIG.sessionIdleTimeout > 0 && session.lastUsedAt < idleCutoff(now));
+}
+
+/**
+ * Prisma filter for sessions that are not revoked or expired (the query counterpart of isSessionExpired)
+ */
+export function activeSessionWhere(now: Date = new Date()): Prisma.SessionWhereInput {
+    return {
+        isRevoked: false,
+        expiresAt: { gt: now },
+        ...(AUTH_CONFIG.sessionIdleTimeout > 0 && { lastUsedAt: { gte: idleCutoff(now) } }),
+    };
+}
+
+/**
+ * Sessions last used before this moment have been idle too long
+ */
+export function idleCutoff(now: Date = new Date()): Date {
+    return new Date(now.getTime() - AUTH_CONFIG.sessionIdleTimeout * 1000);
+}
+
+/******************************************************************************
+                                Constants
+******************************************************************************/
+
+export const SESSION_ERRORS = {
+    NOT_FOUND: 'Session not found',
+} as const;
@@ -0,0 +1,38 @@
+import type { webcrypto } from 'crypto';
+import type { JwtAlgorithm } from '@src/common/constants/env';
+
+/******************************************************************************
+                                TypeScript Types
+******************************************************************************/
+
+// Public key in a JWKS, with the id and algorithm it is used with
+export interface PublicJwk extends webcrypto.JsonWebKey {
+    kid: string;
+    alg: JwtAlgorithm;
+    use: 'sig';
+}
+
+// JSON Web Key Set served at /.well-known/jwks.json
+export interface Jwks {
+    keys: PublicJwk[];
+}
+
+// Key ids affected by a rotation
+export interface KeyRotationResult {
+    active: string; // Now signs new tokens
+    next: string; // Published for verifiers to cache ahead of the following rotation
+    retired: string[]; // Still verify until retiredUntil
+    retiredUntil: Date;
+}
+
+/******************************************************************************
+                                Constants
+******************************************************************************/
+
+export const SIGNING_KEYS = {
+    // How long a retired key keeps verifying: longer than any token it signed lives (access tokens:
+    // at most 30 minutes, see AUTH_CONFIG), plus the time other instances may keep signing with it from their key cache
+    RETIRED_KEY_TTL: 60 * 60, // 1 hour (in seconds)
+    CACHE_TTL: 60, // Keys are reloaded from the store at least this often (in seconds)
+    MIN_RELOAD_INTERVAL: 5, // A token with an unknown key id reloads them at most this often (in seconds)
+} as const;
@@ -1,5 +1,8 @@
 import { z } from 'zod';
-import type { User, Role, UserRole } from '@src/generated/prisma';
+import type { Prisma, User, Role, UserRole } from '@src/generated/prisma';
+import { hasPermission, type EffectivePermissions, type Permission } from './permission';
+import type { MfaStatus } from './mfa';
+import type { IdentityResponse } from './oidc';
 
 /******************************************************************************
                                 Zod Schemas
@@ -21,10 +24,19 @@ export const UpdateUserSchema = z.object({
     username: z.string().min(3, 'Username must be at least 3 characters').optional(),
     firstName: z.string().min(1, 'First name is required').optional(),
     lastName: z.string().min(1, 'Last name is required').optional(),
+    locale: z.string().min(2).max(10).optional(), // Preferred language for emails, e.g. 'en' or 'es-MX'
     isActive: z.boolean().optional(),
     roleIds: z.array(z.string()).optional(), // Optional for authorization systems
 });
 
+// Profile fields users may edit themselves; anything else in the body is rejected
+export const UpdateProfileSchema = UpdateUserSchema.pick({
+    username: true,
+    firstName: true,
+    lastName: true,
+    locale: true,
+}).strict();
+
 // User query schema
 export const UserQuerySchema = z.object({
     page: z.string().transform((val: string) => parseInt(val) || 1).optional(),
@@ -42,6 +54,7 @@ export const UserQuerySchema = z.object({
 
 export type CreateUserRequest = z.infer<typeof CreateUserSchema>;
 export type UpdateUserRequest = z.infer<typeof UpdateUserSchema>;
+export type UpdateProfileRequest = z.infer<typeof UpdateProfileSchema>;
 export type UserQuery = z.infer<typeof UserQuerySchema>;
 
 // Extended user type with relationships
@@ -51,6 +64,11 @@ export interface UserWithRoles extends User {
     })[];
 }
 
+// User with the permissions of their roles, including inherited ones (see roleService)
+export interface UserWithPermissions extends UserWithRoles {
+    permissions: EffectivePermissions;
+}
+
 // User response type (without sensitive data)
 export interface UserResponse {
     id: string;
@@ -59,6 +77,8 @@ export interface UserResponse {
     firstName: string | null;
     lastName: string | null;
     isActive: boolean;
+    emailVerified: boolean;
+    hasPassword: boolean; // false for social-only accounts
     createdAt: Date;
     updatedAt: Date;
     lastLogin: Date | null;
@@ -69,15 +89,44 @@ export interface UserResponse {
     }[];
 }
 
+// Account details loaded for the profile (see profileService)
+export interface ProfileDetails {
+    mfa: MfaStatus;
+    identities: IdentityResponse[]; // Linked social sign-in providers
+    activeSessions: number;
+}
+
 // User profile type (for current user)
-export interface UserProfile extends UserResponse {
-    permissions?: Record<string, any>;
+export interface UserProfile extends UserResponse, ProfileDetails {
+    locale: string | null;
+    permissions: EffectivePermissions;
+    deletionScheduledAt: Date | null; // Set while the account is pending deletion
 }
 
 /******************************************************************************
                                 Utility Functions
 ******************************************************************************/
 
+/**
+ * Role assignments that still apply (permanent, or not yet expired)
+ */
+export function activeAssignmentWhere(now: Date = new Date()): Prisma.UserRoleWhereInput {
+    return { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] };
+}
+
+/**
+ * Include for loading a user with roles. Expired assignments are left out, so a temporary
+ * role stops applying as soon as it expires, even before the cleanup job removes it.
+ */
+export function userRolesInclude() {
+    return {
+        userRoles: {
+            where: activeAssignmentWhere(),
+            include: { role: true },
+        },
+    } satisfies Prisma.UserInclude;
+}
+
 /**
  * Transform database user to response format
  */
@@ -89,6 +138,8 @@ export function transformUserToResponse(user: UserWithRoles): UserResponse {
         firstName: user.firstName,
         lastName: user.lastName,
         isActive: user.isActive,
+        emailVerified: user.emailVerifiedAt !== null,
+        hasPassword: user.password !== null,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
         lastLogin: user.lastLogin,
@@ -101,32 +152,46 @@ export function transformUserToResponse(user: UserWithRoles): UserResponse {
 }
 
 /**
- * Check if user has specific role (OPTIONAL - for authorization)
+ * Check if user has specific active role (OPTIONAL - for authorization)
  */
 export function userHasRole(user: UserWithRoles, roleName: string): boolean {
-    return user.userRoles.some(ur => ur.role.name === roleName);
+    return user.userRoles.some(ur => ur.role.isActive && ur.role.name === roleName);
 }
 
 /**
- * Check if user has any of the specified roles (OPTIONAL - for authorization)
+ * Check if user has any of the specified active roles (OPTIONAL - for authorization)
  */
 export function userHasAnyRole(user: UserWithRoles, roleNames: string[]): boolean {
-    return user.userRoles.some(ur => roleNames.includes(ur.role.name));
+    return user.userRoles.some(ur => ur.role.isActive && roleNames.includes(ur.role.name));
 }
 
 /**
- * Get user permissions from roles (OPTIONAL - for authorization)
+ * Transform a user with resolved permissions to the current user's profile
  */
-export function getUserPermissions(user: UserWithRoles): Record<string, any> {
-    const permissions: Record<string, any> = {};
+export function transformUserToProfile(user: UserWithPermissions, details: ProfileDetails): UserProfile {
+    return {
+        ...transformUserToResponse(user),
+        locale: user.locale,
+        permissions: user.permissions,
+        deletionScheduledAt: user.deletionScheduledAt,
+        mfa: details.mfa,
+        identities: details.identities,
+        activeSessions: details.activeSessions,
+    };
+}
 
-    user.userRoles.forEach(ur => {
-        if (ur.role.permissions && typeof ur.role.permissions === 'object') {
-            Object.assign(permissions, ur.role.permissions);
-        }
-    });
+/**
+ * Name used to greet the user in emails
+ */
+export function getDisplayName(user: Pick<User, 'firstName' | 'username' | 'email'>): string {
+    return user.firstName || user.username || user.email;
+}
 
-    return permissions;
+/**
+ * Check if user is granted a permission, directly or through role inheritance (OPTIONAL - for authorization)
+ */
+export function userHasPermission(user: UserWithPermissions, permission: Permission): boolean {
+    return hasPermission(user.permissions, permission);
 }
 
 /******************************************************************************
@@ -142,6 +207,13 @@ export const USER_ROLES = {
 
 export type UserRoleName = typeof USER_ROLES[keyof typeof USER_ROLES];
 
+export const USER_ERRORS = {
+    NOT_FOUND: 'User not found',
+    EMAIL_TAKEN: 'Email is already in use',
+    USERNAME_TAKEN: 'Username is already taken',
+    ROLE_NOT_FOUND: 'One or more roles do not exist',
+} as const;
+
 export const DEFAULT_USER_QUERY = {
     page: 1,
     limit: 10,
@@ -0,0 +1,74 @@
+import { ForbiddenError } from '@src/common/errors/ApiErrors';
+import type { UserWithPermissions } from '@src/models/user';
+import { evaluatePolicy, POLICY_ERRORS, type Policy, type PolicyDecision } from './policy';
+import { precheckUserAction, userPolicy, type UserAction, type UserResource } from './userPolicy';
+
+/******************************************************************************
+                                Registry
+******************************************************************************/
+
+/**
+ * Resource types and the actions their policies define
+ */
+interface PolicyRegistry {
+    user: { resource: UserResource; action: UserAction };
+}
+
+export type PolicyResourceType = keyof PolicyRegistry;
+export type PolicyResource = PolicyRegistry[PolicyResourceType]['resource'];
+export type PolicyAction<T extends PolicyResourceType> = PolicyRegistry[T]['action'];
+
+const policies: { [T in PolicyResourceType]: Policy<PolicyRegistry[T]['resource'], PolicyRegistry[T]['action']> } = {
+    user: userPolicy,
+};
+
+/******************************************************************************
+                                Checks
+******************************************************************************/
+
+/**
+ * Decide whether a user may perform an action on a resource
+ */
+export function can<R extends PolicyResource>(
+    actor: UserWithPermissions,
+    action: PolicyAction<R['type']>,
+    resource: R
+): PolicyDecision {
+    return evaluatePolicy(policies[resource.type], action, actor, resource);
+}
+
+/**
+ * Like can(), but throw a 403 carrying the reason code when denied
+ */
+export function assertCan<R extends PolicyResource>(
+    actor: UserWithPermissions,
+    action: PolicyAction<R['type']>,
+    resource: R
+): void {
+    const decision = can(actor, action, resource);
+
+    if (!decision.allowed) {
+        throw deniedError(resource.type, action, decision);
+    }
+}
+
+/**
+ * Call before loading a user to act on: throws the same 403 as assertCan() when the actor could
+ * only act on their own account, so a missing id can't be told apart from someone else's
+ */
+export function assertCanTargetUser(actor: UserWithPermissions, action: UserAction, targetId: string): void {
+    const decision = precheckUserAction(actor, action, targetId);
+
+    if (decision && !decision.allowed) {
+        throw deniedError('user', action, decision);
+    }
+}
+
+function deniedError(type: PolicyResourceType, action: string, decision: PolicyDecision & { allowed: false }): ForbiddenError {
+    return new ForbiddenError(POLICY_ERRORS.DENIED, {
+        resource: type,
+        action,
+        reason: decision.reason,
+        ...(decision.fields ? { fields: decision.fields } : {}),
+    });
+}
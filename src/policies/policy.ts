@@ -0,0 +1,86 @@
+import type { UserWithPermissions } from '@src/models/user';
+import { hasPermission, type EffectivePermissions, type Permission } from '@src/models/permission';
+
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+export type PolicyDecision =
+    | { allowed: true; reason: PolicyReason }
+    | { allowed: false; reason: PolicyReason; fields?: string[] };
+
+// What a rule sees: the acting user (with their effective permissions) and the resource
+export interface PolicyContext<R> {
+    actor: UserWithPermissions;
+    permissions: EffectivePermissions;
+    resource: R;
+}
+
+/**
+ * A rule decides, or returns null to leave the decision to the next rule
+ */
+export type PolicyRule<R> = (context: PolicyContext<R>) => PolicyDecision | null;
+
+/**
+ * Ordered rules per action; the first decision wins and nothing matching means deny
+ */
+export type Policy<R, A extends string = string> = Record<A, PolicyRule<R>[]>;
+
+/******************************************************************************
+                                Constants
+******************************************************************************/
+
+// Reason codes returned with every decision (and in the details of a 403)
+export const POLICY_REASONS = {
+    ADMIN: 'ADMIN',
+    PERMISSION_GRANTED: 'PERMISSION_GRANTED',
+    OWNER: 'OWNER',
+    NOT_OWNER: 'NOT_OWNER',
+    MISSING_PERMISSION: 'MISSING_PERMISSION',
+    FIELD_RESTRICTED: 'FIELD_RESTRICTED',
+    TARGET_PRIVILEGED: 'TARGET_PRIVILEGED',
+    SELF_ACTION: 'SELF_ACTION',
+    NO_MATCHING_RULE: 'NO_MATCHING_RULE',
+} as const;
+
+export type PolicyReason = typeof POLICY_REASONS[keyof typeof POLICY_REASONS];
+
+export const POLICY_ERRORS = {
+    DENIED: 'You are not allowed to perform this action',
+} as const;
+
+/******************************************************************************
+                                Functions
+******************************************************************************/
+
+export const allow = (reason: PolicyReason): PolicyDecision => ({ allowed: true, reason });
+
+export const deny = (reason: PolicyReason, fields?: string[]): PolicyDecision =>
+    fields ? { allowed: false, reason, fields } : { allowed: false, reason };
+
+/**
+ * Check a permission of the acting user inside a rule
+ */
+export const granted = (context: PolicyContext<unknown>, permission: Permission): boolean =>
+    hasPermission(context.permissions, permission);
+
+/**
+ * Run a policy's rules for an action
+ */
+export function evaluatePolicy<R, A extends string>(
+    policy: Policy<R, A>,
+    action: A,
+    actor: UserWithPermissions,
+    resource: R
+): PolicyDecision {
+    const context: PolicyContext<R> = { actor, permissions: actor.permissions, resource };
+
+    for (const rule of policy[action]) {
+        const decision = rule(context);
+        if (decision) {
+            return decision;
+        }
+    }
+
+    return deny(POLICY_REASONS.NO_MATCHING_RULE);
+}
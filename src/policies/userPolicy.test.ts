@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { ForbiddenError } from '@src/common/errors/ApiErrors';
+import { resolvePermissions, type PermissionRule } from '@src/models/permission';
+import { SYSTEM_ROLES } from '@src/models/role';
+import type { UserWithPermissions } from '@src/models/user';
+import { assertCan, assertCanTargetUser, can } from './index';
+
+/**
+ * A user whose roles grant the given permission rules; only the fields policies read are set
+ */
+const userWith = (id: string, ...rules: PermissionRule[][]): UserWithPermissions => ({
+    id,
+    email: `${id}@example.com`,
+    userRoles: [],
+    permissions: resolvePermissions(rules.map(permissions => ({ permissions, isActive: true }))),
+}) as unknown as UserWithPermissions;
+
+const member = userWith('member', [...SYSTEM_ROLES.USER.permissions]);
+const otherMember = userWith('other-member', [...SYSTEM_ROLES.USER.permissions]);
+const moderator = userWith('moderator', [...SYSTEM_ROLES.MODERATOR.permissions]);
+const admin = userWith('admin', [...SYSTEM_ROLES.ADMIN.permissions]);
+const otherAdmin = userWith('other-admin', [...SYSTEM_ROLES.ADMIN.permissions]);
+
+describe('userPolicy', () => {
+    describe('read', () => {
+        it('lets users read their own account', () => {
+            expect(can(member, 'read', { type: 'user', target: member })).toEqual({ allowed: true, reason: 'OWNER' });
+        });
+
+        it("requires users:read for someone else's account", () => {
+            expect(can(member, 'read', { type: 'user', target: otherMember })).toEqual({ allowed: false, reason: 'NOT_OWNER' });
+            expect(can(moderator, 'read', { type: 'user', target: member })).toEqual({ allowed: true, reason: 'PERMISSION_GRANTED' });
+        });
+    });
+
+    describe('update', () => {
+        it('lets owners edit their profile', () => {
+            const decision = can(member, 'update', { type: 'user', target: member, changes: { firstName: 'Ada', locale: 'es' } });
+
+            expect(decision).toEqual({ allowed: true, reason: 'OWNER' });
+        });
+
+        it('keeps owners from changing the fields that control access', () => {
+            const decision = can(member, 'update', { type: 'user', target: member, changes: { isActive: true, roleIds: ['admin'] } });
+
+            expect(decision).toEqual({ allowed: false, reason: 'FIELD_RESTRICTED', fields: ['isActive', 'roleIds'] });
+        });
+
+        it('keeps everyone, administrators included, from changing their own email here', () => {
+            const changes = { email: 'new@example.com' };
+
+            expect(can(member, 'update', { type: 'user', target: member, changes }))
+                .toEqual({ allowed: false, reason: 'FIELD_RESTRICTED', fields: ['email'] });
+            expect(can(admin, 'update', { type: 'user', target: admin, changes }))
+                .toEqual({ allowed: false, reason: 'FIELD_RESTRICTED', fields: ['email'] });
+        });
+
+        it('treats resubmitting the current email as no change', () => {
+            const decision = can(admin, 'update', { type: 'user', target: admin, changes: { email: admin.email } });
+
+            expect(decision).toEqual({ allowed: true, reason: 'ADMIN' });
+        });
+
+        it('lets moderators edit and deactivate anyone but administrators', () => {
+            expect(can(moderator, 'update', { type: 'user', target: member, changes: { isActive: false } }))
+                .toEqual({ allowed: true, reason: 'PERMISSION_GRANTED' });
+            expect(can(moderator, 'update', { type: 'user', target: admin, changes: { firstName: 'Eve' } }))
+                .toEqual({ allowed: false, reason: 'TARGET_PRIVILEGED' });
+        });
+
+        it('requires roles:assign to change roles', () => {
+            const decision = can(moderator, 'update', { type: 'user', target: member, changes: { roleIds: [] } });
+
+            expect(decision).toEqual({ allowed: false, reason: 'FIELD_RESTRICTED', fields: ['roleIds'] });
+        });
+
+        it('lets administrators edit anyone', () => {
+            const decision = can(admin, 'update', { type: 'user', target: otherAdmin, changes: { email: 'new@example.com', isActive: false } });
+
+            expect(decision).toEqual({ allowed: true, reason: 'ADMIN' });
+        });
+
+        it("denies members someone else's account", () => {
+            expect(can(member, 'update', { type: 'user', target: otherMember, changes: {} })).toEqual({ allowed: false, reason: 'NOT_OWNER' });
+        });
+    });
+
+    describe('delete', () => {
+        it('never lets users delete their own account here', () => {
+            expect(can(admin, 'delete', { type: 'user', target: admin })).toEqual({ allowed: false, reason: 'SELF_ACTION' });
+        });
+
+        it('requires users:delete', () => {
+            const deleter = userWith('deleter', ['users:delete']);
+
+            expect(can(moderator, 'delete', { type: 'user', target: member })).toEqual({ allowed: false, reason: 'MISSING_PERMISSION' });
+            expect(can(deleter, 'delete', { type: 'user', target: member })).toEqual({ allowed: true, reason: 'PERMISSION_GRANTED' });
+            expect(can(deleter, 'delete', { type: 'user', target: admin })).toEqual({ allowed: false, reason: 'TARGET_PRIVILEGED' });
+        });
+
+        it('lets a deny rule in any role override the grant', () => {
+            const restricted = userWith('restricted', ['users:*'], ['!users:delete']);
+
+            expect(can(restricted, 'delete', { type: 'user', target: member })).toEqual({ allowed: false, reason: 'MISSING_PERMISSION' });
+        });
+    });
+});
+
+describe('assertCan', () => {
+    it('throws a 403 carrying the reason', () => {
+        const check = () => assertCan(member, 'update', { type: 'user', target: member, changes: { isActive: false } });
+
+        expect(check).toThrow(ForbiddenError);
+        expect(check).toThrow(expect.objectContaining({
+            details: { resource: 'user', action: 'update', reason: 'FIELD_RESTRICTED', fields: ['isActive'] },
+        }));
+    });
+
+    it('passes when allowed', () => {
+        expect(() => assertCan(moderator, 'read', { type: 'user', target: member })).not.toThrow();
+    });
+});
+
+describe('assertCanTargetUser', () => {
+    it('refuses users who could only act on themselves, whatever the id', () => {
+        expect(() => assertCanTargetUser(member, 'read', 'any-id')).toThrow(expect.objectContaining({
+            details: { resource: 'user', action: 'read', reason: 'NOT_OWNER' },
+        }));
+        expect(() => assertCanTargetUser(moderator, 'delete', 'any-id')).toThrow(expect.objectContaining({
+            details: { resource: 'user', action: 'delete', reason: 'MISSING_PERMISSION' },
+        }));
+    });
+
+    it('leaves the decision to the policy when it could allow the action', () => {
+        expect(() => assertCanTargetUser(member, 'update', member.id)).not.toThrow();
+        expect(() => assertCanTargetUser(moderator, 'update', 'any-id')).not.toThrow();
+        expect(() => assertCanTargetUser(admin, 'delete', 'any-id')).not.toThrow();
+    });
+});
@@ -0,0 +1,116 @@
+import type { Permission } from '@src/models/permission';
+import { userHasPermission, type UpdateUserRequest, type UserWithPermissions } from '@src/models/user';
+import { allow, deny, granted, POLICY_REASONS, type Policy, type PolicyDecision, type PolicyReason, type PolicyRule } from './policy';
+
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+export interface UserResource {
+    type: 'user';
+    target: UserWithPermissions;
+    changes?: Partial<UpdateUserRequest>; // Fields an update would change
+}
+
+export type UserAction = 'read' | 'update' | 'delete';
+
+// Fields only users with `users:update` may change, even on their own account
+const OWNER_RESTRICTED_FIELDS = ['email', 'isActive', 'roleIds'] as const;
+
+/******************************************************************************
+                                Rules
+******************************************************************************/
+
+const isOwner = (actor: UserWithPermissions, target: UserWithPermissions): boolean => actor.id === target.id;
+
+// Nobody changes their own email here, administrators included: it goes through the confirmed
+// /auth/change-email flow, so a stolen access token can't quietly redirect the account
+const ownEmailRule: PolicyRule<UserResource> = ({ actor, resource }) =>
+    isOwner(actor, resource.target) && resource.changes?.email !== undefined && resource.changes.email !== resource.target.email
+        ? deny(POLICY_REASONS.FIELD_RESTRICTED, ['email'])
+        : null;
+
+// Administrators are otherwise never restricted
+const adminRule: PolicyRule<UserResource> = (context) =>
+    granted(context, 'system:admin') ? allow(POLICY_REASONS.ADMIN) : null;
+
+// Only administrators may act on other administrators
+const protectPrivilegedRule: PolicyRule<UserResource> = ({ actor, resource }) =>
+    !isOwner(actor, resource.target) && userHasPermission(resource.target, 'system:admin')
+        ? deny(POLICY_REASONS.TARGET_PRIVILEGED)
+        : null;
+
+const ownerRule: PolicyRule<UserResource> = ({ actor, resource }) =>
+    isOwner(actor, resource.target) ? allow(POLICY_REASONS.OWNER) : null;
+
+/******************************************************************************
+                                Policy
+******************************************************************************/
+
+// Permissions that can allow an action on another user's account, and the reason given without them
+const OTHER_ACCOUNT_ACCESS: Record<UserAction, { permissions: Permission[]; reason: PolicyReason }> = {
+    read: { permissions: ['users:read'], reason: POLICY_REASONS.NOT_OWNER },
+    update: { permissions: ['system:admin', 'users:update'], reason: POLICY_REASONS.NOT_OWNER },
+    delete: { permissions: ['system:admin', 'users:delete'], reason: POLICY_REASONS.MISSING_PERMISSION },
+};
+
+/**
+ * Decide from the id alone whether the policy could allow an action on a user, so callers who
+ * can only act on themselves are refused before a lookup whose 404 would reveal the id exists.
+ * Returns null when the loaded user has to be checked with the full policy.
+ */
+export function precheckUserAction(actor: UserWithPermissions, action: UserAction, targetId: string): PolicyDecision | null {
+    const access = OTHER_ACCOUNT_ACCESS[action];
+
+    if (actor.id === targetId || access.permissions.some(permission => userHasPermission(actor, permission))) {
+        return null;
+    }
+
+    return deny(access.reason);
+}
+
+export const userPolicy: Policy<UserResource, UserAction> = {
+    read: [
+        ownerRule,
+        (context) => granted(context, 'users:read') ? allow(POLICY_REASONS.PERMISSION_GRANTED) : null,
+        () => deny(POLICY_REASONS.NOT_OWNER),
+    ],
+
+    update: [
+        ownEmailRule,
+        adminRule,
+        // e.g. moderators can edit and deactivate anyone but administrators
+        (context) => {
+            if (!granted(context, 'users:update')) {
+                return null;
+            }
+            if (context.resource.changes?.roleIds !== undefined && !granted(context, 'roles:assign')) {
+                return deny(POLICY_REASONS.FIELD_RESTRICTED, ['roleIds']);
+            }
+            return protectPrivilegedRule(context) ?? allow(POLICY_REASONS.PERMISSION_GRANTED);
+        },
+        // Owners can update their own profile, except the fields that control access
+        ({ actor, resource }) => {
+            if (!isOwner(actor, resource.target)) {
+                return null;
+            }
+            const restricted = OWNER_RESTRICTED_FIELDS.filter(field => resource.changes?.[field] !== undefined);
+            return restricted.length > 0
+                ? deny(POLICY_REASONS.FIELD_RESTRICTED, restricted)
+                : allow(POLICY_REASONS.OWNER);
+        },
+        () => deny(POLICY_REASONS.NOT_OWNER),
+    ],
+
+    delete: [
+        // Accounts can't be deleted through the admin API by their owner (not even an admin's own)
+        ({ actor, resource }) => isOwner(actor, resource.target) ? deny(POLICY_REASONS.SELF_ACTION) : null,
+        adminRule,
+        (context) => {
+            if (!granted(context, 'users:delete')) {
+                return deny(POLICY_REASONS.MISSING_PERMISSION);
+            }
+            return protectPrivilegedRule(context) ?? allow(POLICY_REASONS.PERMISSION_GRANTED);
+        },
+    ],
+};
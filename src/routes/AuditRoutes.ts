@@ -0,0 +1,89 @@
+import { once } from 'events';
+import { Router, type Request, type Response } from 'express';
+import { createSuccessResponse } from '../common/types/ApiResponse.js';
+import { authenticate, requirePermission, getCurrentUser } from '../common/middlewares/authMiddleware.js';
+import { asyncHandler } from '../common/middlewares/errorHandlers.js';
+import auditService from '../services/auditService.js';
+import authService from '../services/authService.js';
+import {
+    AuditLogQuerySchema,
+    AuditLogExportSchema,
+    AUDIT_CSV_COLUMNS,
+    formatAuditCsvRow,
+} from '../models/audit.js';
+import logger from '../common/utils/logger.js';
+import Paths from '@src/common/constants/Paths.js';
+
+/******************************************************************************
+                                Router Setup
+******************************************************************************/
+
+const router = Router();
+
+/******************************************************************************
+                                Audit Log Routes
+******************************************************************************/
+
+/**
+ * GET /audit-logs/
+ * Search the audit log by user, action, resource, IP and time range, newest first (requires system:logs)
+ */
+router.get(Paths.AuditLogs.GetAll, authenticate, requirePermission('system:logs'), asyncHandler(async (req: Request, res: Response) => {
+    const query = AuditLogQuerySchema.parse(req.query);
+
+    logger.info('Get audit logs request');
+
+    const logs = await auditService.list(query);
+
+    const response = createSuccessResponse(logs, 'Audit logs retrieved successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * GET /audit-logs/export?format=csv|ndjson
+ * Stream every matching entry, oldest first, as a file download (requires system:logs)
+ */
+router.get(Paths.AuditLogs.Export, authenticate, requirePermission('system:logs'), asyncHandler(async (req: Request, res: Response) => {
+    const { format = 'ndjson', ...filter } = AuditLogExportSchema.parse(req.query);
+    const currentUser = getCurrentUser(req);
+
+    logger.info(`Audit log export (${format}) requested by ${currentUser.id}`);
+
+    await authService.logAuditEvent(currentUser.id, 'audit_logs_exported', { format, filter }, null);
+
+    res.status(200);
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="audit-logs.${format}"`);
+
+    try {
+        if (format === 'csv') {
+            res.write(AUDIT_CSV_COLUMNS.join(',') + '\n');
+        }
+
+        for await (const entry of auditService.stream(filter)) {
+            const line = (format === 'csv' ? formatAuditCsvRow(entry) : JSON.stringify(entry)) + '\n';
+
+            // Wait for the client to catch up instead of buffering the whole export
+            if (!res.write(line)) {
+                await Promise.race([once(res, 'drain'), once(res, 'close')]);
+            }
+
+            // The client went away
+            if (res.destroyed) {
+                return;
+            }
+        }
+
+        res.end();
+    } catch (error) {
+        // The headers are out, so the error handler can't answer anymore: cut the download short
+        logger.err(`Audit log export failed: ${String(error)}`);
+        res.destroy(error as Error);
+    }
+}));
+
+/******************************************************************************
+                                Export
+******************************************************************************/
+
+export default router;
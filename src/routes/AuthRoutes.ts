@@ -1,20 +1,66 @@
 import { Router, type Request, type Response } from 'express';
 import { createSuccessResponse } from '../common/types/ApiResponse.js';
 import authService from '../services/authService.js';
-import { authenticate, getCurrentUser, type AuthenticatedRequest } from '../common/middlewares/authMiddleware.js';
+import profileService from '../services/profileService.js';
+import emailChangeService from '../services/emailChangeService.js';
+import accountService from '../services/accountService.js';
+import sessionService from '../services/sessionService.js';
+import auditService from '../services/auditService.js';
+import { authenticate, optionalAuth, getCurrentUser, type AuthenticatedRequest } from '../common/middlewares/authMiddleware.js';
 import { validateRequestBody } from '../common/utils/validation.js';
 import { asyncHandler } from '../common/middlewares/errorHandlers.js';
+import { createRateLimiter } from '../common/middlewares/rateLimiter.js';
 import {
     LoginSchema,
     RegisterSchema,
     ChangePasswordSchema,
+    ChangeEmailSchema,
+    EmailChangeTokenSchema,
     RefreshTokenSchema,
+    VerifyEmailSchema,
+    ResendVerificationSchema,
+    ForgotPasswordSchema,
+    ResetPasswordSchema,
+    AUTH_ERRORS,
+    AUTH_RATE_LIMITS,
     type LoginRequest,
     type RegisterRequest,
     type ChangePasswordRequest,
+    type ChangeEmailRequest,
+    type EmailChangeTokenRequest,
     type RefreshTokenRequest,
+    type VerifyEmailRequest,
+    type ResendVerificationRequest,
+    type ForgotPasswordRequest,
+    type ResetPasswordRequest,
 } from '../models/auth.js';
+import {
+    MfaVerifySchema,
+    MfaEnrollSchema,
+    MfaConfirmSchema,
+    MfaDisableSchema,
+    MfaRecoveryCodesSchema,
+    type MfaVerifyRequest,
+    type MfaEnrollRequest,
+    type MfaConfirmRequest,
+    type MfaDisableRequest,
+    type MfaRecoveryCodesRequest,
+} from '../models/mfa.js';
+import {
+    PasskeyRegisterSchema,
+    PasskeyLoginOptionsSchema,
+    PasskeyLoginSchema,
+    type PasskeyRegisterRequest,
+    type PasskeyLoginOptionsRequest,
+    type PasskeyLoginRequest,
+} from '../models/passkey.js';
+import { OidcCallbackSchema, OIDC_ERRORS, type OidcCallbackRequest, type OidcCallbackResponse } from '../models/oidc.js';
+import { BadRequestError, UnauthorizedError } from '../common/errors/ApiErrors.js';
 import logger from '../common/utils/logger.js';
+import { getClientInfo } from '../common/utils/request.js';
+import { UpdateProfileSchema, type UpdateProfileRequest } from '../models/user.js';
+import { DeleteAccountSchema, type DeleteAccountRequest } from '../models/account.js';
+import { SecurityActivityQuerySchema } from '../models/audit.js';
 import Paths from '@src/common/constants/Paths.js';
 
 /******************************************************************************
@@ -23,6 +69,12 @@ import Paths from '@src/common/constants/Paths.js';
 
 const router = Router();
 
+// Request rate limits; failed sign-ins are additionally throttled per account by the auth service
+const loginIpLimiter = createRateLimiter({ name: 'login-ip', keyBy: 'ip', ...AUTH_RATE_LIMITS.LOGIN_IP });
+const loginEmailLimiter = createRateLimiter({ name: 'login-email', keyBy: 'email', ...AUTH_RATE_LIMITS.LOGIN_EMAIL });
+const registerLimiter = createRateLimiter({ name: 'register-ip', keyBy: 'ip', ...AUTH_RATE_LIMITS.REGISTER_IP });
+const refreshLimiter = createRateLimiter({ name: 'refresh-ip', keyBy: 'ip', ...AUTH_RATE_LIMITS.REFRESH_IP });
+
 /******************************************************************************
                             Authentication Routes
 ******************************************************************************/
@@ -31,29 +83,60 @@ const router = Router();
  * POST /auth/register  
  * Register new user (OPTIONAL - remove if not needed)
  */
-router.post(Paths.Auth.Register, validateRequestBody(RegisterSchema), asyncHandler(async (req: Request, res: Response) => {
+router.post(Paths.Auth.Register, registerLimiter, validateRequestBody(RegisterSchema), asyncHandler(async (req: Request, res: Response) => {
     const data = req.body as RegisterRequest;
 
     logger.info('Registration request received for email: ' + data.email);
 
-    const result = await authService.register(data);
+    const result = await authService.register(data, getClientInfo(req));
 
     const response = createSuccessResponse(result, 'Registration successful');
     res.status(201).json(response);
 }));
 
+/**
+ * POST /auth/verify
+ * Confirm email address with the token from the verification email
+ */
+router.post(Paths.Auth.Verify, validateRequestBody(VerifyEmailSchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as VerifyEmailRequest;
+
+    logger.info('Email verification request received');
+
+    await authService.verifyEmail(data);
+
+    const response = createSuccessResponse(null, 'Email verified successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * POST /auth/verify/resend
+ * Resend the verification email (always succeeds to avoid revealing registered emails)
+ */
+router.post(Paths.Auth.ResendVerification, validateRequestBody(ResendVerificationSchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as ResendVerificationRequest;
+
+    logger.info('Verification resend request received');
+
+    await authService.resendVerification(data);
+
+    const response = createSuccessResponse(null, 'If the account exists and is unverified, a verification email has been sent');
+    res.status(200).json(response);
+}));
+
 /**
  * POST /auth/login  
  * Login user
  */
-router.post(Paths.Auth.Login, validateRequestBody(LoginSchema), asyncHandler(async (req: Request, res: Response) => {
+router.post(Paths.Auth.Login, loginIpLimiter, loginEmailLimiter, validateRequestBody(LoginSchema), asyncHandler(async (req: Request, res: Response) => {
     const data = req.body as LoginRequest;
 
     logger.info('Login request received for email: ' + data.email);
 
-    const result = await authService.login(data);
+    const result = await authService.login(data, getClientInfo(req));
 
-    const response = createSuccessResponse(result, 'Login successful');
+    const message = 'challengeToken' in result ? 'Two-factor authentication required' : 'Login successful';
+    const response = createSuccessResponse(result, message);
     res.status(200).json(response);
 }));
 
@@ -61,7 +144,7 @@ router.post(Paths.Auth.Login, validateRequestBody(LoginSchema), asyncHandler(asy
  * POST /auth/refresh
  * Refresh access token
  */
-router.post(Paths.Auth.Refresh, validateRequestBody(RefreshTokenSchema), asyncHandler(async (req: Request, res: Response) => {
+router.post(Paths.Auth.Refresh, refreshLimiter, validateRequestBody(RefreshTokenSchema), asyncHandler(async (req: Request, res: Response) => {
     const data = req.body as RefreshTokenRequest;
 
     logger.info('Token refresh request received');
@@ -74,16 +157,19 @@ router.post(Paths.Auth.Refresh, validateRequestBody(RefreshTokenSchema), asyncHa
 
 /**
  * POST /auth/logout
- * Logout user
+ * Logout user (revokes the current session and access token immediately)
  */
 router.post(Paths.Auth.Logout, authenticate, asyncHandler(async (req: Request, res: Response) => {
-    const refreshToken = req.body.refreshToken;
+    const authenticatedReq = req as AuthenticatedRequest;
 
     logger.info('Logout request received');
 
-    if (refreshToken) {
-        await authService.logout(refreshToken);
-    }
+    await authService.logout({
+        userId: authenticatedReq.user.id,
+        sessionId: authenticatedReq.sessionId!,
+        tokenId: authenticatedReq.tokenId!,
+        expiresAt: authenticatedReq.tokenExpiresAt!,
+    });
 
     const response = createSuccessResponse(null, 'Logout successful');
     res.status(200).json(response);
@@ -105,6 +191,82 @@ router.post(Paths.Auth.ChangePassword, authenticate, validateRequestBody(ChangeP
     res.status(200).json(response);
 }));
 
+/**
+ * POST /auth/change-email
+ * Start an email change: the new address must confirm it, and the old one can revert it
+ */
+router.post(Paths.Auth.ChangeEmail, authenticate, validateRequestBody(ChangeEmailSchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as ChangeEmailRequest;
+    const user = getCurrentUser(req);
+
+    logger.info(`Email change request for user: ${user.id}`);
+
+    await emailChangeService.requestChange(user.id, data);
+
+    const response = createSuccessResponse(null, 'A confirmation link has been sent to the new email address');
+    res.status(200).json(response);
+}));
+
+/**
+ * POST /auth/change-email/confirm
+ * Confirm the new address with the token sent to it; the email is changed now
+ */
+router.post(Paths.Auth.ChangeEmailConfirm, validateRequestBody(EmailChangeTokenSchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as EmailChangeTokenRequest;
+
+    logger.info('Email change confirmation request');
+
+    await emailChangeService.confirmChange(data);
+
+    const response = createSuccessResponse(null, 'Email address changed successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * POST /auth/change-email/revert
+ * "This wasn't me": cancel or undo a change with the token sent to the old address
+ */
+router.post(Paths.Auth.ChangeEmailRevert, validateRequestBody(EmailChangeTokenSchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as EmailChangeTokenRequest;
+
+    logger.info('Email change revert request');
+
+    await emailChangeService.revertChange(data);
+
+    const response = createSuccessResponse(null, 'Email change reverted and all sessions signed out');
+    res.status(200).json(response);
+}));
+
+/**
+ * POST /auth/forgot-password
+ * Request a password reset email (always succeeds to avoid revealing registered emails)
+ */
+router.post(Paths.Auth.ForgotPassword, validateRequestBody(ForgotPasswordSchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as ForgotPasswordRequest;
+
+    logger.info('Forgot password request received');
+
+    await authService.forgotPassword(data);
+
+    const response = createSuccessResponse(null, 'If the account exists, a password reset email has been sent');
+    res.status(200).json(response);
+}));
+
+/**
+ * POST /auth/reset-password
+ * Set a new password using a reset token
+ */
+router.post(Paths.Auth.ResetPassword, validateRequestBody(ResetPasswordSchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as ResetPasswordRequest;
+
+    logger.info('Reset password request received');
+
+    await authService.resetPassword(data);
+
+    const response = createSuccessResponse(null, 'Password reset successfully');
+    res.status(200).json(response);
+}));
+
 /**
  * GET /auth/me
  * Get current user profile
@@ -114,7 +276,473 @@ router.get(Paths.Auth.Me, authenticate, asyncHandler(async (req: Request, res: R
 
     logger.info(`Profile request for user: ${user.id}`);
 
-    const response = createSuccessResponse(user, 'Profile retrieved successfully');
+    const profile = await profileService.getProfile(user);
+
+    const response = createSuccessResponse(profile, 'Profile retrieved successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * PATCH /auth/me
+ * Update the current user's username, name or locale
+ */
+router.patch(Paths.Auth.Me, authenticate, validateRequestBody(UpdateProfileSchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as UpdateProfileRequest;
+    const user = getCurrentUser(req);
+
+    const profile = await profileService.updateProfile(user, data);
+
+    const response = createSuccessResponse(profile, 'Profile updated successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * GET /auth/me/activity
+ * Recent security activity on the current user's account: sign-ins, failed attempts and credential changes
+ */
+router.get(Paths.Auth.MeActivity, authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const { limit } = SecurityActivityQuerySchema.parse(req.query);
+    const user = getCurrentUser(req);
+
+    logger.info(`Security activity request for user: ${user.id}`);
+
+    const activity = await auditService.listRecentActivity(user.id, limit);
+
+    const response = createSuccessResponse(activity, 'Security activity retrieved successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * GET /auth/me/export
+ * Download everything held about the current user as JSON (GDPR data export)
+ */
+router.get(Paths.Auth.MeExport, authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const user = getCurrentUser(req);
+
+    logger.info(`Data export request for user: ${user.id}`);
+
+    const archive = await accountService.exportData(user);
+
+    const response = createSuccessResponse(archive, 'Account data exported successfully');
+    res.setHeader('Content-Disposition', `attachment; filename="account-${user.id}.json"`);
+    res.status(200).json(response);
+}));
+
+/**
+ * POST /auth/me/delete
+ * Schedule the current user's account for deletion after the grace period (password required)
+ */
+router.post(Paths.Auth.MeDelete, authenticate, validateRequestBody(DeleteAccountSchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as DeleteAccountRequest;
+    const user = getCurrentUser(req);
+
+    logger.info(`Account deletion request for user: ${user.id}`);
+
+    const result = await accountService.requestDeletion(user.id, data);
+
+    const response = createSuccessResponse(result, 'Account scheduled for deletion');
+    res.status(200).json(response);
+}));
+
+/**
+ * POST /auth/me/delete/cancel
+ * Keep the current user's account during the grace period
+ */
+router.post(Paths.Auth.MeDeleteCancel, authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const user = getCurrentUser(req);
+
+    logger.info(`Account deletion cancel request for user: ${user.id}`);
+
+    await accountService.cancelDeletion(user.id, user.id);
+
+    const response = createSuccessResponse(null, 'Account deletion cancelled');
+    res.status(200).json(response);
+}));
+
+/******************************************************************************
+                            Two-Factor Authentication Routes
+******************************************************************************/
+
+/**
+ * POST /auth/mfa/verify
+ * Complete login with the challenge token and a TOTP or recovery code
+ */
+router.post(Paths.Auth.MfaVerify, validateRequestBody(MfaVerifySchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as MfaVerifyRequest;
+
+    logger.info('MFA verification request received');
+
+    const result = await authService.verifyMfaChallenge(data, getClientInfo(req));
+
+    const response = createSuccessResponse(result, 'Login successful');
+    res.status(200).json(response);
+}));
+
+/**
+ * POST /auth/mfa/enroll
+ * Start TOTP enrollment (authenticated, or with an enforced-enrollment challenge token)
+ */
+router.post(Paths.Auth.MfaEnroll, optionalAuth, validateRequestBody(MfaEnrollSchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as MfaEnrollRequest;
+
+    const user = data.challengeToken
+        ? (await authService.getMfaEnrollmentChallengeUser(data.challengeToken)).user
+        : getCurrentUser(req);
+
+    if (!user) {
+        throw new UnauthorizedError(AUTH_ERRORS.UNAUTHORIZED);
+    }
+
+    logger.info(`MFA enrollment request for user: ${user.id}`);
+
+    const result = await authService.startMfaEnrollment(user);
+
+    const response = createSuccessResponse(result, 'Scan the QR code with your authenticator app');
+    res.status(200).json(response);
+}));
+
+/**
+ * POST /auth/mfa/enroll/confirm
+ * Confirm enrollment with a code; returns recovery codes (and tokens when completing an enforced login)
+ */
+router.post(Paths.Auth.MfaConfirm, optionalAuth, validateRequestBody(MfaConfirmSchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as MfaConfirmRequest;
+
+    const challenge = data.challengeToken
+        ? await authService.getMfaEnrollmentChallengeUser(data.challengeToken)
+        : null;
+    const user = challenge?.user ?? getCurrentUser(req);
+
+    if (!user) {
+        throw new UnauthorizedError(AUTH_ERRORS.UNAUTHORIZED);
+    }
+
+    logger.info(`MFA enrollment confirmation for user: ${user.id}`);
+
+    const result = await authService.confirmMfaEnrollment(
+        user,
+        data.code,
+        challenge ? { rememberMe: challenge.rememberMe } : undefined,
+        getClientInfo(req)
+    );
+
+    const response = createSuccessResponse(result, 'Two-factor authentication enabled');
+    res.status(200).json(response);
+}));
+
+/**
+ * POST /auth/mfa/disable
+ * Disable two-factor authentication (requires password and a current code)
+ */
+router.post(Paths.Auth.MfaDisable, authenticate, validateRequestBody(MfaDisableSchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as MfaDisableRequest;
+    const user = getCurrentUser(req);
+
+    logger.info(`MFA disable request for user: ${user.id}`);
+
+    await authService.disableMfa(user.id, data);
+
+    const response = createSuccessResponse(null, 'Two-factor authentication disabled');
+    res.status(200).json(response);
+}));
+
+/**
+ * POST /auth/mfa/recovery-codes
+ * Replace recovery codes (requires a current code)
+ */
+router.post(Paths.Auth.MfaRecoveryCodes, authenticate, validateRequestBody(MfaRecoveryCodesSchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as MfaRecoveryCodesRequest;
+    const user = getCurrentUser(req);
+
+    logger.info(`Recovery code regeneration request for user: ${user.id}`);
+
+    const recoveryCodes = await authService.regenerateRecoveryCodes(user.id, data.code);
+
+    const response = createSuccessResponse({ recoveryCodes }, 'Recovery codes regenerated');
+    res.status(200).json(response);
+}));
+
+/******************************************************************************
+                                Passkey Routes
+******************************************************************************/
+
+/**
+ * POST /auth/passkeys/register/options
+ * Get options for navigator.credentials.create()
+ */
+router.post(Paths.Auth.PasskeyRegisterOptions, authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const user = getCurrentUser(req);
+
+    logger.info(`Passkey registration options request for user: ${user.id}`);
+
+    const options = await authService.getPasskeyRegistrationOptions(user.id);
+
+    const response = createSuccessResponse(options, 'Passkey registration options generated');
+    res.status(200).json(response);
+}));
+
+/**
+ * POST /auth/passkeys/register/verify
+ * Verify the authenticator's response and store the passkey
+ */
+router.post(Paths.Auth.PasskeyRegisterVerify, authenticate, validateRequestBody(PasskeyRegisterSchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as PasskeyRegisterRequest;
+    const user = getCurrentUser(req);
+
+    logger.info(`Passkey registration request for user: ${user.id}`);
+
+    const passkey = await authService.registerPasskey(user.id, data);
+
+    const response = createSuccessResponse(passkey, 'Passkey registered successfully');
+    res.status(201).json(response);
+}));
+
+/**
+ * POST /auth/passkeys/login/options
+ * Get options for navigator.credentials.get() (as sole login or for an MFA challenge)
+ */
+router.post(Paths.Auth.PasskeyLoginOptions, validateRequestBody(PasskeyLoginOptionsSchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as PasskeyLoginOptionsRequest;
+
+    logger.info('Passkey login options request received');
+
+    const options = await authService.getPasskeyLoginOptions(data);
+
+    const response = createSuccessResponse(options, 'Passkey login options generated');
+    res.status(200).json(response);
+}));
+
+/**
+ * POST /auth/passkeys/login/verify
+ * Sign in with a passkey; returns the same tokens as password login
+ */
+router.post(Paths.Auth.PasskeyLoginVerify, validateRequestBody(PasskeyLoginSchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as PasskeyLoginRequest;
+
+    logger.info('Passkey login request received');
+
+    const result = await authService.loginWithPasskey(data, getClientInfo(req));
+
+    const response = createSuccessResponse(result, 'Login successful');
+    res.status(200).json(response);
+}));
+
+/**
+ * GET /auth/passkeys
+ * List the current user's passkeys
+ */
+router.get(Paths.Auth.Passkeys, authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const user = getCurrentUser(req);
+
+    logger.info(`Passkey list request for user: ${user.id}`);
+
+    const passkeys = await authService.listPasskeys(user.id);
+
+    const response = createSuccessResponse(passkeys, 'Passkeys retrieved successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * DELETE /auth/passkeys/:passkeyId
+ * Remove one of the current user's passkeys
+ */
+router.delete(Paths.Auth.PasskeyById, authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const user = getCurrentUser(req);
+    const { passkeyId } = req.params as { passkeyId: string };
+
+    logger.info(`Passkey removal request for ID: ${passkeyId}`);
+
+    await authService.removePasskey(user.id, passkeyId);
+
+    const response = createSuccessResponse(null, 'Passkey removed successfully');
+    res.status(200).json(response);
+}));
+
+/******************************************************************************
+                            Social Login Routes
+******************************************************************************/
+
+/**
+ * Response message for a social login callback result
+ */
+const oidcCallbackMessage = (result: OidcCallbackResponse): string => {
+    if ('challengeToken' in result) {
+        return 'Two-factor authentication required';
+    }
+    return 'status' in result ? 'Account linked successfully' : 'Login successful';
+};
+
+/**
+ * GET /auth/oidc/providers
+ * List the enabled social login providers
+ */
+router.get(Paths.Auth.OidcProviders, asyncHandler(async (req: Request, res: Response) => {
+    const providers = authService.listOidcProviders();
+
+    const response = createSuccessResponse(providers, 'Providers retrieved successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * GET /auth/oidc/:provider/authorize
+ * Redirect the browser to the provider's sign-in page
+ */
+router.get(Paths.Auth.OidcAuthorize, asyncHandler(async (req: Request, res: Response) => {
+    const { provider } = req.params as { provider: string };
+
+    logger.info(`Social login start for provider: ${provider}`);
+
+    const authorizationUrl = await authService.getOidcLoginUrl(provider);
+
+    res.redirect(302, authorizationUrl);
+}));
+
+/**
+ * GET /auth/oidc/:provider/callback
+ * Provider redirect target; completes the sign-in (or link) and returns the same response as login
+ */
+router.get(Paths.Auth.OidcCallback, asyncHandler(async (req: Request, res: Response) => {
+    const { provider } = req.params as { provider: string };
+
+    const query = OidcCallbackSchema.safeParse(req.query);
+    if (!query.success) {
+        throw new BadRequestError(OIDC_ERRORS.INVALID_STATE);
+    }
+
+    const result = await authService.completeOidcLogin(provider, query.data, getClientInfo(req));
+
+    const response = createSuccessResponse(result, oidcCallbackMessage(result));
+    res.status(200).json(response);
+}));
+
+/**
+ * POST /auth/oidc/:provider/callback
+ * Same as the GET callback, for frontends that receive the redirect and post the parameters here
+ */
+router.post(Paths.Auth.OidcCallback, validateRequestBody(OidcCallbackSchema), asyncHandler(async (req: Request, res: Response) => {
+    const { provider } = req.params as { provider: string };
+    const data = req.body as OidcCallbackRequest;
+
+    const result = await authService.completeOidcLogin(provider, data, getClientInfo(req));
+
+    const response = createSuccessResponse(result, oidcCallbackMessage(result));
+    res.status(200).json(response);
+}));
+
+/**
+ * POST /auth/oidc/:provider/link
+ * Get the provider URL that links a new identity to the current user
+ */
+router.post(Paths.Auth.OidcLink, authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const { provider } = req.params as { provider: string };
+    const user = getCurrentUser(req);
+
+    logger.info(`Identity link start for user: ${user.id}`);
+
+    const authorizationUrl = await authService.getOidcLinkUrl(user.id, provider);
+
+    const response = createSuccessResponse({ authorizationUrl }, 'Continue at the provider to link your account');
+    res.status(200).json(response);
+}));
+
+/**
+ * GET /auth/identities
+ * List the current user's linked identities
+ */
+router.get(Paths.Auth.Identities, authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const user = getCurrentUser(req);
+
+    logger.info(`Identity list request for user: ${user.id}`);
+
+    const identities = await authService.listIdentities(user.id);
+
+    const response = createSuccessResponse(identities, 'Identities retrieved successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * DELETE /auth/identities/:identityId
+ * Unlink one of the current user's identities
+ */
+router.delete(Paths.Auth.IdentityById, authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const user = getCurrentUser(req);
+    const { identityId } = req.params as { identityId: string };
+
+    logger.info(`Identity unlink request for ID: ${identityId}`);
+
+    await authService.unlinkIdentity(user.id, identityId);
+
+    const response = createSuccessResponse(null, 'Identity unlinked successfully');
+    res.status(200).json(response);
+}));
+
+/******************************************************************************
+                            Session Routes
+******************************************************************************/
+
+/**
+ * GET /auth/sessions
+ * List the current user's active sessions
+ */
+router.get(Paths.Auth.Sessions, authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const authenticatedReq = req as AuthenticatedRequest;
+
+    logger.info(`Session list request for user: ${authenticatedReq.user.id}`);
+
+    const sessions = await sessionService.listSessions(authenticatedReq.user.id, authenticatedReq.sessionId);
+
+    const response = createSuccessResponse(sessions, 'Sessions retrieved successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * DELETE /auth/sessions
+ * Revoke all sessions except the current one
+ */
+router.delete(Paths.Auth.Sessions, authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const authenticatedReq = req as AuthenticatedRequest;
+
+    logger.info(`Revoke other sessions request for user: ${authenticatedReq.user.id}`);
+
+    const revoked = await sessionService.revokeAllSessions(
+        authenticatedReq.user.id,
+        authenticatedReq.user.id,
+        authenticatedReq.sessionId
+    );
+
+    const response = createSuccessResponse({ revoked }, 'Other sessions revoked successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * GET /auth/sessions/:sessionId
+ * Get one of the current user's sessions
+ */
+router.get(Paths.Auth.SessionById, authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const { sessionId } = req.params as { sessionId: string };
+
+    logger.info(`Session request for ID: ${sessionId}`);
+
+    const session = await sessionService.getSession(authenticatedReq.user.id, sessionId, authenticatedReq.sessionId);
+
+    const response = createSuccessResponse(session, 'Session retrieved successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * DELETE /auth/sessions/:sessionId
+ * Revoke one of the current user's sessions
+ */
+router.delete(Paths.Auth.SessionById, authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const { sessionId } = req.params as { sessionId: string };
+
+    logger.info(`Revoke session request for ID: ${sessionId}`);
+
+    await sessionService.revokeSession(authenticatedReq.user.id, sessionId, authenticatedReq.user.id);
+
+    const response = createSuccessResponse(null, 'Session revoked successfully');
     res.status(200).json(response);
 }));
 
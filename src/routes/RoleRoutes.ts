@@ -1,7 +1,17 @@
 import { Router, type Request, type Response } from 'express';
 import { createSuccessResponse } from '../common/types/ApiResponse.js';
-import { authenticate, authorize } from '../common/middlewares/authMiddleware.js';
+import { authenticate, requirePermission, getCurrentUser } from '../common/middlewares/authMiddleware.js';
 import { asyncHandler } from '../common/middlewares/errorHandlers.js';
+import { validateRequestBody } from '../common/utils/validation.js';
+import roleService from '../services/roleService.js';
+import {
+    CreateRoleSchema,
+    UpdateRoleSchema,
+    RoleQuerySchema,
+    DeleteRoleQuerySchema,
+    type CreateRoleRequest,
+    type UpdateRoleRequest,
+} from '../models/role.js';
 import logger from '../common/utils/logger.js';
 import Paths from '@src/common/constants/Paths.js';
 
@@ -17,67 +27,81 @@ const router = Router();
 
 /**
  * GET /roles/
- * Get all roles (admin only)
+ * List roles with pagination and search (requires roles:read)
  */
-router.get(Paths.Roles.GetAll, authenticate, authorize(['admin']), asyncHandler(async (req: Request, res: Response) => {
+router.get(Paths.Roles.GetAll, authenticate, requirePermission('roles:read'), asyncHandler(async (req: Request, res: Response) => {
+    const query = RoleQuerySchema.parse(req.query);
+
     logger.info('Get all roles request');
 
-    // Implement role listing logic here
-    const response = createSuccessResponse([], 'Roles retrieved successfully');
+    const roles = await roleService.listRoles(query);
+
+    const response = createSuccessResponse(roles, 'Roles retrieved successfully');
     res.status(200).json(response);
 }));
 
 /**
  * GET /roles/:id
- * Get role by ID (admin only)
+ * Get role by ID (requires roles:read)
  */
-router.get(Paths.Roles.GetById, authenticate, authorize(['admin']), asyncHandler(async (req: Request, res: Response) => {
-    const { id } = req.params;
+router.get(Paths.Roles.GetById, authenticate, requirePermission('roles:read'), asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
 
     logger.info(`Get role request for ID: ${id}`);
 
-    // Implement role retrieval logic here
-    const response = createSuccessResponse(null, 'Role retrieved successfully');
+    const role = await roleService.getRole(id);
+
+    const response = createSuccessResponse(role, 'Role retrieved successfully');
     res.status(200).json(response);
 }));
 
 /**
  * POST /roles/
- * Create new role (admin only)
+ * Create new role (requires roles:create)
  */
-router.post(Paths.Roles.Create, authenticate, authorize(['admin']), asyncHandler(async (req: Request, res: Response) => {
+router.post(Paths.Roles.Create, authenticate, requirePermission('roles:create'), validateRequestBody(CreateRoleSchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as CreateRoleRequest;
+    const currentUser = getCurrentUser(req);
+
     logger.info('Create role request');
 
-    // Implement role creation logic here
-    const response = createSuccessResponse(null, 'Role created successfully');
+    const role = await roleService.createRole(data, currentUser);
+
+    const response = createSuccessResponse(role, 'Role created successfully');
     res.status(201).json(response);
 }));
 
 /**
  * PUT /roles/:id
- * Update role (admin only)
+ * Update role (requires roles:update)
  */
-router.put(Paths.Roles.Update, authenticate, authorize(['admin']), asyncHandler(async (req: Request, res: Response) => {
-    const { id } = req.params;
+router.put(Paths.Roles.Update, authenticate, requirePermission('roles:update'), validateRequestBody(UpdateRoleSchema), asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const data = req.body as UpdateRoleRequest;
+    const currentUser = getCurrentUser(req);
 
     logger.info(`Update role request for ID: ${id}`);
 
-    // Implement role update logic here
-    const response = createSuccessResponse(null, 'Role updated successfully');
+    const role = await roleService.updateRole(id, data, currentUser);
+
+    const response = createSuccessResponse(role, 'Role updated successfully');
     res.status(200).json(response);
 }));
 
 /**
- * DELETE /roles/:id
- * Delete role (admin only)
+ * DELETE /roles/:id?reassignTo=<roleId>
+ * Delete role, moving its members to reassignTo (requires roles:delete)
  */
-router.delete(Paths.Roles.Delete, authenticate, authorize(['admin']), asyncHandler(async (req: Request, res: Response) => {
-    const { id } = req.params;
+router.delete(Paths.Roles.Delete, authenticate, requirePermission('roles:delete'), asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const { reassignTo } = DeleteRoleQuerySchema.parse(req.query);
+    const currentUser = getCurrentUser(req);
 
     logger.info(`Delete role request for ID: ${id}`);
 
-    // Implement role deletion logic here
-    const response = createSuccessResponse(null, 'Role deleted successfully');
+    const result = await roleService.deleteRole(id, reassignTo, currentUser);
+
+    const response = createSuccessResponse(result, 'Role deleted successfully');
     res.status(200).json(response);
 }));
 
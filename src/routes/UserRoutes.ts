@@ -1,7 +1,26 @@
 import { Router, type Request, type Response } from 'express';
 import { createSuccessResponse } from '../common/types/ApiResponse.js';
-import { authenticate, authorize, getCurrentUser } from '../common/middlewares/authMiddleware.js';
+import { ForbiddenError } from '../common/errors/ApiErrors.js';
+import { authenticate, requirePermission, getCurrentUser } from '../common/middlewares/authMiddleware.js';
 import { asyncHandler } from '../common/middlewares/errorHandlers.js';
+import { validateRequestBody } from '../common/utils/validation.js';
+import sessionService from '../services/sessionService.js';
+import userService from '../services/userService.js';
+import accountService from '../services/accountService.js';
+import authService from '../services/authService.js';
+import { assertCan, assertCanTargetUser } from '../policies/index.js';
+import {
+    CreateUserSchema,
+    UpdateUserSchema,
+    UserQuerySchema,
+    transformUserToResponse,
+    userHasPermission,
+    type CreateUserRequest,
+    type UpdateUserRequest,
+} from '../models/user.js';
+import { AssignRoleSchema, transformAssignmentToResponse, type AssignRoleRequest } from '../models/role.js';
+import { DeleteUserQuerySchema } from '../models/account.js';
+import { AUTH_ERRORS } from '../models/auth.js';
 import logger from '../common/utils/logger.js';
 import Paths from '@src/common/constants/Paths.js';
 
@@ -17,53 +36,258 @@ const router = Router();
 
 /**
  * GET /users/
- * Get all users (admin only)
+ * List users with pagination, search and filters (requires users:read)
  */
-router.get(Paths.Users.GetAll, authenticate, authorize(['admin']), asyncHandler(async (req: Request, res: Response) => {
+router.get(Paths.Users.GetAll, authenticate, requirePermission('users:read'), asyncHandler(async (req: Request, res: Response) => {
+    const query = UserQuerySchema.parse(req.query);
+
     logger.info('Get all users request');
 
-    // Implement user listing logic here
-    const response = createSuccessResponse([], 'Users retrieved successfully');
+    const users = await userService.listUsers(query);
+
+    const response = createSuccessResponse(users, 'Users retrieved successfully');
     res.status(200).json(response);
 }));
 
+/**
+ * POST /users/
+ * Create a user (requires users:create, and roles:assign to set roleIds)
+ */
+router.post(Paths.Users.Create, authenticate, requirePermission('users:create'), validateRequestBody(CreateUserSchema), asyncHandler(async (req: Request, res: Response) => {
+    const data = req.body as CreateUserRequest;
+    const currentUser = getCurrentUser(req);
+
+    logger.info('Create user request');
+
+    if (data.roleIds && !userHasPermission(currentUser, 'roles:assign')) {
+        throw new ForbiddenError(AUTH_ERRORS.INSUFFICIENT_PERMISSIONS, { missing: ['roles:assign'] });
+    }
+
+    const user = await userService.createUser(data, currentUser);
+
+    const response = createSuccessResponse(user, 'User created successfully');
+    res.status(201).json(response);
+}));
+
 /**
  * GET /users/:id
- * Get user by ID
+ * Get user by ID (self, or requires users:read)
  */
 router.get(Paths.Users.GetById, authenticate, asyncHandler(async (req: Request, res: Response) => {
-    const { id } = req.params;
+    const { id } = req.params as { id: string };
     const currentUser = getCurrentUser(req);
 
     logger.info(`Get user request for ID: ${id}`);
 
-    // Only allow users to view their own profile unless they're admin
-    if (id !== currentUser.id && !currentUser.userRoles.some(ur => ur.role.name === 'admin')) {
-        return res.status(403).json(createSuccessResponse(null, 'Access denied'));
-    }
+    assertCanTargetUser(currentUser, 'read', id);
+    const user = await userService.getUserWithPermissions(id);
+    assertCan(currentUser, 'read', { type: 'user', target: user });
 
-    // Implement user retrieval logic here
-    const response = createSuccessResponse(currentUser, 'User retrieved successfully');
+    const response = createSuccessResponse(transformUserToResponse(user), 'User retrieved successfully');
     res.status(200).json(response);
 }));
 
 /**
  * PUT /users/:id
- * Update user (admin or self)
+ * Update user (self, or requires users:update; see userPolicy for the restricted fields)
  */
-router.put(Paths.Users.Update, authenticate, asyncHandler(async (req: Request, res: Response) => {
-    const { id } = req.params;
+router.put(Paths.Users.Update, authenticate, validateRequestBody(UpdateUserSchema), asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const data = req.body as UpdateUserRequest;
     const currentUser = getCurrentUser(req);
 
     logger.info(`Update user request for ID: ${id}`);
 
-    // Only allow users to update their own profile unless they're admin
-    if (id !== currentUser.id && !currentUser.userRoles.some(ur => ur.role.name === 'admin')) {
-        return res.status(403).json(createSuccessResponse(null, 'Access denied'));
+    assertCanTargetUser(currentUser, 'update', id);
+    const target = await userService.getUserWithPermissions(id);
+    assertCan(currentUser, 'update', { type: 'user', target, changes: data });
+
+    const user = await userService.updateUser(id, data, currentUser);
+
+    const response = createSuccessResponse(user, 'User updated successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * DELETE /users/:id
+ * Deactivate a user; the account is kept. With ?erase=true the account is also scheduled for
+ * erasure after the grace period, like a self-service deletion (requires users:delete, see userPolicy)
+ */
+router.delete(Paths.Users.Delete, authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const { erase } = DeleteUserQuerySchema.parse(req.query);
+    const currentUser = getCurrentUser(req);
+
+    logger.info(`${erase ? 'Erase' : 'Deactivate'} user request for ID: ${id}`);
+
+    assertCanTargetUser(currentUser, 'delete', id);
+    const target = await userService.getUserWithPermissions(id);
+    assertCan(currentUser, 'delete', { type: 'user', target });
+
+    if (erase) {
+        const result = await accountService.scheduleDeletion(id, currentUser.id);
+
+        const response = createSuccessResponse(result, 'User scheduled for deletion');
+        res.status(200).json(response);
+        return;
     }
 
-    // Implement user update logic here
-    const response = createSuccessResponse(null, 'User updated successfully');
+    const user = await userService.deactivateUser(id, currentUser.id);
+
+    const response = createSuccessResponse(user, 'User deactivated successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * POST /users/:id/restore
+ * Cancel a pending deletion, reactivating the account if an administrator deleted it (requires users:delete)
+ */
+router.post(Paths.Users.Restore, authenticate, requirePermission('users:delete'), asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const currentUser = getCurrentUser(req);
+
+    logger.info(`Restore user request for ID: ${id}`);
+
+    await accountService.cancelDeletion(id, currentUser.id);
+
+    const response = createSuccessResponse(null, 'User deletion cancelled');
+    res.status(200).json(response);
+}));
+
+/******************************************************************************
+                            User Role Routes
+******************************************************************************/
+
+/**
+ * GET /users/:id/roles
+ * List a user's roles, with who assigned them and when they expire (self, or requires users:read)
+ */
+router.get(Paths.Users.GetRoles, authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const currentUser = getCurrentUser(req);
+
+    logger.info(`Get roles request for user ID: ${id}`);
+
+    assertCanTargetUser(currentUser, 'read', id);
+    const user = await userService.getUserWithPermissions(id);
+    assertCan(currentUser, 'read', { type: 'user', target: user });
+
+    const response = createSuccessResponse(user.userRoles.map(transformAssignmentToResponse), 'User roles retrieved successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * POST /users/:id/roles/:roleId
+ * Assign a role, optionally until expiresAt (requires roles:assign; the role can't grant more than the caller has)
+ */
+router.post(Paths.Users.AssignRole, authenticate, requirePermission('roles:assign'), validateRequestBody(AssignRoleSchema), asyncHandler(async (req: Request, res: Response) => {
+    const { id, roleId } = req.params as { id: string; roleId: string };
+    const data = req.body as AssignRoleRequest;
+    const currentUser = getCurrentUser(req);
+
+    logger.info(`Assign role ${roleId} request for user ID: ${id}`);
+
+    const assignment = await userService.assignRole(id, roleId, data, currentUser);
+
+    const response = createSuccessResponse(assignment, 'Role assigned successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * DELETE /users/:id/roles/:roleId
+ * Remove a role from a user (requires roles:assign; the last administrator can't lose admin access)
+ */
+router.delete(Paths.Users.RemoveRole, authenticate, requirePermission('roles:assign'), asyncHandler(async (req: Request, res: Response) => {
+    const { id, roleId } = req.params as { id: string; roleId: string };
+    const currentUser = getCurrentUser(req);
+
+    logger.info(`Remove role ${roleId} request for user ID: ${id}`);
+
+    await userService.removeRole(id, roleId, currentUser);
+
+    const response = createSuccessResponse(null, 'Role removed successfully');
+    res.status(200).json(response);
+}));
+
+/******************************************************************************
+                            User Session Routes
+******************************************************************************/
+
+/**
+ * GET /users/:id/sessions
+ * List a user's active sessions (requires sessions:read)
+ */
+router.get(Paths.Users.Sessions, authenticate, requirePermission('sessions:read'), asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+
+    logger.info(`Get sessions request for user ID: ${id}`);
+
+    const sessions = await sessionService.listSessions(id);
+
+    const response = createSuccessResponse(sessions, 'Sessions retrieved successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * DELETE /users/:id/sessions
+ * Revoke all of a user's sessions (requires sessions:revoke)
+ */
+router.delete(Paths.Users.Sessions, authenticate, requirePermission('sessions:revoke'), asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const currentUser = getCurrentUser(req);
+
+    logger.info(`Revoke all sessions request for user ID: ${id}`);
+
+    const revoked = await sessionService.revokeAllSessions(id, currentUser.id);
+
+    const response = createSuccessResponse({ revoked }, 'Sessions revoked successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * GET /users/:id/sessions/:sessionId
+ * Get one of a user's sessions (requires sessions:read)
+ */
+router.get(Paths.Users.SessionById, authenticate, requirePermission('sessions:read'), asyncHandler(async (req: Request, res: Response) => {
+    const { id, sessionId } = req.params as { id: string; sessionId: string };
+
+    logger.info(`Get session request for user ID: ${id}, session ID: ${sessionId}`);
+
+    const session = await sessionService.getSession(id, sessionId);
+
+    const response = createSuccessResponse(session, 'Session retrieved successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * DELETE /users/:id/sessions/:sessionId
+ * Revoke one of a user's sessions (requires sessions:revoke)
+ */
+router.delete(Paths.Users.SessionById, authenticate, requirePermission('sessions:revoke'), asyncHandler(async (req: Request, res: Response) => {
+    const { id, sessionId } = req.params as { id: string; sessionId: string };
+    const currentUser = getCurrentUser(req);
+
+    logger.info(`Revoke session request for user ID: ${id}, session ID: ${sessionId}`);
+
+    await sessionService.revokeSession(id, sessionId, currentUser.id);
+
+    const response = createSuccessResponse(null, 'Session revoked successfully');
+    res.status(200).json(response);
+}));
+
+/**
+ * POST /users/:id/unlock
+ * Lift a sign-in lockout (requires users:unlock)
+ */
+router.post(Paths.Users.Unlock, authenticate, requirePermission('users:unlock'), asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const currentUser = getCurrentUser(req);
+
+    logger.info(`Unlock request for user ID: ${id}`);
+
+    const wasLocked = await authService.unlockAccount(id, currentUser.id);
+
+    const response = createSuccessResponse({ wasLocked }, 'Account unlocked successfully');
     res.status(200).json(response);
 }));
 
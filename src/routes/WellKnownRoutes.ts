@@ -0,0 +1,33 @@
+import { Router, type Request, type Response } from 'express';
+import { asyncHandler } from '../common/middlewares/errorHandlers.js';
+import signingKeyService from '../services/signingKeyService.js';
+import { SIGNING_KEYS } from '../models/signingKey.js';
+import Paths from '@src/common/constants/Paths.js';
+
+/******************************************************************************
+                                Router Setup
+******************************************************************************/
+
+const router = Router();
+
+/******************************************************************************
+                                Well-Known Routes
+******************************************************************************/
+
+/**
+ * GET /.well-known/jwks.json
+ * Public keys that verify access tokens, for other services (public).
+ * A plain JWK Set rather than the usual response envelope, as JWT libraries expect.
+ */
+router.get(Paths.WellKnown.Jwks, asyncHandler(async (req: Request, res: Response) => {
+    const jwks = await signingKeyService.getJwks();
+
+    res.set('Cache-Control', `public, max-age=${SIGNING_KEYS.CACHE_TTL}`);
+    res.status(200).json(jwks);
+}));
+
+/******************************************************************************
+                                Export
+******************************************************************************/
+
+export default router;
@@ -4,6 +4,7 @@ import { Router } from 'express';
 import AuthRoutes from './AuthRoutes'
 import UserRoutes from './UserRoutes'
 import RoleRoutes from './RoleRoutes'
+import AuditRoutes from './AuditRoutes'
 import { createSuccessResponse } from '@src/common/types/ApiResponse'
 import logger from '@utils/logger'
 import Paths from '@src/common/constants/Paths';
@@ -26,6 +27,7 @@ apiRouter.get('/', (req: Request, res: Response) => {
             auth: Paths.Auth.Base,
             users: Paths.Users.Base,
             roles: Paths.Roles.Base, // Optional - for authorization
+            auditLogs: Paths.AuditLogs.Base,
         }
     }, 'API is running successfully');
 
@@ -36,6 +38,7 @@ apiRouter.get('/', (req: Request, res: Response) => {
 apiRouter.use(Paths.Auth.Base, AuthRoutes);
 apiRouter.use(Paths.Users.Base, UserRoutes);
 apiRouter.use(Paths.Roles.Base, RoleRoutes); // Optional - for authorization
+apiRouter.use(Paths.AuditLogs.Base, AuditRoutes);
 
 /******************************************************************************
                                 Export default
@@ -0,0 +1,31 @@
+import dotenv from 'dotenv';
+
+// Before the services load: they read their keys and stores when created
+dotenv.config();
+
+import logger from '@src/common/utils/logger';
+import { prisma } from '@src/common/utils/prisma';
+import authService from '@src/services/authService';
+
+/**
+ * Run the periodic jobs once: expired sessions and tokens, due account erasures, expired role
+ * assignments, audit retention and checkpoints, retired signing keys. For cron, with
+ * MAINTENANCE_INTERVAL_MINUTES=0 on the servers. In-memory stores (denylist, rate limits) belong
+ * to the server processes, so only their own schedule cleans those.
+ */
+async function main() {
+    logger.info('🧹 Running maintenance...');
+
+    await authService.cleanExpiredSessions();
+
+    logger.info('✅ Maintenance done');
+}
+
+main()
+    .catch((e) => {
+        logger.err(e);
+        process.exitCode = 1;
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
@@ -0,0 +1,40 @@
+import dotenv from 'dotenv';
+import logger from '@src/common/utils/logger';
+import { MockOidcProvider } from '@src/common/auth/mockOidcProvider';
+
+dotenv.config();
+
+/**
+ * Run the mock OIDC provider for local development.
+ * Enable it in the API with OIDC_PROVIDERS=mock and OIDC_MOCK_ISSUER pointing here.
+ */
+async function main() {
+    const provider = new MockOidcProvider({
+        clientId: process.env.OIDC_MOCK_CLIENT_ID || 'mock-client',
+        clientSecret: process.env.OIDC_MOCK_CLIENT_SECRET || 'mock-secret',
+        user: {
+            sub: process.env.OIDC_MOCK_SUBJECT || 'mock-user-1',
+            email: process.env.OIDC_MOCK_EMAIL || 'mock.user@example.com',
+            email_verified: process.env.OIDC_MOCK_EMAIL_VERIFIED !== 'false',
+            given_name: 'Mock',
+            family_name: 'User',
+        },
+    });
+
+    const issuer = await provider.start(Number(process.env.OIDC_MOCK_PORT) || 9400);
+
+    logger.info(`🔑 Mock OIDC provider running at ${issuer}`);
+    logger.info(`   Signs in as ${provider.user.email} (sub: ${provider.user.sub})`);
+
+    const shutdown = () => {
+        provider.stop().finally(() => process.exit(0));
+    };
+
+    process.on('SIGTERM', shutdown);
+    process.on('SIGINT', shutdown);
+}
+
+main().catch((e) => {
+    logger.err(e);
+    process.exit(1);
+});
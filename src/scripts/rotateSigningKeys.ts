@@ -0,0 +1,44 @@
+import dotenv from 'dotenv';
+
+// Before the services load: the signing key service picks its store when created
+dotenv.config();
+
+import logger from '@src/common/utils/logger';
+import { prisma } from '@src/common/utils/prisma';
+import { ENV } from '@src/common/constants/env';
+import signingKeyService from '@src/services/signingKeyService';
+
+/**
+ * Rotate the access token signing keys: the next key starts signing and the active one is retired.
+ * Only meaningful with JWT_KEY_STORE=postgres, where running instances share the keys;
+ * they pick up the change within SIGNING_KEYS.CACHE_TTL.
+ */
+async function main() {
+    if (ENV.JWT_KEY_STORE !== 'postgres') {
+        logger.err('❌ JWT_KEY_STORE is not postgres: the keys live in each server process, which rotates them on restart');
+        process.exitCode = 1;
+        return;
+    }
+
+    logger.info('🔑 Rotating signing keys...');
+
+    const result = await signingKeyService.rotate();
+
+    logger.info(`Active key: ${result.active}`);
+    logger.info(`Next key: ${result.next}`);
+
+    if (result.retired.length > 0) {
+        logger.info(`Retired keys (verify until ${result.retiredUntil.toISOString()}): ${result.retired.join(', ')}`);
+    }
+
+    logger.info('✅ Signing keys rotated');
+}
+
+main()
+    .catch((e) => {
+        logger.err(e);
+        process.exitCode = 1;
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
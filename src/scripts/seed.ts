@@ -16,7 +16,7 @@ async function main() {
             Object.values(SYSTEM_ROLES).map(async (roleData) => {
                 return await prisma.role.upsert({
                     where: { name: roleData.name },
-                    update: {},
+                    update: { permissions: roleData.permissions }, // Keep system roles in sync with the code
                     create: {
                         name: roleData.name,
                         displayName: roleData.displayName,
@@ -28,6 +28,15 @@ async function main() {
             })
         );
 
+        // Link system roles to their parents, so each inherits the permissions of the one below it
+        for (const roleData of Object.values(SYSTEM_ROLES)) {
+            const parent = roles.find(role => role.name === roleData.parent);
+            await prisma.role.update({
+                where: { name: roleData.name },
+                data: { parentId: parent?.id ?? null },
+            });
+        }
+
         logger.info(`✅ Created ${roles.length} system roles`);
 
         // Create admin user
@@ -45,6 +54,7 @@ async function main() {
                 firstName: 'Admin',
                 lastName: 'User',
                 isActive: true,
+                emailVerifiedAt: new Date(),
             },
         });
 
@@ -83,6 +93,7 @@ async function main() {
                 firstName: 'Test',
                 lastName: 'User',
                 isActive: true,
+                emailVerifiedAt: new Date(),
             },
         });
 
@@ -0,0 +1,45 @@
+import dotenv from 'dotenv';
+
+// Before the services load: the audit service reads its signing key when created
+dotenv.config();
+
+import logger from '@src/common/utils/logger';
+import { prisma } from '@src/common/utils/prisma';
+import auditService from '@src/services/auditService';
+
+/**
+ * Walk the audit hash chain and report the first broken link.
+ * Exits with status 1 when the chain doesn't verify, so it can run from cron or CI.
+ */
+async function main() {
+    logger.info('🔗 Verifying audit chain...');
+
+    const result = await auditService.verifyChain();
+
+    logger.info(`Checked ${result.checkedEntries} entries (sequence ${result.firstSequence ?? '-'} to ${result.lastSequence ?? '-'}) and ${result.checkedCheckpoints} checkpoints`);
+
+    if (result.brokenLink) {
+        const { sequence, entryId, reason } = result.brokenLink;
+        logger.err(`❌ Broken link at sequence ${sequence}${entryId ? ` (entry ${entryId})` : ''}: ${reason}`);
+    }
+
+    if (result.unchainedEntries > 0) {
+        logger.err(`❌ ${result.unchainedEntries} entries were written outside the chain`);
+    }
+
+    if (!result.valid) {
+        process.exitCode = 1;
+        return;
+    }
+
+    logger.info('✅ Audit chain is intact');
+}
+
+main()
+    .catch((e) => {
+        logger.err(e);
+        process.exitCode = 1;
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
@@ -1,10 +1,12 @@
+// Load environment variables first: constants and services read them when imported
+import 'dotenv/config';
+
 import express, { type Express, type Request, type Response } from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
 
 // Import middleware
 import { errorHandler, notFoundHandler } from '@middlewares/errorHandlers'
-import { requestLogger, securityHeaders, timeoutHandler } from '@middlewares/common'
+import { requestContext, requestLogger, securityHeaders, timeoutHandler } from '@middlewares/common'
 
 // Import constants
 import { ENV } from '@constants/env'
@@ -13,12 +15,12 @@ import Paths from '@constants/Paths'
 // Import utilities
 import logger from '@utils/logger'
 import { createSuccessResponse } from '@src/common/types/ApiResponse'
+import mailService from '@src/services/mailService'
+import authService from '@src/services/authService'
 
 // Import routes
 import BaseRouter from '@routes/index'
-
-// Load environment variables
-dotenv.config();
+import WellKnownRouter from '@routes/WellKnownRoutes'
 
 /**
  * Create and configure Express application
@@ -26,6 +28,9 @@ dotenv.config();
 export const createServer = (): Express => {
     const app: Express = express();
 
+    // Request id and context, ahead of everything that logs
+    app.use(requestContext);
+
     // Basic middleware
     app.use(express.json({ limit: '10mb' }));
     app.use(express.urlencoded({ extended: true, limit: '10mb' }));
@@ -33,7 +38,8 @@ export const createServer = (): Express => {
     // CORS
     app.use(cors({
         origin: ENV.NODE_ENV === 'production' ? false : true, // Configure based on environment
-        credentials: true
+        credentials: true,
+        exposedHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After', 'X-Request-Id'],
     }));
 
     // Custom middleware
@@ -54,6 +60,8 @@ export const createServer = (): Express => {
         res.status(200).json(response);
     });
 
+    // Token verification keys (outside API base path, where verifiers look for them)
+    app.use(Paths.WellKnown.Base, WellKnownRouter);
 
     // Add APIs, must be after middleware
     app.use(Paths.Base, BaseRouter);
@@ -77,19 +85,25 @@ export const startServer = (app: Express, port: number): void => {
         logger.info(`📝 Log Level: ${ENV.LOG_LEVEL}`);
     });
 
+    const maintenance = scheduleMaintenance(ENV.MAINTENANCE_INTERVAL_MINUTES);
+
     // Graceful shutdown
     process.on('SIGTERM', () => {
         logger.info('SIGTERM signal received: closing HTTP server');
-        server.close(() => {
+        clearInterval(maintenance);
+        server.close(async () => {
             logger.info('HTTP server closed');
+            await mailService.drain(); // Deliver queued emails before exiting
             process.exit(0);
         });
     });
 
     process.on('SIGINT', () => {
         logger.info('SIGINT signal received: closing HTTP server');
-        server.close(() => {
+        clearInterval(maintenance);
+        server.close(async () => {
             logger.info('HTTP server closed');
+            await mailService.drain(); // Deliver queued emails before exiting
             process.exit(0);
         });
     });
@@ -106,3 +120,36 @@ export const startServer = (app: Express, port: number): void => {
         process.exit(1);
     });
 };
+
+/**
+ * Run cleanExpiredSessions (expired sessions and tokens, due account erasures, expired role
+ * assignments, audit retention and checkpoints, retired signing keys) every intervalMinutes.
+ * A run still going when the next is due is not overlapped.
+ */
+const scheduleMaintenance = (intervalMinutes: number): NodeJS.Timeout | undefined => {
+    if (!(intervalMinutes > 0)) { // Also catches a value that isn't a number
+        return undefined;
+    }
+
+    let running = false;
+
+    const timer = setInterval(async () => {
+        if (running) {
+            return;
+        }
+
+        running = true;
+        try {
+            await authService.cleanExpiredSessions();
+        } catch (error) {
+            logger.err(`Maintenance failed: ${String(error)}`);
+        } finally {
+            running = false;
+        }
+    }, intervalMinutes * 60 * 1000);
+
+    // Don't keep the process alive for maintenance alone
+    timer.unref();
+
+    return timer;
+};
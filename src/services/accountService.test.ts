@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConflictError } from '@src/common/errors/ApiErrors';
+import { prisma } from '@src/common/utils/prisma';
+import { resetMemoryPrisma } from '@src/test/memoryPrisma';
+import { ROLE_ERRORS } from '@src/models/role';
+import accountService from './accountService';
+import auditService from './auditService';
+import authService from './authService';
+
+vi.mock('@src/common/utils/prisma', async () => {
+    const { createMemoryPrisma } = await import('@src/test/memoryPrisma');
+    return { prisma: createMemoryPrisma() };
+});
+
+describe('accountService deletion', () => {
+    const adminId = 'admin-1';
+
+    const findUser = (id: string) => prisma.user.findUniqueOrThrow({ where: { id } });
+
+    beforeEach(() => {
+        resetMemoryPrisma(prisma);
+    });
+
+    it('deactivates an account an administrator deletes, and reactivates it on cancellation', async () => {
+        const user = await prisma.user.create({ data: { email: 'ada@example.com' } });
+
+        await accountService.scheduleDeletion(user.id, adminId);
+        expect(await findUser(user.id)).toMatchObject({ isActive: false, deletionRequestedBy: adminId });
+
+        await accountService.cancelDeletion(user.id, adminId);
+        expect(await findUser(user.id)).toMatchObject({ isActive: true, deletionScheduledAt: null, activeBeforeDeletion: null });
+    });
+
+    it('keeps an account that was already inactive inactive when the deletion is cancelled', async () => {
+        const user = await prisma.user.create({ data: { email: 'ada@example.com', isActive: false } });
+
+        await accountService.scheduleDeletion(user.id, adminId);
+        await accountService.cancelDeletion(user.id, adminId);
+
+        expect(await findUser(user.id)).toMatchObject({ isActive: false, deletionScheduledAt: null });
+    });
+
+    it('leaves a self-deleted account active until it is erased', async () => {
+        const user = await prisma.user.create({ data: { email: 'ada@example.com' } });
+
+        await accountService.scheduleDeletion(user.id, user.id);
+        expect(await findUser(user.id)).toMatchObject({ isActive: true, deletionRequestedBy: user.id });
+
+        await accountService.cancelDeletion(user.id, user.id);
+        expect(await findUser(user.id)).toMatchObject({ isActive: true, deletionScheduledAt: null });
+    });
+
+    it('refuses to delete the last administrator', async () => {
+        const admin = await prisma.role.create({ data: { name: 'admin', displayName: 'Administrator', permissions: ['*'], isSystem: true } });
+        const user = await prisma.user.create({ data: { email: 'root@example.com', userRoles: { create: [{ roleId: admin.id }] } } });
+
+        await expect(accountService.scheduleDeletion(user.id, user.id)).rejects.toThrow(new ConflictError(ROLE_ERRORS.LAST_ADMIN));
+        expect(await findUser(user.id)).toMatchObject({ isActive: true, deletionScheduledAt: null });
+    });
+});
+
+describe('accountService erasure', () => {
+    const logged = (action: string) => prisma.auditLog.findFirstOrThrow({ where: { action } });
+
+    beforeEach(() => {
+        resetMemoryPrisma(prisma);
+    });
+
+    it('only erases accounts whose grace period is over', async () => {
+        const user = await prisma.user.create({ data: { email: 'ada@example.com' } });
+        await accountService.scheduleDeletion(user.id, user.id);
+
+        expect(await accountService.purgeDueDeletions()).toBe(0);
+
+        await prisma.user.update({ where: { id: user.id }, data: { deletionScheduledAt: new Date(Date.now() - 1000) } });
+
+        expect(await accountService.purgeDueDeletions()).toBe(1);
+        expect(await prisma.user.findUnique({ where: { id: user.id } })).toBeNull();
+    });
+
+    it('deletes related records and strips personal data from the audit entries about the account', async () => {
+        const role = await prisma.role.create({ data: { name: 'support', displayName: 'Support', permissions: [] } });
+        const user = await prisma.user.create({
+            data: { email: 'ada@example.com', deletionScheduledAt: new Date(Date.now() - 1000), deletionRequestedBy: 'admin-1' },
+        });
+        const colleague = await prisma.user.create({
+            data: { email: 'grace@example.com', userRoles: { create: [{ roleId: role.id, createdBy: user.id }] } },
+        });
+        await prisma.session.create({ data: { userId: user.id, expiresAt: new Date(Date.now() + 60_000) } });
+
+        await authService.logAuditEvent(null, 'login_failed', { email: 'ada@example.com', reason: 'password' });
+        await authService.logAuditEvent(user.id, 'login', { device: 'Firefox on Linux', method: 'password' });
+        await authService.logAuditEvent(colleague.id, 'login', { device: 'Safari on macOS', method: 'password' });
+
+        await accountService.purgeDueDeletions();
+
+        expect(await prisma.session.count({ where: { userId: user.id } })).toBe(0);
+        expect(await prisma.userRole.findFirst({ where: { userId: colleague.id } })).toMatchObject({ createdBy: null });
+
+        const redacted = await prisma.auditLog.findMany({ where: { redactedAt: { not: null } }, orderBy: { sequence: 'asc' } });
+        expect(redacted.map(entry => entry.details)).toEqual([{ reason: 'password' }, { method: 'password' }]);
+        expect(redacted.every(entry => entry.userId === null)).toBe(true);
+        expect(await prisma.auditLog.findFirst({ where: { userId: colleague.id } }))
+            .toMatchObject({ redactedAt: null, details: { device: 'Safari on macOS' } });
+
+        expect(await logged('account_erased')).toMatchObject({
+            userId: null,
+            resource: `user:${user.id}`,
+            details: { requestedBy: 'admin-1', redactedSequences: redacted.map(entry => entry.sequence) },
+        });
+        expect(await auditService.verifyChain()).toMatchObject({ valid: true, brokenLink: null });
+    });
+});
@@ -0,0 +1,219 @@
+import bcrypt from 'bcryptjs';
+import { BadRequestError, ConflictError, NotFoundError, UnauthorizedError } from '@src/common/errors/ApiErrors';
+import logger from '@src/common/utils/logger';
+import { prisma } from '@src/common/utils/prisma';
+import {
+    ACCOUNT_DELETION,
+    ACCOUNT_ERRORS,
+    type AccountDeletionResponse,
+    type AccountExport,
+    type DeleteAccountRequest,
+} from '@src/models/account';
+import { transformAuditLogToResponse } from '@src/models/audit';
+import { AUTH_ERRORS } from '@src/models/auth';
+import { transformAssignmentToResponse } from '@src/models/role';
+import { transformSessionToResponse } from '@src/models/session';
+import { getDisplayName, userRolesInclude, USER_ERRORS, type UserWithPermissions, type UserWithRoles } from '@src/models/user';
+import type { User } from '@src/generated/prisma';
+import profileService from './profileService';
+import passkeyService from './passkeyService';
+import roleService from './roleService';
+import sessionService from './sessionService';
+import mailService from './mailService';
+import auditService from './auditService';
+import authService from './authService';
+
+/******************************************************************************
+                                Account Service
+******************************************************************************/
+
+class AccountService {
+    /**
+     * Everything held about the user, as one JSON document (GDPR data export)
+     */
+    async exportData(user: UserWithPermissions): Promise<AccountExport> {
+        const [profile, passkeys, sessions, auditLogs] = await Promise.all([
+            profileService.getProfile(user),
+            passkeyService.listCredentials(user.id),
+            prisma.session.findMany({
+                where: { userId: user.id },
+                orderBy: { createdAt: 'asc' },
+            }),
+            prisma.auditLog.findMany({
+                where: { OR: [{ userId: user.id }, { resource: `user:${user.id}` }] },
+                orderBy: { createdAt: 'asc' },
+            }),
+        ]);
+
+        await authService.logAuditEvent(user.id, 'data_exported', {}, `user:${user.id}`);
+
+        return {
+            exportedAt: new Date(),
+            profile,
+            roles: user.userRoles.map(transformAssignmentToResponse),
+            sessions: sessions.map(session => transformSessionToResponse(session)),
+            passkeys,
+            auditLogs: auditLogs.map(transformAuditLogToResponse),
+        };
+    }
+
+    /**
+     * Self-service deletion, confirmed with the password
+     */
+    async requestDeletion(userId: string, data: DeleteAccountRequest): Promise<AccountDeletionResponse> {
+        const user = await this.findUser(userId);
+
+        // Accounts created through social login have to set a password first
+        if (user.password === null) {
+            throw new BadRequestError(AUTH_ERRORS.PASSWORD_REQUIRED);
+        }
+
+        if (!await bcrypt.compare(data.password, user.password)) {
+            throw new UnauthorizedError(AUTH_ERRORS.INCORRECT_PASSWORD);
+        }
+
+        return this.scheduleDeletion(userId, userId);
+    }
+
+    /**
+     * Schedule an account for erasure after the grace period and sign it out everywhere.
+     * The owner can sign in again and cancel; an account deleted by an administrator is also
+     * deactivated, so only an administrator can restore it.
+     */
+    async scheduleDeletion(userId: string, actorId: string): Promise<AccountDeletionResponse> {
+        const user = await this.findUser(userId);
+
+        if (user.deletionScheduledAt) {
+            throw new ConflictError(ACCOUNT_ERRORS.DELETION_PENDING);
+        }
+
+        const deletionScheduledAt = new Date(Date.now() + ACCOUNT_DELETION.GRACE_PERIOD * 1000);
+
+        await roleService.withAdminRemaining(userId, [], tx => tx.user.update({
+            where: { id: userId },
+            data: {
+                deletionScheduledAt,
+                deletionRequestedBy: actorId,
+                activeBeforeDeletion: user.isActive,
+                ...(actorId !== userId && { isActive: false }),
+            },
+        }));
+
+        await sessionService.revokeAllSessions(userId, actorId);
+
+        mailService.enqueue('accountDeletionScheduled', user.email, {
+            name: getDisplayName(user),
+            date: deletionScheduledAt.toUTCString(),
+        }, user.locale);
+
+        await authService.logAuditEvent(
+            actorId,
+            'account_deletion_scheduled',
+            { deletionScheduledAt, requestedBy: actorId },
+            `user:${userId}`
+        );
+
+        logger.info(`Account ${userId} scheduled for deletion on ${deletionScheduledAt.toISOString()}`);
+
+        return { deletionScheduledAt };
+    }
+
+    /**
+     * Keep an account that is scheduled for deletion. An account an administrator deactivated by
+     * deleting it gets back the status it had before; one that was already inactive stays inactive.
+     */
+    async cancelDeletion(userId: string, actorId: string): Promise<void> {
+        const user = await this.findUser(userId);
+
+        if (!user.deletionScheduledAt) {
+            throw new BadRequestError(ACCOUNT_ERRORS.NO_DELETION_PENDING);
+        }
+
+        await prisma.user.update({
+            where: { id: userId },
+            data: {
+                deletionScheduledAt: null,
+                deletionRequestedBy: null,
+                activeBeforeDeletion: null,
+                ...(user.activeBeforeDeletion !== null && { isActive: user.activeBeforeDeletion }),
+            },
+        });
+
+        await authService.logAuditEvent(actorId, 'account_deletion_cancelled', {}, `user:${userId}`);
+    }
+
+    /**
+     * Erase every account whose grace period is over
+     */
+    async purgeDueDeletions(): Promise<number> {
+        const due = await prisma.user.findMany({
+            where: { deletionScheduledAt: { lte: new Date() } },
+        });
+
+        for (const user of due) {
+            await this.eraseUser(user);
+        }
+
+        return due.length;
+    }
+
+    /**
+     * Hard-delete a user. Related records cascade away, except audit entries: those are kept for
+     * accountability, detached from the user (AuditLog.user is SetNull) and stripped of personal data.
+     * The erasure entry lists the redacted entries, so the audit chain still verifies.
+     */
+    private async eraseUser(user: User): Promise<void> {
+        const redactedSequences = await prisma.$transaction(async (tx) => {
+            const redacted = await auditService.redactEntries(tx, {
+                OR: [
+                    { userId: user.id },
+                    { resource: `user:${user.id}` },
+                    // e.g. failed sign-ins, recorded by email before the account was known
+                    { details: { path: ['email'], equals: user.email } },
+                ],
+            });
+
+            // Role assignments the user made to others stay, without pointing at a deleted account
+            await tx.userRole.updateMany({
+                where: { createdBy: user.id },
+                data: { createdBy: null },
+            });
+
+            await tx.user.delete({ where: { id: user.id } });
+
+            return redacted;
+        });
+
+        await authService.logAuditEvent(
+            null,
+            'account_erased',
+            {
+                requestedBy: user.deletionRequestedBy === user.id ? 'self' : user.deletionRequestedBy,
+                redactedSequences,
+            },
+            `user:${user.id}`
+        );
+
+        logger.info(`Account ${user.id} erased`);
+    }
+
+    private async findUser(id: string): Promise<UserWithRoles> {
+        const user = await prisma.user.findUnique({
+            where: { id },
+            include: userRolesInclude(),
+        });
+
+        if (!user) {
+            throw new NotFoundError(USER_ERRORS.NOT_FOUND);
+        }
+
+        return user;
+    }
+}
+
+/******************************************************************************
+                                Export
+******************************************************************************/
+
+const accountService = new AccountService();
+export default accountService;
@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { hashAuditEntry } from '@src/common/utils/auditChain';
+import { prisma } from '@src/common/utils/prisma';
+import { resetMemoryPrisma } from '@src/test/memoryPrisma';
+import type { ChainedAuditLog } from '@src/models/audit';
+import auditService from './auditService';
+
+vi.mock('@src/common/utils/prisma', async () => {
+    const { createMemoryPrisma } = await import('@src/test/memoryPrisma');
+    return { prisma: createMemoryPrisma() };
+});
+
+const append = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+        await auditService.append({ userId: 'user-1', action: 'login', resource: 'user:user-1', details: { attempt: i } });
+    }
+};
+
+const entryAt = async (sequence: number) =>
+    await prisma.auditLog.findUniqueOrThrow({ where: { sequence } }) as ChainedAuditLog;
+
+const brokenLink = async () => (await auditService.verifyChain()).brokenLink;
+
+describe('auditService hash chain', () => {
+    beforeEach(() => {
+        resetMemoryPrisma(prisma);
+    });
+
+    it('links every entry to the one before it', async () => {
+        await append(3);
+
+        const entries = await prisma.auditLog.findMany({ orderBy: { sequence: 'asc' } });
+        expect(entries.map(entry => entry.sequence)).toEqual([1, 2, 3]);
+        expect(entries.map(entry => entry.prevHash)).toEqual([null, entries[0]!.hash, entries[1]!.hash]);
+
+        expect(await auditService.verifyChain()).toMatchObject({
+            valid: true, checkedEntries: 3, firstSequence: 1, lastSequence: 3, brokenLink: null,
+        });
+    });
+
+    it('gives concurrent writers consecutive sequence numbers', async () => {
+        await Promise.all(Array.from({ length: 5 }, (_, i) =>
+            auditService.append({ userId: null, action: 'concurrent', resource: null, details: { i } })
+        ));
+
+        expect(await auditService.verifyChain()).toMatchObject({ valid: true, checkedEntries: 5 });
+    });
+
+    it('detects an altered entry', async () => {
+        await append(3);
+        await prisma.auditLog.update({ where: { sequence: 2 }, data: { action: 'logout' } });
+
+        expect(await brokenLink()).toMatchObject({ sequence: 2, reason: 'Content does not match its hash' });
+    });
+
+    it('detects a deleted entry', async () => {
+        await append(3);
+        await prisma.auditLog.delete({ where: { sequence: 2 } });
+
+        expect(await brokenLink()).toEqual({ sequence: 2, entryId: null, reason: 'Entry is missing' });
+    });
+
+    it('detects a rewritten chain through a signed checkpoint', async () => {
+        await append(3);
+        await auditService.createCheckpoint();
+
+        // Alter entry 2 and recompute its hash and the next one's, so every link matches again
+        let previous = await entryAt(1);
+        for (const sequence of [2, 3]) {
+            const entry = await entryAt(sequence);
+            const { userId, action, resource, details, ipAddress, userAgent, requestId, createdAt } = entry;
+            const content = { sequence, userId, action: sequence === 2 ? 'logout' : action, resource, details, ipAddress, userAgent, requestId, createdAt };
+            const hash = hashAuditEntry(previous.hash, content);
+            previous = await prisma.auditLog.update({
+                where: { sequence },
+                data: { action: content.action, prevHash: previous.hash, hash },
+            }) as ChainedAuditLog;
+        }
+
+        expect(await brokenLink()).toMatchObject({ sequence: 3, reason: 'Hash does not match the signed checkpoint' });
+    });
+
+    it('detects entries deleted from the end up to a checkpoint', async () => {
+        await append(3);
+        await auditService.createCheckpoint();
+        await prisma.auditLog.delete({ where: { sequence: 3 } });
+
+        expect(await brokenLink()).toMatchObject({ sequence: 3, reason: 'Entries up to signed checkpoint 3 are missing' });
+    });
+
+    it('detects a forged checkpoint', async () => {
+        await append(2);
+        await auditService.createCheckpoint();
+        await prisma.auditCheckpoint.updateMany({ data: { signature: 'f'.repeat(64) } });
+
+        expect(await brokenLink()).toMatchObject({ sequence: 2, reason: 'Checkpoint signature is invalid' });
+    });
+
+    it('only accepts redactions an erasure record vouches for', async () => {
+        await append(2);
+        const redact = () => prisma.$transaction(tx => auditService.redactEntries(tx, { sequence: 1 }));
+
+        expect(await redact()).toEqual([1]);
+        expect(await brokenLink()).toMatchObject({ sequence: 1, reason: 'Entry was altered without an erasure record' });
+
+        await auditService.append({ userId: null, action: 'account_erased', resource: 'user:user-1', details: { redactedSequences: [1] } });
+        expect(await auditService.verifyChain()).toMatchObject({ valid: true, checkedEntries: 3 });
+    });
+
+    it('only accepts removed leading entries a retention record vouches for', async () => {
+        await append(3);
+        const { hash } = await entryAt(2);
+        await prisma.auditLog.deleteMany({ where: { sequence: { lte: 2 } } });
+
+        expect(await brokenLink()).toMatchObject({ sequence: 2, reason: 'Earlier entries were removed without a retention record' });
+
+        await auditService.append({
+            userId: null, action: 'audit_logs_retired', resource: null, details: { count: 2, throughSequence: 2, throughHash: hash },
+        });
+        expect(await auditService.verifyChain()).toMatchObject({ valid: true, firstSequence: 3, lastSequence: 4 });
+    });
+});
@@ -0,0 +1,468 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '@src/common/utils/logger';
+import { prisma } from '@src/common/utils/prisma';
+import { ENV } from '@src/common/constants/env';
+import { AUTH_CONFIG } from '@src/common/constants/authConfig';
+import { getRequestContext } from '@src/common/utils/requestContext';
+import { hashAuditEntry, signAuditCheckpoint, type ChainedAuditContent } from '@src/common/utils/auditChain';
+import type { CursorPaginatedData } from '@src/common/types/ApiResponse';
+import {
+    anonymiseAuditDetails,
+    AUDIT_CHAIN,
+    AUDIT_EXPORT_BATCH_SIZE,
+    SECURITY_ACTIONS,
+    transformAuditLogToResponse,
+    type AuditChainBreak,
+    type AuditChainVerification,
+    type AuditEntryInput,
+    type AuditLogFilter,
+    type AuditLogQuery,
+    type AuditLogResponse,
+    type ChainedAuditLog,
+} from '@src/models/audit';
+import { Prisma } from '@src/generated/prisma';
+import authService from './authService';
+
+/******************************************************************************
+                                Audit Service
+******************************************************************************/
+
+class AuditService {
+    private readonly signingKey: string;
+
+    constructor() {
+        this.signingKey = AUTH_CONFIG.auditSigningKey;
+    }
+
+    /**
+     * Append an entry to the hash chain: it takes the next sequence number and a hash over its
+     * content and the previous entry's hash. Writers racing for the same sequence number collide on
+     * its unique index and the loser retries on top of the winner. Throws when the write fails;
+     * AuthService.logAuditEvent is the only caller and keeps failures away from the request.
+     */
+    async append(entry: AuditEntryInput): Promise<void> {
+        const context = getRequestContext();
+        // Stored as jsonb, which only keeps what JSON does (e.g. dates become strings); hash that form
+        const details = JSON.parse(JSON.stringify(entry.details || {})) as Prisma.InputJsonValue;
+
+        for (let attempt = 0; attempt < AUDIT_CHAIN.MAX_APPEND_ATTEMPTS; attempt++) {
+            const head = await this.findHead();
+
+            const content: ChainedAuditContent = {
+                sequence: (head?.sequence ?? 0) + 1,
+                userId: entry.userId,
+                action: entry.action,
+                resource: entry.resource,
+                details,
+                ipAddress: context?.ipAddress ?? null,
+                userAgent: context?.userAgent ?? null,
+                requestId: context?.requestId ?? null,
+                createdAt: new Date(),
+            };
+            const prevHash = head?.hash ?? null;
+
+            const written = await prisma.auditLog.createMany({
+                data: [{ ...content, details, prevHash, hash: hashAuditEntry(prevHash, content) }],
+                skipDuplicates: true,
+            });
+
+            if (written.count === 1) {
+                return;
+            }
+        }
+
+        throw new Error('The audit chain is under too much contention');
+    }
+
+    /**
+     * Search the audit log, newest first
+     */
+    async list(query: AuditLogQuery): Promise<CursorPaginatedData<AuditLogResponse>> {
+        const limit = query.limit ?? 50;
+
+        // One extra row tells whether there is a next page
+        const entries = await prisma.auditLog.findMany({
+            where: this.buildWhere(query),
+            orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+            take: limit + 1,
+            ...(query.cursor !== undefined && { cursor: { id: query.cursor }, skip: 1 }),
+        });
+
+        const items = entries.slice(0, limit);
+
+        return {
+            items: items.map(transformAuditLogToResponse),
+            nextCursor: entries.length > limit ? items[items.length - 1]?.id ?? null : null,
+        };
+    }
+
+    /**
+     * Every matching entry, oldest first, read in batches so large exports aren't held in memory
+     */
+    async *stream(filter: AuditLogFilter): AsyncGenerator<AuditLogResponse> {
+        const where = this.buildWhere(filter);
+        let cursor: string | undefined;
+
+        do {
+            const batch = await prisma.auditLog.findMany({
+                where,
+                orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+                take: AUDIT_EXPORT_BATCH_SIZE,
+                ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+            });
+
+            for (const entry of batch) {
+                yield transformAuditLogToResponse(entry);
+            }
+
+            cursor = batch.length === AUDIT_EXPORT_BATCH_SIZE ? batch[batch.length - 1]?.id : undefined;
+        } while (cursor !== undefined);
+    }
+
+    /**
+     * A user's recent security activity: sign-ins, credential and account changes,
+     * whether they made them or they were made to their account
+     */
+    async listRecentActivity(userId: string, limit: number = 20): Promise<AuditLogResponse[]> {
+        const entries = await prisma.auditLog.findMany({
+            where: {
+                action: { in: [...SECURITY_ACTIONS] },
+                OR: [{ userId }, { resource: `user:${userId}` }],
+            },
+            orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+            take: limit,
+        });
+
+        return entries.map(transformAuditLogToResponse);
+    }
+
+    /**
+     * Remove entries older than AUDIT_RETENTION_DAYS, appending them to a daily NDJSON file in
+     * AUDIT_ARCHIVE_DIR first unless the mode is 'purge'. Does nothing when retention is off.
+     * Only a leading run of the chain is removed, and an audit_logs_retired entry records the hash
+     * of its last entry, so verification can tell retention from deletion.
+     */
+    async applyRetention(): Promise<number> {
+        if (ENV.AUDIT_RETENTION_DAYS <= 0) {
+            return 0;
+        }
+
+        const cutoff = new Date(Date.now() - ENV.AUDIT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+        const boundary = await prisma.auditLog.findFirst({
+            where: { createdAt: { lt: cutoff }, sequence: { not: null } },
+            orderBy: { sequence: 'desc' },
+            select: { sequence: true, hash: true },
+        });
+
+        const where: Prisma.AuditLogWhereInput = {
+            OR: [
+                { sequence: null, createdAt: { lt: cutoff } },
+                ...(boundary?.sequence != null ? [{ sequence: { lte: boundary.sequence } }] : []),
+            ],
+        };
+
+        const retired = ENV.AUDIT_RETENTION_MODE === 'purge'
+            ? (await prisma.auditLog.deleteMany({ where })).count
+            : await this.archive(where);
+
+        if (boundary?.sequence != null) {
+            await authService.logAuditEvent(null, 'audit_logs_retired', {
+                mode: ENV.AUDIT_RETENTION_MODE,
+                count: retired,
+                throughSequence: boundary.sequence,
+                throughHash: boundary.hash,
+            });
+        }
+
+        return retired;
+    }
+
+    /**
+     * Strip personal data from entries (GDPR erasure). Chained entries keep their hash, which no
+     * longer matches their content, and are marked as redacted; the caller records the returned
+     * sequence numbers as details.redactedSequences of a new entry, which vouches for the redaction.
+     */
+    async redactEntries(tx: Prisma.TransactionClient, where: Prisma.AuditLogWhereInput): Promise<number[]> {
+        const entries = await tx.auditLog.findMany({
+            where,
+            select: { id: true, sequence: true, details: true },
+        });
+
+        const redactedAt = new Date();
+
+        for (const entry of entries) {
+            await tx.auditLog.update({
+                where: { id: entry.id },
+                data: {
+                    ipAddress: null,
+                    userAgent: null,
+                    details: entry.details === null ? Prisma.DbNull : anonymiseAuditDetails(entry.details) as Prisma.InputJsonValue,
+                    redactedAt,
+                },
+            });
+        }
+
+        return entries.flatMap(entry => (entry.sequence === null ? [] : [entry.sequence]));
+    }
+
+    /**
+     * Sign the current head of the chain (run periodically, e.g. by the maintenance job).
+     * Returns false when there is nothing new to sign.
+     */
+    async createCheckpoint(): Promise<boolean> {
+        const head = await this.findHead();
+
+        if (!head || head.hash === null) {
+            return false;
+        }
+
+        const written = await prisma.auditCheckpoint.createMany({
+            data: [{
+                sequence: head.sequence,
+                hash: head.hash,
+                signature: signAuditCheckpoint(this.signingKey, head.sequence, head.hash),
+            }],
+            skipDuplicates: true,
+        });
+
+        return written.count === 1;
+    }
+
+    /**
+     * Walk the chain from its first remaining entry and report the first broken link: a missing
+     * entry, a hash that doesn't match the content or the previous entry, a redaction or retention
+     * nothing vouches for, or a checkpoint that is forged or disagrees with the chain
+     */
+    async verifyChain(): Promise<AuditChainVerification> {
+        const checkpoints = await prisma.auditCheckpoint.findMany({ orderBy: { sequence: 'asc' } });
+        const checkpointHashes = new Map(checkpoints.map(checkpoint => [checkpoint.sequence, checkpoint.hash]));
+
+        const breaks: AuditChainBreak[] = [];
+        const vouchedRedactions = new Set<number>();
+        const retentions = new Map<number, string>(); // throughSequence -> throughHash
+        const redacted: ChainedAuditLog[] = [];
+        let first: ChainedAuditLog | null = null;
+        let last: ChainedAuditLog | null = null;
+        let checkedEntries = 0;
+        let linkBroken = false;
+
+        while (!linkBroken) {
+            const batch = await prisma.auditLog.findMany({
+                where: { sequence: last ? { gt: last.sequence } : { not: null } },
+                orderBy: { sequence: 'asc' },
+                take: AUDIT_CHAIN.VERIFY_BATCH_SIZE,
+            }) as ChainedAuditLog[];
+
+            for (const entry of batch) {
+                const problem = this.checkLink(entry, last, checkpointHashes);
+
+                if (problem) {
+                    breaks.push(problem);
+                    linkBroken = true;
+                    break;
+                }
+
+                first ??= entry;
+                last = entry;
+                checkedEntries++;
+
+                if (entry.redactedAt !== null) {
+                    redacted.push(entry);
+                }
+                this.collectVouchers(entry, vouchedRedactions, retentions);
+            }
+
+            if (batch.length < AUDIT_CHAIN.VERIFY_BATCH_SIZE) {
+                break;
+            }
+        }
+
+        // Entries before the first one may only be gone through retention
+        if (first && first.sequence > 1 && retentions.get(first.sequence - 1) !== first.prevHash) {
+            breaks.push({ sequence: first.sequence - 1, entryId: null, reason: 'Earlier entries were removed without a retention record' });
+        }
+
+        for (const entry of redacted) {
+            if (!vouchedRedactions.has(entry.sequence)) {
+                breaks.push({ sequence: entry.sequence, entryId: entry.id, reason: 'Entry was altered without an erasure record' });
+            }
+        }
+
+        const lastSequence = last?.sequence ?? 0;
+
+        for (const checkpoint of checkpoints) {
+            if (signAuditCheckpoint(this.signingKey, checkpoint.sequence, checkpoint.hash) !== checkpoint.signature) {
+                breaks.push({ sequence: checkpoint.sequence, entryId: null, reason: 'Checkpoint signature is invalid' });
+            } else if (!linkBroken && checkpoint.sequence > lastSequence) {
+                breaks.push({ sequence: lastSequence + 1, entryId: null, reason: `Entries up to signed checkpoint ${checkpoint.sequence} are missing` });
+            }
+        }
+
+        const unchainedEntries = first
+            ? await prisma.auditLog.count({ where: { sequence: null, createdAt: { gte: first.createdAt } } })
+            : 0;
+
+        const brokenLink = breaks.sort((a, b) => a.sequence - b.sequence)[0] ?? null;
+
+        return {
+            valid: brokenLink === null && unchainedEntries === 0,
+            checkedEntries,
+            checkedCheckpoints: checkpoints.length,
+            firstSequence: first?.sequence ?? null,
+            lastSequence: last?.sequence ?? null,
+            unchainedEntries,
+            brokenLink,
+        };
+    }
+
+    /**
+     * Move matching entries to today's archive file, deleting each batch once it is on disk
+     */
+    private async archive(where: Prisma.AuditLogWhereInput): Promise<number> {
+        await fs.promises.mkdir(ENV.AUDIT_ARCHIVE_DIR, { recursive: true });
+        const archiveFile = path.join(ENV.AUDIT_ARCHIVE_DIR, `audit-${new Date().toISOString().slice(0, 10)}.ndjson`);
+        let archived = 0;
+
+        // Each batch is deleted only once it is on disk, so a failed write loses nothing
+        for (;;) {
+            const batch = await prisma.auditLog.findMany({
+                where,
+                orderBy: [{ sequence: 'asc' }, { createdAt: 'asc' }],
+                take: AUDIT_EXPORT_BATCH_SIZE,
+            });
+
+            if (batch.length === 0) {
+                break;
+            }
+
+            const lines = batch.map(entry => JSON.stringify(transformAuditLogToResponse(entry)) + '\n');
+            await fs.promises.appendFile(archiveFile, lines.join(''));
+
+            await prisma.auditLog.deleteMany({
+                where: { id: { in: batch.map(entry => entry.id) } },
+            });
+
+            archived += batch.length;
+        }
+
+        if (archived > 0) {
+            logger.info(`Archived ${archived} audit entries to ${archiveFile}`);
+        }
+
+        return archived;
+    }
+
+    /**
+     * Latest entry of the chain
+     */
+    private async findHead(): Promise<Pick<ChainedAuditLog, 'sequence' | 'hash'> | null> {
+        return await prisma.auditLog.findFirst({
+            where: { sequence: { not: null } },
+            orderBy: { sequence: 'desc' },
+            select: { sequence: true, hash: true },
+        }) as Pick<ChainedAuditLog, 'sequence' | 'hash'> | null;
+    }
+
+    /**
+     * What is wrong with an entry given the one before it, if anything
+     */
+    private checkLink(
+        entry: ChainedAuditLog,
+        previous: ChainedAuditLog | null,
+        checkpointHashes: Map<number, string>
+    ): AuditChainBreak | null {
+        const fail = (reason: string): AuditChainBreak => ({ sequence: entry.sequence, entryId: entry.id, reason });
+
+        if (previous === null) {
+            if (entry.sequence === 1 && entry.prevHash !== null) {
+                return fail('First entry points to a previous entry');
+            }
+        } else if (entry.sequence !== previous.sequence + 1) {
+            return { sequence: previous.sequence + 1, entryId: null, reason: 'Entry is missing' };
+        } else if (entry.prevHash !== previous.hash) {
+            return fail('Previous hash does not match the previous entry');
+        }
+
+        // A redacted entry can't be rehashed; the next entry's prevHash still pins its hash
+        if (entry.redactedAt === null && hashAuditEntry(entry.prevHash, this.toChainedContent(entry)) !== entry.hash) {
+            return fail('Content does not match its hash');
+        }
+
+        const checkpointHash = checkpointHashes.get(entry.sequence);
+        if (checkpointHash !== undefined && checkpointHash !== entry.hash) {
+            return fail('Hash does not match the signed checkpoint');
+        }
+
+        return null;
+    }
+
+    /**
+     * Note the redactions and retentions an entry vouches for
+     */
+    private collectVouchers(entry: ChainedAuditLog, redactions: Set<number>, retentions: Map<number, string>): void {
+        const details = entry.details;
+
+        if (details === null || typeof details !== 'object' || Array.isArray(details)) {
+            return;
+        }
+
+        if (Array.isArray(details.redactedSequences)) {
+            for (const sequence of details.redactedSequences) {
+                if (typeof sequence === 'number') {
+                    redactions.add(sequence);
+                }
+            }
+        }
+
+        if (entry.action === 'audit_logs_retired'
+            && typeof details.throughSequence === 'number'
+            && typeof details.throughHash === 'string') {
+            retentions.set(details.throughSequence, details.throughHash);
+        }
+    }
+
+    private toChainedContent(entry: ChainedAuditLog): ChainedAuditContent {
+        return {
+            sequence: entry.sequence,
+            userId: entry.userId,
+            action: entry.action,
+            resource: entry.resource,
+            details: entry.details,
+            ipAddress: entry.ipAddress,
+            userAgent: entry.userAgent,
+            requestId: entry.requestId,
+            createdAt: entry.createdAt,
+        };
+    }
+
+    private buildWhere(filter: AuditLogFilter): Prisma.AuditLogWhereInput {
+        const actions = filter.action?.split(',').map(action => action.trim()).filter(Boolean);
+
+        return {
+            ...(filter.userId !== undefined && { userId: filter.userId }),
+            ...(actions?.length && { action: { in: actions } }),
+            ...(filter.resource !== undefined && {
+                resource: filter.resource.endsWith('*')
+                    ? { startsWith: filter.resource.slice(0, -1) }
+                    : filter.resource,
+            }),
+            ...(filter.ipAddress !== undefined && { ipAddress: filter.ipAddress }),
+            ...(filter.requestId !== undefined && { requestId: filter.requestId }),
+            ...((filter.from !== undefined || filter.to !== undefined) && {
+                createdAt: {
+                    ...(filter.from !== undefined && { gte: new Date(filter.from) }),
+                    ...(filter.to !== undefined && { lt: new Date(filter.to) }),
+                },
+            }),
+        };
+    }
+}
+
+/******************************************************************************
+                                Export
+******************************************************************************/
+
+const auditService = new AuditService();
+export default auditService;
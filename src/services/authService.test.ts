@@ -0,0 +1,224 @@
+import bcrypt from 'bcryptjs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { UnauthorizedError } from '@src/common/errors/ApiErrors';
+import { AUTH_CONFIG } from '@src/common/constants/authConfig';
+import type { MemoryTransport } from '@src/common/mail/transports';
+import { prisma } from '@src/common/utils/prisma';
+import { resetMemoryPrisma } from '@src/test/memoryPrisma';
+import { AUTH_ERRORS, type AuthTokens } from '@src/models/auth';
+import type { User } from '@src/generated/prisma';
+import authService from './authService';
+import loginThrottleService from './loginThrottleService';
+import mailService from './mailService';
+import roleService from './roleService';
+import signingKeyService from './signingKeyService';
+
+vi.mock('@src/common/utils/prisma', async () => {
+    const { createMemoryPrisma } = await import('@src/test/memoryPrisma');
+    return { prisma: createMemoryPrisma() };
+});
+
+const password = 'correct horse battery staple';
+
+// A low bcrypt cost keeps sign-in fast; login compares at whatever cost the hash was made with
+const createUser = (email: string) => prisma.user.create({
+    data: { email, password: bcrypt.hashSync(password, 4) },
+});
+
+const signIn = async (user: User): Promise<AuthTokens> => {
+    const result = await authService.login({ email: user.email, password, rememberMe: false });
+    if (!('tokens' in result)) {
+        throw new Error('Expected tokens, got a second factor challenge');
+    }
+    return result.tokens;
+};
+
+const sessionOf = async (tokens: AuthTokens) => {
+    const { sessionId } = await authService.verifyToken(tokens.accessToken);
+    return prisma.session.findUniqueOrThrow({ where: { id: sessionId } });
+};
+
+describe('authService refresh tokens', () => {
+    let user: User;
+    const transport = mailService.getTransport() as MemoryTransport;
+
+    beforeEach(async () => {
+        resetMemoryPrisma(prisma);
+        transport.clear();
+        user = await createUser('ada@example.com');
+    });
+
+    it('rotates the refresh token on every use', async () => {
+        const first = await signIn(user);
+
+        const { tokens: second } = await authService.refreshToken({ refreshToken: first.refreshToken });
+        const { tokens: third } = await authService.refreshToken({ refreshToken: second.refreshToken });
+
+        expect(new Set([first.refreshToken, second.refreshToken, third.refreshToken]).size).toBe(3);
+
+        // One family: each token is chained to the one it replaced, and only the newest is unused
+        const session = await sessionOf(third);
+        const family = await prisma.refreshToken.findMany({ where: { sessionId: session.id }, orderBy: { createdAt: 'asc' } });
+        expect(family).toHaveLength(3);
+        expect(family.map(token => token.parentId)).toEqual([null, family[0]!.id, family[1]!.id]);
+        expect(family.map(token => token.rotatedAt === null)).toEqual([false, false, true]);
+    });
+
+    it('revokes the whole family when a rotated token is replayed', async () => {
+        const stolen = await signIn(user);
+        const { tokens: current } = await authService.refreshToken({ refreshToken: stolen.refreshToken });
+        const session = await sessionOf(current);
+
+        await expect(authService.refreshToken({ refreshToken: stolen.refreshToken }))
+            .rejects.toThrow(new UnauthorizedError(AUTH_ERRORS.INVALID_TOKEN));
+
+        // The legitimate holder's newer token dies with the family
+        await expect(authService.refreshToken({ refreshToken: current.refreshToken }))
+            .rejects.toThrow(new UnauthorizedError(AUTH_ERRORS.INVALID_TOKEN));
+        expect(await prisma.session.findUnique({ where: { id: session.id } })).toMatchObject({ isRevoked: true });
+
+        await mailService.drain();
+        expect(transport.lastTo(user.email)?.subject).toBe('Suspicious activity on your account');
+        expect(await prisma.auditLog.count({ where: { action: 'token_reuse_detected', userId: user.id } })).toBe(1);
+    });
+
+    it('lets only one of two concurrent refreshes with the same token through', async () => {
+        const tokens = await signIn(user);
+
+        const results = await Promise.allSettled([
+            authService.refreshToken({ refreshToken: tokens.refreshToken }),
+            authService.refreshToken({ refreshToken: tokens.refreshToken }),
+        ]);
+
+        expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+        expect(await prisma.session.count({ where: { userId: user.id, isRevoked: true } })).toBe(1);
+    });
+
+    it('leaves the user\'s other sessions alone', async () => {
+        const stolen = await signIn(user);
+        const other = await signIn(user);
+        await authService.refreshToken({ refreshToken: stolen.refreshToken });
+
+        await expect(authService.refreshToken({ refreshToken: stolen.refreshToken })).rejects.toThrow(UnauthorizedError);
+
+        await expect(authService.refreshToken({ refreshToken: other.refreshToken })).resolves.toHaveProperty('tokens');
+    });
+
+    it('rejects unknown tokens and tokens of deactivated users', async () => {
+        const tokens = await signIn(user);
+
+        await expect(authService.refreshToken({ refreshToken: 'not-a-token' }))
+            .rejects.toThrow(new UnauthorizedError(AUTH_ERRORS.INVALID_TOKEN));
+
+        await prisma.user.update({ where: { id: user.id }, data: { isActive: false } });
+        await expect(authService.refreshToken({ refreshToken: tokens.refreshToken }))
+            .rejects.toThrow(new UnauthorizedError(AUTH_ERRORS.USER_INACTIVE));
+    });
+});
+
+describe('authService access tokens', () => {
+    let user: User;
+
+    // A correctly signed access token with chosen claims
+    const forge = (claims: object) => signingKeyService.sign(
+        { iss: AUTH_CONFIG.issuer, aud: AUTH_CONFIG.audience, jti: randomUUID(), ...claims },
+        AUTH_CONFIG.accessTokenTtl
+    );
+
+    beforeEach(async () => {
+        resetMemoryPrisma(prisma);
+        user = await createUser('ada@example.com');
+    });
+
+    it('accepts a token bound to a live session', async () => {
+        const tokens = await signIn(user);
+
+        const verified = await authService.verifyToken(tokens.accessToken);
+
+        expect(verified.user).toMatchObject({ id: user.id, email: user.email });
+        expect(verified.sessionId).toBe((await sessionOf(tokens)).id);
+        expect(verified.expiresAt.getTime()).toBeGreaterThan(Date.now() + (AUTH_CONFIG.accessTokenTtl - 5) * 1000);
+    });
+
+    it('denies a token as soon as its session logs out', async () => {
+        const tokens = await signIn(user);
+        const other = await signIn(user);
+        const verified = await authService.verifyToken(tokens.accessToken);
+
+        await authService.logout({ ...verified, userId: user.id });
+
+        await expect(authService.verifyToken(tokens.accessToken))
+            .rejects.toThrow(new UnauthorizedError(AUTH_ERRORS.TOKEN_REVOKED));
+        await expect(authService.verifyToken(other.accessToken)).resolves.toHaveProperty('tokenId');
+    });
+
+    it('denies a single token by its id', async () => {
+        const tokens = await signIn(user);
+        const { tokenId, sessionId, expiresAt } = await authService.verifyToken(tokens.accessToken);
+
+        await authService.revokeAccessToken(tokenId, expiresAt);
+
+        await expect(authService.verifyToken(tokens.accessToken))
+            .rejects.toThrow(new UnauthorizedError(AUTH_ERRORS.TOKEN_REVOKED));
+
+        // A new token for the same session has another id
+        const { tokens: refreshed } = await authService.refreshToken({ refreshToken: tokens.refreshToken });
+        await expect(authService.verifyToken(refreshed.accessToken)).resolves.toMatchObject({ sessionId });
+    });
+
+    it('denies tokens of a revoked or expired session', async () => {
+        const tokens = await signIn(user);
+        const session = await sessionOf(tokens);
+
+        await prisma.session.update({ where: { id: session.id }, data: { expiresAt: new Date(Date.now() - 1000) } });
+        await expect(authService.verifyToken(tokens.accessToken))
+            .rejects.toThrow(new UnauthorizedError(AUTH_ERRORS.SESSION_EXPIRED));
+
+        await prisma.session.update({ where: { id: session.id }, data: { isRevoked: true } });
+        await expect(authService.verifyToken(tokens.accessToken))
+            .rejects.toThrow(new UnauthorizedError(AUTH_ERRORS.TOKEN_REVOKED));
+    });
+
+    it('denies a token whose session belongs to someone else', async () => {
+        const session = await sessionOf(await signIn(user));
+        const mallory = await createUser('mallory@example.com');
+
+        const token = await forge({ sub: mallory.id, sid: session.id });
+
+        await expect(authService.verifyToken(token)).rejects.toThrow(new UnauthorizedError(AUTH_ERRORS.TOKEN_REVOKED));
+    });
+
+    it('rejects tokens without a session or token id', async () => {
+        const session = await sessionOf(await signIn(user));
+
+        await expect(authService.verifyToken(await forge({ sub: user.id, jti: undefined, sid: session.id })))
+            .rejects.toThrow(new UnauthorizedError(AUTH_ERRORS.INVALID_TOKEN));
+        await expect(authService.verifyToken(await forge({ sub: user.id })))
+            .rejects.toThrow(new UnauthorizedError(AUTH_ERRORS.INVALID_TOKEN));
+    });
+});
+
+describe('authService maintenance', () => {
+    beforeEach(() => {
+        resetMemoryPrisma(prisma);
+        vi.restoreAllMocks();
+    });
+
+    it('runs every job', async () => {
+        await prisma.session.create({
+            data: { userId: 'user-1', expiresAt: new Date(Date.now() - 1000) },
+        });
+
+        await expect(authService.cleanExpiredSessions()).resolves.toBeUndefined();
+        expect(await prisma.session.count()).toBe(0);
+    });
+
+    it('runs the remaining jobs when one fails, then reports the failure', async () => {
+        vi.spyOn(loginThrottleService, 'purgeStale').mockRejectedValue(new Error('database unavailable'));
+        const purgeAssignments = vi.spyOn(roleService, 'purgeExpiredAssignments');
+
+        await expect(authService.cleanExpiredSessions()).rejects.toThrow('Maintenance jobs failed: login throttles');
+        expect(purgeAssignments).toHaveBeenCalled();
+    });
+});
@@ -1,32 +1,53 @@
 import bcrypt from 'bcryptjs';
-import jwt, { JwtPayload } from 'jsonwebtoken';
-import { randomBytes } from 'crypto';
-import { UnauthorizedError, NotFoundError } from '@src/common/errors/ApiErrors';
+import { randomUUID } from 'crypto';
+import { UnauthorizedError, NotFoundError, ForbiddenError, BadRequestError, ConflictError, TooManyRequestsError } from '@src/common/errors/ApiErrors';
 import logger from '@src/common/utils/logger';
 import { prisma } from '@src/common/utils/prisma';
-import { LoginRequest, AuthResponse, AUTH_ERRORS, RefreshTokenRequest, ChangePasswordRequest, JWT_CONFIG, SESSION_EXPIRY, RegisterRequest } from '@src/models/auth';
-import { transformUserToResponse, UserWithRoles } from '@src/models/user';
+import { generateOpaqueToken, hashToken } from '@src/common/utils/tokens';
+import { ENV } from '@src/common/constants/env';
+import { AUTH_CONFIG } from '@src/common/constants/authConfig';
+import { describeUserAgent } from '@src/common/utils/userAgent';
+import { LoginRequest, AuthResponse, AUTH_ERRORS, RefreshTokenRequest, ChangePasswordRequest, RegisterRequest, RegisterResponse, EMAIL_VERIFICATION, VerifyEmailRequest, ResendVerificationRequest, PASSWORD_RESET, ForgotPasswordRequest, ResetPasswordRequest, ClientInfo, JwtPayload, AuthTokens, VerifiedAccessToken, type AccessTokenClaimBuilder } from '@src/models/auth';
+import { getDisplayName, transformUserToResponse, userRolesInclude, UserWithRoles } from '@src/models/user';
+import { idleCutoff, isSessionExpired } from '@src/models/session';
+import type { User } from '@src/generated/prisma';
+import { getRateLimitStore } from '@src/common/middlewares/rateLimiter';
+import { MemoryDenylistStore, PostgresDenylistStore, type TokenDenylistStore } from '@src/common/auth/tokenDenylist';
+import { JwtError, JwtExpiredError, type JwtClaims } from '@src/common/auth/jwt';
+import { MFA_CONFIG, MFA_ERRORS, type LoginResponse, type MfaChallengePayload, type MfaChallengeResponse, type MfaChallengeType, type MfaConfirmResponse, type MfaDisableRequest, type MfaEnrollmentResponse, type MfaMethod, type MfaVerifyRequest } from '@src/models/mfa';
+import type { PasskeyLoginOptionsRequest, PasskeyLoginRequest, PasskeyRegisterRequest, PasskeyResponse } from '@src/models/passkey';
+import type { AuthenticationResponseJSON, PublicKeyCredentialCreationOptionsJSON, PublicKeyCredentialRequestOptionsJSON, RegistrationResponseJSON } from '@simplewebauthn/server';
+import { OIDC_ERRORS, transformIdentityToResponse, type ExternalProfile, type IdentityResponse, type OidcCallbackRequest, type OidcCallbackResponse, type OidcProviderInfo } from '@src/models/oidc';
+import mailService from './mailService';
+import mfaService from './mfaService';
+import passkeyService from './passkeyService';
+import oidcService from './oidcService';
+import loginThrottleService from './loginThrottleService';
+import roleService from './roleService';
+import emailChangeService from './emailChangeService';
+import accountService from './accountService';
+import auditService from './auditService';
+import signingKeyService from './signingKeyService';
 
 /******************************************************************************
                             Authentication Service
 ******************************************************************************/
 
 class AuthService {
-    private readonly jwtSecret: string;
     private readonly saltRounds = 12;
+    private denylist: TokenDenylistStore;
+    private claimBuilders: AccessTokenClaimBuilder[] = [];
 
     constructor() {
-        this.jwtSecret = process.env.JWT_SECRET || 'your-secret-key';
-        if (process.env.NODE_ENV === 'production' && this.jwtSecret === 'your-secret-key') {
-            logger.info('JWT_SECRET environment variable is not set for production');
-            throw new Error('JWT_SECRET must be set in production');
-        }
+        this.denylist = ENV.TOKEN_DENYLIST_STORE === 'postgres'
+            ? new PostgresDenylistStore()
+            : new MemoryDenylistStore();
     }
 
     /**
      * Register new user (OPTIONAL - remove if not needed)
      */
-    async register(data: RegisterRequest): Promise<AuthResponse> {
+    async register(data: RegisterRequest, client: ClientInfo = {}): Promise<RegisterResponse> {
         logger.info(`Registration attempt for email: ${data.email}`);
 
         // Check if user already exists
@@ -55,54 +76,59 @@ class AuthService {
         const user = await prisma.user.create({
             data: {
                 email: data.email,
-                username: data.username,
+                username: data.username ?? null,
                 password: hashedPassword,
-                firstName: data.firstName,
-                lastName: data.lastName,
-            },
-            include: {
-                userRoles: {
-                    include: {
-                        role: true,
-                    },
-                },
+                firstName: data.firstName ?? null,
+                lastName: data.lastName ?? null,
+                locale: data.locale ?? null,
             },
+            include: userRolesInclude(),
         });
 
-        // Generate tokens and create session
-        const tokens = await this.generateTokens(user);
-        await this.createSession(user.id, tokens.refreshToken);
-
         // Log audit event
         await this.logAuditEvent(user.id, 'register');
 
+        // Send verification email (a failure here must not fail the registration)
+        try {
+            await this.issueVerificationToken(user);
+        } catch (error) {
+            logger.err('Failed to issue verification token: ' + String(error));
+        }
+
         logger.info(`User registered successfully: ${user.id}`);
 
+        if (!this.isLoginAllowedUnverified(user)) {
+            return {
+                user: transformUserToResponse(user),
+                verificationRequired: true,
+            };
+        }
+
+        // Create session and generate tokens
+        const tokens = await this.createSession(user, false, client);
+
         return {
             user: transformUserToResponse(user),
             tokens,
+            verificationRequired: false,
         };
     }
 
     /**
-     * Login user
+     * Login user.
+     * Returns a short-lived MFA challenge instead of tokens when a second factor is required.
      */
-    async login(data: LoginRequest): Promise<AuthResponse> {
+    async login(data: LoginRequest, client: ClientInfo = {}): Promise<LoginResponse> {
         logger.info(`Login attempt for email: ${data.email}`);
 
+        // Refuse locked-out or too-fast retries before spending a bcrypt comparison
+        await loginThrottleService.check(data.email, client.ipAddress);
+
         // Find user with roles
-        const user = await prisma.user.findUnique({
-            where: { email: data.email },
-            include: {
-                userRoles: {
-                    include: {
-                        role: true,
-                    },
-                },
-            },
-        });
+        const user = await this.findUserWithRoles({ email: data.email });
 
         if (!user) {
+            await this.recordFailedLogin(null, data.email, client, 'login_failed', { reason: 'unknown_email' });
             throw new UnauthorizedError(AUTH_ERRORS.INVALID_CREDENTIALS);
         }
 
@@ -110,277 +136,1259 @@ class AuthService {
             throw new UnauthorizedError(AUTH_ERRORS.USER_INACTIVE);
         }
 
-        // Verify password
-        const isValidPassword = await bcrypt.compare(data.password, user.password);
+        // Verify password (social-only accounts have none)
+        const isValidPassword = user.password !== null && await bcrypt.compare(data.password, user.password);
         if (!isValidPassword) {
+            await this.recordFailedLogin(user, data.email, client, 'login_failed', { reason: 'invalid_password' });
             throw new UnauthorizedError(AUTH_ERRORS.INVALID_CREDENTIALS);
         }
 
-        // Update last login
-        await prisma.user.update({
-            where: { id: user.id },
-            data: { lastLogin: new Date() },
-        });
-
-        // Generate tokens and create session
-        const tokens = await this.generateTokens(user);
-        await this.createSession(user.id, tokens.refreshToken, data.rememberMe);
+        await loginThrottleService.recordSuccess(data.email);
 
-        // Log audit event
-        await this.logAuditEvent(user.id, 'login');
+        // Enforce email verification policy (only after the password is proven, so it can't be used to probe accounts)
+        if (!user.emailVerifiedAt && !this.isLoginAllowedUnverified(user)) {
+            throw new ForbiddenError(AUTH_ERRORS.EMAIL_NOT_VERIFIED);
+        }
 
-        logger.info(`User logged in successfully: ${user.id}`);
+        // Ask for a second factor (or enforced enrollment) before issuing tokens
+        const challenge = await this.getMfaChallenge(user, data.rememberMe);
+        if (challenge) {
+            return challenge;
+        }
 
-        return {
-            user: transformUserToResponse(user),
-            tokens,
-        };
+        return this.completeLogin(user, data.rememberMe, client, 'password');
     }
 
     /**
-     * Refresh access token
+     * Second login step: exchange a challenge token and a TOTP/recovery code for tokens
      */
-    async refreshToken(data: RefreshTokenRequest): Promise<AuthResponse> {
-        logger.info('Token refresh attempt');
+    async verifyMfaChallenge(data: MfaVerifyRequest, client: ClientInfo = {}): Promise<AuthResponse> {
+        logger.info('MFA verification attempt');
 
-        // Find session with user
-        const session = await prisma.session.findUnique({
-            where: { refreshToken: data.refreshToken },
-            include: {
-                user: {
-                    include: {
-                        userRoles: {
-                            include: {
-                                role: true,
-                            },
-                        },
-                    },
-                },
-            },
-        });
+        const challenge = await this.decodeMfaChallenge(data.challengeToken, 'mfa_required');
+        const user = await this.findUserWithRoles({ id: challenge.sub });
 
-        if (!session || session.isRevoked || session.expiresAt < new Date()) {
-            throw new UnauthorizedError(AUTH_ERRORS.INVALID_TOKEN);
+        if (!user || !user.isActive) {
+            throw new UnauthorizedError(MFA_ERRORS.INVALID_CHALLENGE);
         }
 
-        if (!session.user.isActive) {
-            throw new UnauthorizedError(AUTH_ERRORS.USER_INACTIVE);
+        // Codes are short, so guesses count against the same limits as passwords
+        await loginThrottleService.check(user.email, client.ipAddress);
+
+        const method = await mfaService.verifyCode(user, data.code);
+        if (!method) {
+            await this.recordFailedLogin(user, user.email, client, 'mfa_failed');
+            throw new UnauthorizedError(MFA_ERRORS.INVALID_CODE);
         }
 
-        // Generate new tokens
-        const tokens = await this.generateTokens(session.user);
+        await loginThrottleService.recordSuccess(user.email);
 
-        // Update session with new refresh token
-        await prisma.session.update({
-            where: { id: session.id },
-            data: {
-                refreshToken: tokens.refreshToken,
-                updatedAt: new Date(),
-            },
-        });
+        return this.completeLogin(user, challenge.rememberMe, client, method);
+    }
 
-        logger.info(`Token refreshed for user: ${session.user.id}`);
+    /**
+     * Start TOTP enrollment for the user
+     */
+    async startMfaEnrollment(user: UserWithRoles): Promise<MfaEnrollmentResponse> {
+        logger.info(`MFA enrollment started for user: ${user.id}`);
 
-        return {
-            user: transformUserToResponse(session.user),
-            tokens,
-        };
+        const enrollment = await mfaService.startEnrollment(user);
+
+        // Log audit event
+        await this.logAuditEvent(user.id, 'mfa_enrollment_started');
+
+        return enrollment;
     }
 
     /**
-     * Logout user (revoke session)
+     * Confirm TOTP enrollment. When enrollment was enforced during login, this also completes that login.
      */
-    async logout(refreshToken: string): Promise<void> {
-        logger.info('Logout attempt');
+    async confirmMfaEnrollment(
+        user: UserWithRoles,
+        code: string,
+        pendingLogin?: { rememberMe: boolean },
+        client: ClientInfo = {}
+    ): Promise<MfaConfirmResponse> {
+        logger.info(`MFA enrollment confirmation for user: ${user.id}`);
 
-        const session = await prisma.session.findUnique({
-            where: { refreshToken },
-        });
+        const recoveryCodes = await mfaService.confirmEnrollment(user, code);
 
-        if (session) {
-            await prisma.session.update({
-                where: { id: session.id },
-                data: { isRevoked: true },
-            });
+        // Log audit event
+        await this.logAuditEvent(user.id, 'mfa_enabled');
 
-            // Log audit event
-            await this.logAuditEvent(session.userId, 'logout');
+        const session = pendingLogin
+            ? await this.completeLogin(user, pendingLogin.rememberMe, client, 'totp')
+            : null;
+
+        return { recoveryCodes, session };
+    }
+
+    /**
+     * Resolve the user behind an enforced-enrollment challenge token
+     */
+    async getMfaEnrollmentChallengeUser(challengeToken: string): Promise<{ user: UserWithRoles; rememberMe: boolean }> {
+        const challenge = await this.decodeMfaChallenge(challengeToken, 'mfa_enrollment_required');
+        const user = await this.findUserWithRoles({ id: challenge.sub });
 
-            logger.info(`User logged out: ${session.userId}`);
+        if (!user || !user.isActive) {
+            throw new UnauthorizedError(MFA_ERRORS.INVALID_CHALLENGE);
         }
+
+        return { user, rememberMe: challenge.rememberMe };
     }
 
     /**
-     * Change user password
+     * Disable two-factor authentication (requires a current code, and the password if the account has one)
      */
-    async changePassword(
-        userId: string,
-        data: ChangePasswordRequest
-    ): Promise<void> {
-        logger.info(`Password change attempt for user: ${userId}`);
+    async disableMfa(userId: string, data: MfaDisableRequest): Promise<void> {
+        logger.info(`MFA disable attempt for user: ${userId}`);
 
-        const user = await prisma.user.findUnique({
-            where: { id: userId },
-        });
+        const user = await this.findUserWithRoles({ id: userId });
 
         if (!user) {
             throw new NotFoundError(AUTH_ERRORS.USER_NOT_FOUND);
         }
 
-        // Verify current password
-        const isValidPassword = await bcrypt.compare(data.currentPassword, user.password);
-        if (!isValidPassword) {
-            throw new UnauthorizedError('Current password is incorrect');
+        if (!mfaService.isEnabled(user)) {
+            throw new BadRequestError(MFA_ERRORS.NOT_ENABLED);
         }
 
-        // Hash new password
-        const hashedPassword = await bcrypt.hash(data.newPassword, this.saltRounds);
+        // A passkey still satisfies the role's requirement once TOTP is gone
+        if (mfaService.isRequiredByRole(user) && !(await passkeyService.hasCredentials(user.id))) {
+            throw new ForbiddenError(MFA_ERRORS.REQUIRED_BY_ROLE);
+        }
 
-        // Update password and revoke all sessions
-        await prisma.$transaction(async (tx) => {
-            await tx.user.update({
-                where: { id: userId },
-                data: { password: hashedPassword },
-            });
+        if (user.password !== null && !(data.password && await bcrypt.compare(data.password, user.password))) {
+            throw new UnauthorizedError(AUTH_ERRORS.INCORRECT_PASSWORD);
+        }
 
-            // Revoke all user sessions to force re-login
-            await tx.session.updateMany({
-                where: { userId, isRevoked: false },
-                data: { isRevoked: true },
-            });
-        });
+        if (!(await mfaService.verifyCode(user, data.code))) {
+            await this.logAuditEvent(user.id, 'mfa_failed');
+            throw new UnauthorizedError(MFA_ERRORS.INVALID_CODE);
+        }
+
+        await mfaService.disable(user.id);
 
         // Log audit event
-        await this.logAuditEvent(userId, 'password_change');
+        await this.logAuditEvent(user.id, 'mfa_disabled');
 
-        logger.info(`Password changed for user: ${userId}`);
+        logger.info(`MFA disabled for user: ${user.id}`);
     }
 
     /**
-     * Verify JWT token and get user
+     * Replace recovery codes (requires a current code)
      */
-    async verifyToken(token: string): Promise<UserWithRoles> {
-        try {
-            const decoded = jwt.verify(token, this.jwtSecret) as JwtPayload;
+    async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
 
-            if (!decoded.sub) {
-                throw new UnauthorizedError(AUTH_ERRORS.INVALID_TOKEN);
-            }
+        if (!user) {
+            throw new NotFoundError(AUTH_ERRORS.USER_NOT_FOUND);
+        }
 
-            const user = await prisma.user.findUnique({
-                where: { id: decoded.sub },
-                include: {
-                    userRoles: {
-                        include: {
-                            role: true,
-                        },
-                    },
-                },
-            });
+        if (!mfaService.isEnabled(user)) {
+            throw new BadRequestError(MFA_ERRORS.NOT_ENABLED);
+        }
+
+        if (!(await mfaService.verifyCode(user, code))) {
+            await this.logAuditEvent(user.id, 'mfa_failed');
+            throw new UnauthorizedError(MFA_ERRORS.INVALID_CODE);
+        }
+
+        const codes = await mfaService.regenerateRecoveryCodes(user.id);
+
+        // Log audit event
+        await this.logAuditEvent(user.id, 'mfa_recovery_codes_regenerated');
+
+        return codes;
+    }
+
+    /**
+     * Options for registering a new passkey
+     */
+    async getPasskeyRegistrationOptions(userId: string): Promise<PublicKeyCredentialCreationOptionsJSON> {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+
+        if (!user) {
+            throw new NotFoundError(AUTH_ERRORS.USER_NOT_FOUND);
+        }
+
+        return passkeyService.generateRegistrationOptions(user);
+    }
+
+    /**
+     * Verify and store a new passkey
+     */
+    async registerPasskey(userId: string, data: PasskeyRegisterRequest): Promise<PasskeyResponse> {
+        logger.info(`Passkey registration for user: ${userId}`);
+
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+
+        if (!user) {
+            throw new NotFoundError(AUTH_ERRORS.USER_NOT_FOUND);
+        }
+
+        const passkey = await passkeyService.verifyRegistration(
+            user,
+            data.response as unknown as RegistrationResponseJSON,
+            data.name
+        );
+
+        // Log audit event
+        await this.logAuditEvent(user.id, 'passkey_registered', { passkeyId: passkey.id });
+
+        return passkey;
+    }
+
+    /**
+     * Options for signing in with a passkey.
+     * An MFA challenge token narrows them to that user's passkeys. An email does the same,
+     * but unknown emails get the same usernameless options as a user without passkeys.
+     */
+    async getPasskeyLoginOptions(data: PasskeyLoginOptionsRequest): Promise<PublicKeyCredentialRequestOptionsJSON> {
+        if (data.challengeToken) {
+            const challenge = await this.decodeMfaChallenge(data.challengeToken, 'mfa_required');
+            return passkeyService.generateAuthenticationOptions(challenge.sub, 'preferred');
+        }
+
+        const user = data.email
+            ? await prisma.user.findUnique({ where: { email: data.email } })
+            : null;
+
+        return passkeyService.generateAuthenticationOptions(user?.id ?? null, 'required');
+    }
+
+    /**
+     * Sign in with a passkey, either on its own or as the second factor of a password login.
+     * On its own the authenticator must verify the user (PIN or biometric), which makes the passkey
+     * a second factor in itself, so no further MFA challenge follows.
+     */
+    async loginWithPasskey(data: PasskeyLoginRequest, client: ClientInfo = {}): Promise<AuthResponse> {
+        logger.info('Passkey login attempt');
+
+        const response = data.response as unknown as AuthenticationResponseJSON;
+
+        if (data.challengeToken) {
+            const challenge = await this.decodeMfaChallenge(data.challengeToken, 'mfa_required');
+            const user = await this.findUserWithRoles({ id: challenge.sub });
 
             if (!user || !user.isActive) {
-                throw new UnauthorizedError(AUTH_ERRORS.USER_NOT_FOUND);
+                throw new UnauthorizedError(MFA_ERRORS.INVALID_CHALLENGE);
             }
 
-            return user;
-        } catch (error) {
-            if (error instanceof jwt.JsonWebTokenError) {
-                throw new UnauthorizedError(AUTH_ERRORS.INVALID_TOKEN);
-            }
-            if (error instanceof jwt.TokenExpiredError) {
-                throw new UnauthorizedError(AUTH_ERRORS.TOKEN_EXPIRED);
-            }
-            throw error;
+            await passkeyService
+                .verifyAuthentication(response, { expectedUserId: user.id, requireUserVerification: false })
+                .catch(async (error: unknown) => {
+                    await this.logAuditEvent(user.id, 'mfa_failed', { method: 'passkey' });
+                    throw error;
+                });
+
+            return this.completeLogin(user, challenge.rememberMe, client, 'passkey');
+        }
+
+        const credential = await passkeyService.verifyAuthentication(response, { requireUserVerification: true });
+        const user = await this.findUserWithRoles({ id: credential.userId });
+
+        if (!user) {
+            throw new UnauthorizedError(AUTH_ERRORS.INVALID_CREDENTIALS);
+        }
+
+        if (!user.isActive) {
+            throw new UnauthorizedError(AUTH_ERRORS.USER_INACTIVE);
+        }
+
+        if (!user.emailVerifiedAt && !this.isLoginAllowedUnverified(user)) {
+            throw new ForbiddenError(AUTH_ERRORS.EMAIL_NOT_VERIFIED);
         }
+
+        return this.completeLogin(user, data.rememberMe, client, 'passkey');
     }
 
     /**
-     * Generate JWT tokens
+     * List the user's passkeys
      */
-    private async generateTokens(user: UserWithRoles): Promise<{
-        accessToken: string;
-        refreshToken: string;
-        expiresIn: number;
-    }> {
-        const payload: JwtPayload = {
-            sub: user.id,
-            email: user.email,
-            roles: user.userRoles.map((ur: any) => ur.role.name),
-        };
+    async listPasskeys(userId: string): Promise<PasskeyResponse[]> {
+        return passkeyService.listCredentials(userId);
+    }
 
-        const accessToken = jwt.sign(payload, this.jwtSecret, {
-            expiresIn: JWT_CONFIG.ACCESS_TOKEN_EXPIRES_IN,
-        });
+    /**
+     * Remove one of the user's passkeys
+     */
+    async removePasskey(userId: string, passkeyId: string): Promise<void> {
+        logger.info(`Passkey removal for user: ${userId}`);
 
-        const refreshToken = randomBytes(64).toString('hex');
+        const user = await this.findUserWithRoles({ id: userId });
 
-        return {
-            accessToken,
-            refreshToken,
-            expiresIn: 15 * 60, // 15 minutes in seconds
-        };
+        if (!user) {
+            throw new NotFoundError(AUTH_ERRORS.USER_NOT_FOUND);
+        }
+
+        // Don't let the user drop below the second factor their role requires
+        if (mfaService.isRequiredByRole(user) && !mfaService.isEnabled(user)) {
+            const passkeys = await passkeyService.listCredentials(user.id);
+            if (passkeys.length === 1 && passkeys[0]?.id === passkeyId) {
+                throw new ForbiddenError(MFA_ERRORS.LAST_FACTOR);
+            }
+        }
+
+        await passkeyService.deleteCredential(user.id, passkeyId);
+
+        // Log audit event
+        await this.logAuditEvent(user.id, 'passkey_removed', { passkeyId });
     }
 
     /**
-     * Create session record
+     * Lift a sign-in lockout (admin action); returns whether the account was locked
      */
-    private async createSession(
-        userId: string,
-        refreshToken: string,
-        rememberMe: boolean = false
-    ): Promise<void> {
-        const expirySeconds = rememberMe
-            ? SESSION_EXPIRY.REMEMBER_ME
-            : SESSION_EXPIRY.DEFAULT;
+    async unlockAccount(userId: string, actorId: string): Promise<boolean> {
+        logger.info(`Unlocking account of user: ${userId}`);
 
-        const expiresAt = new Date(Date.now() + expirySeconds * 1000);
+        const user = await prisma.user.findUnique({ where: { id: userId } });
 
-        await prisma.session.create({
-            data: {
-                userId,
-                refreshToken,
-                expiresAt,
-            },
-        });
+        if (!user) {
+            throw new NotFoundError(AUTH_ERRORS.USER_NOT_FOUND);
+        }
+
+        const wasLocked = await loginThrottleService.unlock(user.email);
+
+        // Log audit event
+        await this.logAuditEvent(user.id, 'account_unlocked', { wasLocked, unlockedBy: actorId });
+
+        return wasLocked;
     }
 
     /**
-     * Log audit event (OPTIONAL - for authorization and monitoring)
+     * Enabled social login providers
      */
-    private async logAuditEvent(
-        userId: string,
-        action: string,
-        details?: any
-    ): Promise<void> {
-        try {
-            await prisma.auditLog.create({
-                data: {
-                    userId,
-                    action,
-                    details: details || {},
-                    createdAt: new Date(),
-                },
-            });
-        } catch (error: any) {
-            logger.info('Failed to log audit event: ' + String(error));
-            // Don't throw error for audit logging failures
-        }
+    listOidcProviders(): OidcProviderInfo[] {
+        return oidcService.listProviders();
     }
 
     /**
-     * Clean expired sessions
+     * Provider URL that starts a social login
      */
-    async cleanExpiredSessions(): Promise<void> {
-        const deletedSessions = await prisma.session.deleteMany({
-            where: {
-                OR: [
-                    { expiresAt: { lt: new Date() } },
-                    { isRevoked: true },
-                ],
-            },
-        });
+    async getOidcLoginUrl(provider: string): Promise<string> {
+        return oidcService.createAuthorizationUrl(provider, null);
+    }
+
+    /**
+     * Provider URL that links a new identity to a signed-in user
+     */
+    async getOidcLinkUrl(userId: string, provider: string): Promise<string> {
+        return oidcService.createAuthorizationUrl(provider, userId);
+    }
+
+    /**
+     * Finish a social login (or identity link) from the provider's callback.
+     * An unknown external account is linked to an existing user with the same email only when
+     * both the provider and this service have verified that email; otherwise anyone able to
+     * register the address at the provider could take over the account. A new user is created
+     * (without a password) when no account uses the email.
+     */
+    async completeOidcLogin(
+        provider: string,
+        data: OidcCallbackRequest,
+        client: ClientInfo = {}
+    ): Promise<OidcCallbackResponse> {
+        logger.info(`Social login callback for provider: ${provider}`);
+
+        const { profile, linkUserId } = await oidcService.handleCallback(provider, data);
+        const identity = await oidcService.findIdentity(provider, profile.subject);
+
+        // Linking from account settings
+        if (linkUserId) {
+            if (identity && identity.userId !== linkUserId) {
+                throw new ConflictError(OIDC_ERRORS.IDENTITY_IN_USE);
+            }
+
+            const linked = identity
+                ? await oidcService.touchIdentity(identity.id, profile)
+                : await oidcService.linkIdentity(linkUserId, provider, profile);
+
+            // Log audit event
+            await this.logAuditEvent(linkUserId, 'identity_linked', { provider });
+
+            return { status: 'identity_linked', identity: transformIdentityToResponse(linked) };
+        }
+
+        let user: UserWithRoles | null;
+
+        if (identity) {
+            await oidcService.touchIdentity(identity.id, profile);
+            user = await this.findUserWithRoles({ id: identity.userId });
+        } else {
+            if (!profile.email) {
+                throw new BadRequestError(OIDC_ERRORS.EMAIL_REQUIRED);
+            }
 
-        logger.info(`Cleaned ${deletedSessions.count} expired sessions`);
+            user = await this.findUserWithRoles({ email: profile.email });
+
+            if (user) {
+                if (!profile.emailVerified || !user.emailVerifiedAt) {
+                    throw new ConflictError(OIDC_ERRORS.ACCOUNT_EXISTS);
+                }
+
+                await oidcService.linkIdentity(user.id, provider, profile);
+
+                // Log audit event
+                await this.logAuditEvent(user.id, 'identity_linked', { provider, automatic: true });
+            } else {
+                user = await this.registerFromProfile(provider, profile);
+            }
+        }
+
+        if (!user) {
+            throw new UnauthorizedError(AUTH_ERRORS.INVALID_CREDENTIALS);
+        }
+
+        if (!user.isActive) {
+            throw new UnauthorizedError(AUTH_ERRORS.USER_INACTIVE);
+        }
+
+        if (!user.emailVerifiedAt && !this.isLoginAllowedUnverified(user)) {
+            throw new ForbiddenError(AUTH_ERRORS.EMAIL_NOT_VERIFIED);
+        }
+
+        // The provider stands in for the password; our own second factor still applies
+        const challenge = await this.getMfaChallenge(user, data.rememberMe);
+        if (challenge) {
+            return challenge;
+        }
+
+        return this.completeLogin(user, data.rememberMe, client, `oidc:${provider}`);
+    }
+
+    /**
+     * List the user's linked identities
+     */
+    async listIdentities(userId: string): Promise<IdentityResponse[]> {
+        return oidcService.listIdentities(userId);
+    }
+
+    /**
+     * Unlink an identity, keeping at least one way to sign in
+     */
+    async unlinkIdentity(userId: string, identityId: string): Promise<void> {
+        logger.info(`Identity unlink for user: ${userId}`);
+
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+
+        if (!user) {
+            throw new NotFoundError(AUTH_ERRORS.USER_NOT_FOUND);
+        }
+
+        if (
+            user.password === null &&
+            !(await passkeyService.hasCredentials(user.id)) &&
+            (await oidcService.countIdentities(user.id)) <= 1
+        ) {
+            throw new ForbiddenError(OIDC_ERRORS.LAST_LOGIN_METHOD);
+        }
+
+        await oidcService.deleteIdentity(user.id, identityId);
+
+        // Log audit event
+        await this.logAuditEvent(user.id, 'identity_unlinked', { identityId });
+    }
+
+    /**
+     * Refresh access token.
+     * Each refresh token is single-use: it is rotated for a new one in the same family (session).
+     * Presenting an already rotated token means it was replayed, so the whole family is revoked.
+     */
+    async refreshToken(data: RefreshTokenRequest): Promise<AuthResponse> {
+        logger.info('Token refresh attempt');
+
+        // Find refresh token with its session and user
+        const token = await prisma.refreshToken.findUnique({
+            where: { tokenHash: hashToken(data.refreshToken) },
+            include: {
+                session: {
+                    include: {
+                        user: {
+                            include: userRolesInclude(),
+                        },
+                    },
+                },
+            },
+        });
+
+        if (!token) {
+            throw new UnauthorizedError(AUTH_ERRORS.INVALID_TOKEN);
+        }
+
+        const { session } = token;
+
+        if (token.rotatedAt) {
+            await this.handleTokenReuse(session.user, session.id, token.id);
+            throw new UnauthorizedError(AUTH_ERRORS.INVALID_TOKEN);
+        }
+
+        if (session.isRevoked || isSessionExpired(session)) {
+            throw new UnauthorizedError(AUTH_ERRORS.INVALID_TOKEN);
+        }
+
+        if (!session.user.isActive) {
+            throw new UnauthorizedError(AUTH_ERRORS.USER_INACTIVE);
+        }
+
+        // Generate new tokens
+        const tokens = await this.generateTokens(session.user, session.id);
+
+        // Rotate: retire the presented token and chain the new one to it
+        const rotated = await prisma.$transaction(async (tx) => {
+            // Only succeeds if no concurrent request rotated the same token first
+            const retired = await tx.refreshToken.updateMany({
+                where: { id: token.id, rotatedAt: null },
+                data: { rotatedAt: new Date() },
+            });
+
+            if (retired.count === 0) {
+                return false;
+            }
+
+            await tx.refreshToken.create({
+                data: {
+                    sessionId: session.id,
+                    tokenHash: hashToken(tokens.refreshToken),
+                    parentId: token.id,
+                },
+            });
+
+            await tx.session.update({
+                where: { id: session.id },
+                data: { lastUsedAt: new Date() },
+            });
+
+            return true;
+        });
+
+        if (!rotated) {
+            await this.handleTokenReuse(session.user, session.id, token.id);
+            throw new UnauthorizedError(AUTH_ERRORS.INVALID_TOKEN);
+        }
+
+        logger.info(`Token refreshed for user: ${session.user.id}`);
+
+        return {
+            user: transformUserToResponse(session.user),
+            tokens,
+        };
+    }
+
+    /**
+     * Logout user: revoke the session and deny the access token immediately
+     */
+    async logout(current: Omit<VerifiedAccessToken, 'user'> & { userId: string }): Promise<void> {
+        logger.info('Logout attempt');
+
+        await this.revokeAccessToken(current.tokenId, current.expiresAt);
+
+        await prisma.session.updateMany({
+            where: { id: current.sessionId, isRevoked: false },
+            data: { isRevoked: true },
+        });
+
+        // Log audit event
+        await this.logAuditEvent(current.userId, 'logout', { sessionId: current.sessionId });
+
+        logger.info(`User logged out: ${current.userId}`);
+    }
+
+    /**
+     * Deny a single access token until it expires
+     */
+    async revokeAccessToken(tokenId: string, expiresAt: Date): Promise<void> {
+        await this.denylist.add(tokenId, expiresAt);
+    }
+
+    /**
+     * Replace the denylist store (e.g. with a RedisDenylistStore)
+     */
+    setDenylistStore(store: TokenDenylistStore): void {
+        this.denylist = store;
+    }
+
+    /**
+     * Add application-specific claims to every access token issued from now on
+     */
+    addClaimBuilder(builder: AccessTokenClaimBuilder): void {
+        this.claimBuilders.push(builder);
+    }
+
+    /**
+     * Change user password, or set a first one on a social-only account
+     */
+    async changePassword(
+        userId: string,
+        data: ChangePasswordRequest
+    ): Promise<void> {
+        logger.info(`Password change attempt for user: ${userId}`);
+
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+        });
+
+        if (!user) {
+            throw new NotFoundError(AUTH_ERRORS.USER_NOT_FOUND);
+        }
+
+        // Verify current password (accounts created through social login have none yet)
+        if (user.password !== null) {
+            const isValidPassword = data.currentPassword !== undefined
+                && await bcrypt.compare(data.currentPassword, user.password);
+            if (!isValidPassword) {
+                throw new UnauthorizedError(AUTH_ERRORS.INCORRECT_PASSWORD);
+            }
+        }
+
+        // Hash new password
+        const hashedPassword = await bcrypt.hash(data.newPassword, this.saltRounds);
+
+        // Update password and revoke all sessions
+        await prisma.$transaction(async (tx) => {
+            await tx.user.update({
+                where: { id: userId },
+                data: { password: hashedPassword },
+            });
+
+            // Revoke all user sessions to force re-login
+            await tx.session.updateMany({
+                where: { userId, isRevoked: false },
+                data: { isRevoked: true },
+            });
+        });
+
+        // Log audit event
+        await this.logAuditEvent(userId, user.password !== null ? 'password_change' : 'password_set');
+
+        logger.info(`Password changed for user: ${userId}`);
+    }
+
+    /**
+     * Start the forgot-password flow.
+     * Resolves silently for unknown or inactive accounts so the response doesn't reveal whether an account exists.
+     */
+    async forgotPassword(data: ForgotPasswordRequest): Promise<void> {
+        logger.info('Password reset requested');
+
+        const user = await prisma.user.findUnique({
+            where: { email: data.email },
+        });
+
+        if (!user || !user.isActive) {
+            return;
+        }
+
+        const token = generateOpaqueToken();
+        const expiresAt = new Date(Date.now() + PASSWORD_RESET.TOKEN_EXPIRY * 1000);
+
+        // Only the latest reset link stays valid
+        await prisma.$transaction([
+            prisma.passwordResetToken.deleteMany({
+                where: { userId: user.id, usedAt: null },
+            }),
+            prisma.passwordResetToken.create({
+                data: {
+                    userId: user.id,
+                    tokenHash: hashToken(token),
+                    expiresAt,
+                },
+            }),
+        ]);
+
+        mailService.enqueue('passwordReset', user.email, {
+            name: getDisplayName(user),
+            link: mailService.appLink('/reset-password', { token }),
+            expiresInMinutes: PASSWORD_RESET.TOKEN_EXPIRY / 60,
+        }, user.locale);
+
+        // Log audit event
+        await this.logAuditEvent(user.id, 'password_reset_requested');
+    }
+
+    /**
+     * Reset password with a token from the forgot-password email
+     */
+    async resetPassword(data: ResetPasswordRequest): Promise<void> {
+        logger.info('Password reset attempt');
+
+        const record = await prisma.passwordResetToken.findUnique({
+            where: { tokenHash: hashToken(data.token) },
+        });
+
+        if (!record || record.usedAt || record.expiresAt < new Date()) {
+            throw new BadRequestError(AUTH_ERRORS.INVALID_TOKEN);
+        }
+
+        // Hash new password
+        const hashedPassword = await bcrypt.hash(data.newPassword, this.saltRounds);
+
+        // Consume token, update password and revoke all sessions
+        await prisma.$transaction(async (tx) => {
+            // Mark as used only if still unused, so concurrent requests can't both succeed
+            const consumed = await tx.passwordResetToken.updateMany({
+                where: { id: record.id, usedAt: null },
+                data: { usedAt: new Date() },
+            });
+
+            if (consumed.count === 0) {
+                throw new BadRequestError(AUTH_ERRORS.INVALID_TOKEN);
+            }
+
+            await tx.user.update({
+                where: { id: record.userId },
+                data: { password: hashedPassword },
+            });
+
+            // Revoke all user sessions to force re-login
+            await tx.session.updateMany({
+                where: { userId: record.userId, isRevoked: false },
+                data: { isRevoked: true },
+            });
+        });
+
+        // Log audit event
+        await this.logAuditEvent(record.userId, 'password_reset');
+
+        logger.info(`Password reset for user: ${record.userId}`);
+    }
+
+    /**
+     * Confirm email ownership with a verification token
+     */
+    async verifyEmail(data: VerifyEmailRequest): Promise<void> {
+        logger.info('Email verification attempt');
+
+        const record = await prisma.emailVerificationToken.findUnique({
+            where: { tokenHash: hashToken(data.token) },
+        });
+
+        if (!record || record.usedAt || record.expiresAt < new Date()) {
+            throw new BadRequestError(AUTH_ERRORS.INVALID_TOKEN);
+        }
+
+        const now = new Date();
+
+        await prisma.$transaction(async (tx) => {
+            // Mark as used only if still unused, so concurrent requests can't both succeed
+            const consumed = await tx.emailVerificationToken.updateMany({
+                where: { id: record.id, usedAt: null },
+                data: { usedAt: now },
+            });
+
+            if (consumed.count === 0) {
+                throw new BadRequestError(AUTH_ERRORS.INVALID_TOKEN);
+            }
+
+            await tx.user.update({
+                where: { id: record.userId },
+                data: { emailVerifiedAt: now },
+            });
+        });
+
+        // Log audit event
+        await this.logAuditEvent(record.userId, 'email_verified');
+
+        logger.info(`Email verified for user: ${record.userId}`);
+    }
+
+    /**
+     * Resend the verification email.
+     * Resolves silently for unknown or already verified addresses so the response doesn't reveal whether an account exists.
+     */
+    async resendVerification(data: ResendVerificationRequest): Promise<void> {
+        logger.info('Verification email resend requested');
+
+        const user = await prisma.user.findUnique({
+            where: { email: data.email },
+        });
+
+        if (!user || !user.isActive || user.emailVerifiedAt) {
+            return;
+        }
+
+        await this.issueVerificationToken(user);
+
+        // Log audit event
+        await this.logAuditEvent(user.id, 'email_verification_resent');
+    }
+
+    /**
+     * Verify JWT token, its session binding and revocation status, and get user
+     */
+    async verifyToken(token: string): Promise<VerifiedAccessToken> {
+        try {
+            const decoded = await signingKeyService.verify(token, {
+                issuer: AUTH_CONFIG.issuer,
+                audience: AUTH_CONFIG.audience,
+                clockSkew: AUTH_CONFIG.clockSkew,
+            }) as JwtClaims & Partial<JwtPayload>;
+
+            if (!decoded.sub || !decoded.jti || !decoded.sid || !decoded.exp) {
+                throw new UnauthorizedError(AUTH_ERRORS.INVALID_TOKEN);
+            }
+
+            if (await this.denylist.has(decoded.jti)) {
+                throw new UnauthorizedError(AUTH_ERRORS.TOKEN_REVOKED);
+            }
+
+            const session = await prisma.session.findUnique({
+                where: { id: decoded.sid },
+            });
+
+            if (!session || session.userId !== decoded.sub || session.isRevoked) {
+                throw new UnauthorizedError(AUTH_ERRORS.TOKEN_REVOKED);
+            }
+
+            if (isSessionExpired(session)) {
+                throw new UnauthorizedError(AUTH_ERRORS.SESSION_EXPIRED);
+            }
+
+            const user = await prisma.user.findUnique({
+                where: { id: decoded.sub },
+                include: userRolesInclude(),
+            });
+
+            if (!user || !user.isActive) {
+                throw new UnauthorizedError(AUTH_ERRORS.USER_NOT_FOUND);
+            }
+
+            return {
+                user: await roleService.withPermissions(user),
+                sessionId: session.id,
+                tokenId: decoded.jti,
+                // Accepted until exp plus the clock skew, so a denylist entry has to last as long
+                expiresAt: new Date((decoded.exp + AUTH_CONFIG.clockSkew) * 1000),
+            };
+        } catch (error) {
+            // JwtExpiredError extends JwtError, so check it first
+            if (error instanceof JwtExpiredError) {
+                throw new UnauthorizedError(AUTH_ERRORS.TOKEN_EXPIRED);
+            }
+            if (error instanceof JwtError) {
+                throw new UnauthorizedError(AUTH_ERRORS.INVALID_TOKEN);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Generate JWT tokens for a session
+     */
+    private async generateTokens(user: UserWithRoles, sessionId: string): Promise<AuthTokens> {
+        return {
+            ...await this.signAccessToken(user, sessionId),
+            refreshToken: generateOpaqueToken(64),
+        };
+    }
+
+    /**
+     * Sign an access token bound to a session, with a unique id so it can be revoked.
+     * Claims from registered builders are added first, so they can't replace the standard ones.
+     */
+    private async signAccessToken(user: UserWithRoles, sessionId: string): Promise<Omit<AuthTokens, 'refreshToken'>> {
+        const customClaims = await Promise.all(this.claimBuilders.map(build => build(user, sessionId)));
+
+        const payload: JwtPayload = {
+            sub: user.id,
+            email: user.email,
+            roles: user.userRoles.filter(ur => ur.role.isActive).map(ur => ur.role.name),
+            sid: sessionId,
+            jti: randomUUID(),
+            iss: AUTH_CONFIG.issuer,
+            aud: AUTH_CONFIG.audience,
+        };
+
+        const accessToken = await signingKeyService.sign(
+            Object.assign({}, ...customClaims, payload),
+            AUTH_CONFIG.accessTokenTtl
+        );
+
+        return {
+            accessToken,
+            expiresIn: AUTH_CONFIG.accessTokenTtl,
+        };
+    }
+
+    /**
+     * Finish a successful login: record it, alert on new devices and issue tokens
+     */
+    private async completeLogin(
+        user: UserWithRoles,
+        rememberMe: boolean,
+        client: ClientInfo,
+        method: string
+    ): Promise<AuthResponse> {
+        // Update last login
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { lastLogin: new Date() },
+        });
+
+        // Warn the user about sign-ins from devices we haven't seen before
+        await this.notifyIfNewDevice(user, client);
+
+        // Create session and generate tokens
+        const tokens = await this.createSession(user, rememberMe, client);
+
+        // Log audit event
+        await this.logAuditEvent(user.id, 'login', { method });
+
+        logger.info(`User logged in successfully: ${user.id}`);
+
+        return {
+            user: transformUserToResponse(user),
+            tokens,
+        };
+    }
+
+    /**
+     * Audit a failed sign-in and count it against the account and IP.
+     * When the failure locks the account, the owner is emailed and the attempt is refused as locked.
+     */
+    private async recordFailedLogin(
+        user: User | null,
+        email: string,
+        client: ClientInfo,
+        action: string,
+        details: Record<string, unknown> = {}
+    ): Promise<void> {
+        await this.logAuditEvent(user?.id ?? null, action, { email, ...details });
+
+        const lockouts = await loginThrottleService.recordFailure(email, client.ipAddress);
+
+        for (const lockout of lockouts) {
+            await this.logAuditEvent(
+                user?.id ?? null,
+                lockout.scope === 'account' ? 'account_locked' : 'ip_blocked',
+                { email, lockedUntil: lockout.lockedUntil }
+            );
+
+            if (lockout.scope === 'account' && user) {
+                mailService.enqueue('accountLocked', user.email, {
+                    name: getDisplayName(user),
+                    until: lockout.lockedUntil.toUTCString(),
+                }, user.locale);
+            }
+        }
+
+        const accountLockout = lockouts.find(lockout => lockout.scope === 'account');
+        if (accountLockout) {
+            const retryAfter = Math.ceil((accountLockout.lockedUntil.getTime() - Date.now()) / 1000);
+            throw new TooManyRequestsError(AUTH_ERRORS.ACCOUNT_LOCKED, { retryAfter }, retryAfter);
+        }
+    }
+
+    /**
+     * Challenge (if any) the user must pass after the first factor, audited when issued
+     */
+    private async getMfaChallenge(user: UserWithRoles, rememberMe: boolean): Promise<MfaChallengeResponse | null> {
+        const hasPasskey = await passkeyService.hasCredentials(user.id);
+        const challenge = mfaService.getLoginChallenge(user, hasPasskey);
+
+        if (!challenge) {
+            return null;
+        }
+
+        await this.logAuditEvent(user.id, 'mfa_challenge_issued', { challenge });
+
+        return this.createMfaChallenge(
+            user.id,
+            challenge,
+            rememberMe,
+            mfaService.getAvailableMethods(user, hasPasskey)
+        );
+    }
+
+    /**
+     * Create a password-less user for a new external account
+     */
+    private async registerFromProfile(provider: string, profile: ExternalProfile): Promise<UserWithRoles> {
+        const user = await prisma.user.create({
+            data: {
+                email: profile.email!,
+                password: null,
+                firstName: profile.firstName,
+                lastName: profile.lastName,
+                emailVerifiedAt: profile.emailVerified ? new Date() : null,
+                identities: {
+                    create: {
+                        provider,
+                        subject: profile.subject,
+                        email: profile.email,
+                        emailVerified: profile.emailVerified,
+                        lastLoginAt: new Date(),
+                    },
+                },
+            },
+            include: userRolesInclude(),
+        });
+
+        // Log audit event
+        await this.logAuditEvent(user.id, 'register', { provider });
+
+        if (!user.emailVerifiedAt) {
+            try {
+                await this.issueVerificationToken(user);
+            } catch (error) {
+                logger.err('Failed to issue verification token: ' + String(error));
+            }
+        }
+
+        logger.info(`User registered through ${provider}: ${user.id}`);
+
+        return user;
+    }
+
+    /**
+     * Issue a short-lived challenge token for the second login step
+     */
+    private async createMfaChallenge(
+        userId: string,
+        purpose: MfaChallengeType,
+        rememberMe: boolean,
+        methods: MfaMethod[] = []
+    ): Promise<MfaChallengeResponse> {
+        const payload: MfaChallengePayload = { sub: userId, purpose, rememberMe };
+
+        // No audience: a challenge token is never accepted as an access token
+        const challengeToken = await signingKeyService.sign(
+            { ...payload, iss: AUTH_CONFIG.issuer },
+            MFA_CONFIG.CHALLENGE_EXPIRY
+        );
+
+        return {
+            status: purpose,
+            challengeToken,
+            expiresIn: MFA_CONFIG.CHALLENGE_EXPIRY,
+            methods,
+        };
+    }
+
+    /**
+     * Verify a challenge token issued for the given purpose
+     */
+    private async decodeMfaChallenge(challengeToken: string, purpose: MfaChallengeType): Promise<MfaChallengePayload> {
+        try {
+            const decoded = await signingKeyService.verify(challengeToken, {
+                issuer: AUTH_CONFIG.issuer,
+                clockSkew: AUTH_CONFIG.clockSkew,
+            }) as JwtClaims & Partial<MfaChallengePayload>;
+
+            if (!decoded.sub || decoded.purpose !== purpose) {
+                throw new UnauthorizedError(MFA_ERRORS.INVALID_CHALLENGE);
+            }
+
+            return { sub: decoded.sub, purpose, rememberMe: decoded.rememberMe === true };
+        } catch (error) {
+            if (error instanceof JwtError) {
+                throw new UnauthorizedError(MFA_ERRORS.INVALID_CHALLENGE);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Load a user with roles
+     */
+    private async findUserWithRoles(where: { id: string } | { email: string }): Promise<UserWithRoles | null> {
+        return prisma.user.findUnique({
+            where,
+            include: userRolesInclude(),
+        });
+    }
+
+    /**
+     * Create session record and issue its first tokens
+     */
+    private async createSession(
+        user: UserWithRoles,
+        rememberMe: boolean = false,
+        client: ClientInfo = {}
+    ): Promise<AuthTokens> {
+        const expirySeconds = rememberMe
+            ? AUTH_CONFIG.rememberMeSessionTimeout
+            : AUTH_CONFIG.sessionTimeout;
+
+        const expiresAt = new Date(Date.now() + expirySeconds * 1000);
+        const refreshToken = generateOpaqueToken(64);
+
+        const session = await prisma.session.create({
+            data: {
+                userId: user.id,
+                expiresAt,
+                userAgent: client.userAgent ?? null,
+                ipAddress: client.ipAddress ?? null,
+                refreshTokens: {
+                    create: { tokenHash: hashToken(refreshToken) },
+                },
+            },
+        });
+
+        return {
+            ...await this.signAccessToken(user, session.id),
+            refreshToken,
+        };
+    }
+
+    /**
+     * A rotated refresh token was presented again: revoke its whole family and alert the user
+     */
+    private async handleTokenReuse(user: User, sessionId: string, tokenId: string): Promise<void> {
+        logger.warn(`Refresh token reuse detected for user ${user.id}, revoking session ${sessionId}`);
+
+        await prisma.session.update({
+            where: { id: sessionId },
+            data: { isRevoked: true },
+        });
+
+        // Log audit event
+        await this.logAuditEvent(user.id, 'token_reuse_detected', { sessionId, tokenId });
+
+        if (ENV.NOTIFY_ON_TOKEN_REUSE) {
+            mailService.enqueue('tokenReuse', user.email, {
+                name: getDisplayName(user),
+                time: new Date().toUTCString(),
+            }, user.locale);
+        }
+    }
+
+    /**
+     * Create a fresh verification token (invalidating older ones) and email it
+     */
+    private async issueVerificationToken(user: User): Promise<void> {
+        const token = generateOpaqueToken();
+        const expiresAt = new Date(Date.now() + EMAIL_VERIFICATION.TOKEN_EXPIRY * 1000);
+
+        await prisma.$transaction([
+            prisma.emailVerificationToken.deleteMany({
+                where: { userId: user.id, usedAt: null },
+            }),
+            prisma.emailVerificationToken.create({
+                data: {
+                    userId: user.id,
+                    tokenHash: hashToken(token),
+                    expiresAt,
+                },
+            }),
+        ]);
+
+        mailService.enqueue('verification', user.email, {
+            name: getDisplayName(user),
+            link: mailService.appLink('/verify-email', { token }),
+        }, user.locale);
+    }
+
+    /**
+     * Queue a new-device alert when the user has signed in before but never from this user agent
+     */
+    private async notifyIfNewDevice(user: User, client: ClientInfo): Promise<void> {
+        if (!client.userAgent) {
+            return;
+        }
+
+        const [previousSessions, knownDevice] = await Promise.all([
+            prisma.session.count({ where: { userId: user.id } }),
+            prisma.session.findFirst({ where: { userId: user.id, userAgent: client.userAgent } }),
+        ]);
+
+        if (previousSessions === 0 || knownDevice) {
+            return;
+        }
+
+        mailService.enqueue('newDeviceLogin', user.email, {
+            name: getDisplayName(user),
+            device: describeUserAgent(client.userAgent),
+            ipAddress: client.ipAddress ?? 'unknown',
+            time: new Date().toUTCString(),
+        }, user.locale);
+    }
+
+    /**
+     * Whether the email verification policy lets an unverified user sign in
+     */
+    private isLoginAllowedUnverified(user: User): boolean {
+        switch (ENV.EMAIL_VERIFICATION_POLICY) {
+            case 'block':
+                return false;
+            case 'grace': {
+                const graceEndsAt = user.createdAt.getTime() + ENV.EMAIL_VERIFICATION_GRACE_DAYS * 24 * 60 * 60 * 1000;
+                return Date.now() < graceEndsAt;
+            }
+            default:
+                return true;
+        }
+    }
+
+    /**
+     * Log audit event (OPTIONAL - for authorization and monitoring). The only writer of the audit
+     * trail: every service records its actions here, so each entry lands on the hash chain.
+     * resource identifies what was acted upon (e.g. "role:<id>"); account events default to the
+     * user's own account. The client and request id come from the request context.
+     * Never throws: a failed write is logged and the action goes ahead.
+     */
+    async logAuditEvent(
+        userId: string | null,
+        action: string,
+        details?: any,
+        resource: string | null = userId ? `user:${userId}` : null
+    ): Promise<void> {
+        try {
+            await auditService.append({ userId, action, details, resource });
+        } catch (error: any) {
+            logger.info('Failed to log audit event: ' + String(error));
+            // Don't throw error for audit logging failures
+        }
+    }
+
+    /**
+     * Clean expired sessions, then run the other periodic jobs. Each job runs even if an earlier
+     * one fails, and each failure is logged on its own; the run rejects afterwards if any failed.
+     */
+    async cleanExpiredSessions(): Promise<void> {
+        const failedJobs: string[] = [];
+
+        const runJob = async <T>(job: string, work: () => Promise<T>): Promise<T | undefined> => {
+            try {
+                return await work();
+            } catch (error) {
+                failedJobs.push(job);
+                logger.err(`Maintenance job "${job}" failed: ${String(error)}`);
+                return undefined;
+            }
+        };
+
+        const deletedSessions = await runJob('sessions', () => prisma.session.deleteMany({
+            where: {
+                OR: [
+                    { expiresAt: { lt: new Date() } },
+                    { isRevoked: true },
+                    ...(AUTH_CONFIG.sessionIdleTimeout > 0 ? [{ lastUsedAt: { lt: idleCutoff() } }] : []),
+                ],
+            },
+        }));
+
+        const purgedTokens = await runJob('token denylist', () => this.denylist.purgeExpired());
+
+        // Abandoned passkey ceremonies and social sign-ins
+        await runJob('passkey challenges', () => prisma.webAuthnChallenge.deleteMany({
+            where: { expiresAt: { lt: new Date() } },
+        }));
+        await runJob('social sign-in requests', () => oidcService.purgeExpiredRequests());
+        await runJob('login throttles', () => loginThrottleService.purgeStale());
+        await runJob('rate limits', () => getRateLimitStore().purgeExpired());
+        await runJob('email change requests', () => emailChangeService.purgeExpiredRequests());
+        const erasedAccounts = await runJob('account erasure', () => accountService.purgeDueDeletions());
+        const expiredRoles = await runJob('expired role assignments', () => roleService.purgeExpiredAssignments());
+        const retiredAuditLogs = await runJob('audit retention', () => auditService.applyRetention());
+        await runJob('audit checkpoint', () => auditService.createCheckpoint());
+        await runJob('retired signing keys', () => signingKeyService.purgeRetiredKeys());
+
+        logger.info(`Cleaned ${deletedSessions?.count ?? 0} expired sessions, ${purgedTokens ?? 0} denylisted tokens and ${expiredRoles ?? 0} expired role assignments; erased ${erasedAccounts ?? 0} accounts; retired ${retiredAuditLogs ?? 0} audit entries`);
+
+        if (failedJobs.length > 0) {
+            throw new Error(`Maintenance jobs failed: ${failedJobs.join(', ')}`);
+        }
     }
 }
 
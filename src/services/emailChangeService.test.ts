@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import bcrypt from 'bcryptjs';
+import { BadRequestError, ConflictError, UnauthorizedError } from '@src/common/errors/ApiErrors';
+import { MemoryTransport } from '@src/common/mail/transports';
+import { prisma } from '@src/common/utils/prisma';
+import { resetMemoryPrisma } from '@src/test/memoryPrisma';
+import { AUTH_ERRORS } from '@src/models/auth';
+import { USER_ERRORS } from '@src/models/user';
+import type { User } from '@src/generated/prisma';
+import emailChangeService from './emailChangeService';
+import mailService from './mailService';
+
+vi.mock('@src/common/utils/prisma', async () => {
+    const { createMemoryPrisma } = await import('@src/test/memoryPrisma');
+    return { prisma: createMemoryPrisma() };
+});
+
+const currentPassword = 'correct horse battery staple';
+
+describe('emailChangeService', () => {
+    let transport: MemoryTransport;
+    let user: User;
+
+    // The token in the last link mailed to an address
+    const tokenSentTo = async (email: string) => {
+        await mailService.drain();
+        const token = transport.lastTo(email)?.text.match(/token=([^\s&]+)/)?.[1];
+        if (!token) {
+            throw new Error(`No link was mailed to ${email}`);
+        }
+        return token;
+    };
+
+    const request = async (newEmail: string = 'lovelace@example.com') => {
+        await emailChangeService.requestChange(user.id, { currentPassword, newEmail });
+        return { token: await tokenSentTo(newEmail), revertToken: await tokenSentTo(user.email) };
+    };
+
+    const findUser = () => prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+
+    beforeEach(async () => {
+        resetMemoryPrisma(prisma);
+        transport = new MemoryTransport();
+        mailService.setTransport(transport);
+
+        user = await prisma.user.create({
+            data: { email: 'ada@example.com', password: await bcrypt.hash(currentPassword, 4), emailVerifiedAt: new Date() },
+        });
+    });
+
+    it('only starts a change after the password is confirmed, to an address nobody uses', async () => {
+        await prisma.user.create({ data: { email: 'grace@example.com' } });
+
+        await expect(emailChangeService.requestChange(user.id, { currentPassword: 'wrong', newEmail: 'lovelace@example.com' }))
+            .rejects.toThrow(new UnauthorizedError(AUTH_ERRORS.INCORRECT_PASSWORD));
+        await expect(emailChangeService.requestChange(user.id, { currentPassword, newEmail: 'ada@example.com' }))
+            .rejects.toThrow(new BadRequestError(AUTH_ERRORS.SAME_EMAIL));
+        await expect(emailChangeService.requestChange(user.id, { currentPassword, newEmail: 'grace@example.com' }))
+            .rejects.toThrow(new ConflictError(USER_ERRORS.EMAIL_TAKEN));
+
+        const social = await prisma.user.create({ data: { email: 'kai@example.com' } });
+        await expect(emailChangeService.requestChange(social.id, { currentPassword, newEmail: 'lovelace@example.com' }))
+            .rejects.toThrow(new BadRequestError(AUTH_ERRORS.PASSWORD_REQUIRED));
+
+        expect(await prisma.emailChangeRequest.count()).toBe(0);
+    });
+
+    it('keeps the current email until the new one confirms, then swaps and verifies it', async () => {
+        await prisma.user.update({ where: { id: user.id }, data: { emailVerifiedAt: null } });
+        const { token } = await request();
+
+        expect(await findUser()).toMatchObject({ email: 'ada@example.com' });
+        expect(transport.lastTo('ada@example.com')?.text).toContain('lovelace@example.com');
+
+        await emailChangeService.confirmChange({ token });
+
+        expect((await findUser()).email).toBe('lovelace@example.com');
+        expect((await findUser()).emailVerifiedAt).toBeInstanceOf(Date);
+        await expect(emailChangeService.confirmChange({ token }))
+            .rejects.toThrow(new BadRequestError(AUTH_ERRORS.INVALID_TOKEN));
+        expect(await prisma.auditLog.findFirst({ where: { action: 'email_changed' } }))
+            .toMatchObject({ details: { oldEmail: 'ada@example.com', newEmail: 'lovelace@example.com' } });
+    });
+
+    it('refuses a link that expired or was replaced by a newer request', async () => {
+        const first = await request('first@example.com');
+        const second = await request('second@example.com');
+
+        await expect(emailChangeService.confirmChange(first)).rejects.toThrow(new BadRequestError(AUTH_ERRORS.INVALID_TOKEN));
+
+        await prisma.emailChangeRequest.updateMany({ data: { expiresAt: new Date(Date.now() - 1000) } });
+        await expect(emailChangeService.confirmChange(second)).rejects.toThrow(new BadRequestError(AUTH_ERRORS.INVALID_TOKEN));
+
+        expect((await findUser()).email).toBe('ada@example.com');
+    });
+
+    it('refuses to confirm an address someone took in the meantime', async () => {
+        const { token } = await request();
+        await prisma.user.create({ data: { email: 'lovelace@example.com' } });
+
+        await expect(emailChangeService.confirmChange({ token })).rejects.toThrow(new ConflictError(USER_ERRORS.EMAIL_TAKEN));
+    });
+
+    it('cancels a pending change from the old address', async () => {
+        const { token, revertToken } = await request();
+
+        await emailChangeService.revertChange({ token: revertToken });
+
+        await expect(emailChangeService.confirmChange({ token })).rejects.toThrow(new BadRequestError(AUTH_ERRORS.INVALID_TOKEN));
+        expect(await prisma.auditLog.findFirst({ where: { action: 'email_change_cancelled' } })).not.toBeNull();
+    });
+
+    it('restores the old address after a completed change and signs the account out', async () => {
+        const { token, revertToken } = await request();
+        await emailChangeService.confirmChange({ token });
+        await prisma.session.create({ data: { userId: user.id, expiresAt: new Date(Date.now() + 60_000) } });
+
+        await emailChangeService.revertChange({ token: revertToken });
+
+        expect((await findUser()).email).toBe('ada@example.com');
+        expect(await prisma.session.count({ where: { userId: user.id, isRevoked: false } })).toBe(0);
+        expect(await prisma.auditLog.findFirst({ where: { action: 'email_change_reverted' } })).not.toBeNull();
+
+        await expect(emailChangeService.revertChange({ token: revertToken }))
+            .rejects.toThrow(new BadRequestError(AUTH_ERRORS.INVALID_TOKEN));
+    });
+});
@@ -0,0 +1,212 @@
+import bcrypt from 'bcryptjs';
+import { BadRequestError, ConflictError, NotFoundError, UnauthorizedError } from '@src/common/errors/ApiErrors';
+import logger from '@src/common/utils/logger';
+import { prisma } from '@src/common/utils/prisma';
+import { generateOpaqueToken, hashToken } from '@src/common/utils/tokens';
+import {
+    AUTH_ERRORS,
+    EMAIL_CHANGE,
+    type ChangeEmailRequest,
+    type EmailChangeTokenRequest,
+} from '@src/models/auth';
+import { getDisplayName, USER_ERRORS } from '@src/models/user';
+import mailService from './mailService';
+import sessionService from './sessionService';
+import authService from './authService';
+
+/******************************************************************************
+                            Email Change Service
+******************************************************************************/
+
+class EmailChangeService {
+    /**
+     * Start an email change. The new address gets a confirmation link and the old one a
+     * "this wasn't me" link; the account keeps its current email until the new one confirms.
+     */
+    async requestChange(userId: string, data: ChangeEmailRequest): Promise<void> {
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+
+        if (!user) {
+            throw new NotFoundError(AUTH_ERRORS.USER_NOT_FOUND);
+        }
+
+        // Accounts created through social login have no password to re-authenticate with
+        if (user.password === null) {
+            throw new BadRequestError(AUTH_ERRORS.PASSWORD_REQUIRED);
+        }
+
+        if (!await bcrypt.compare(data.currentPassword, user.password)) {
+            throw new UnauthorizedError(AUTH_ERRORS.INCORRECT_PASSWORD);
+        }
+
+        if (data.newEmail === user.email) {
+            throw new BadRequestError(AUTH_ERRORS.SAME_EMAIL);
+        }
+
+        await this.assertEmailAvailable(data.newEmail);
+
+        const token = generateOpaqueToken();
+        const revertToken = generateOpaqueToken();
+        const now = Date.now();
+
+        // Only the latest request stays pending
+        await prisma.$transaction([
+            prisma.emailChangeRequest.deleteMany({
+                where: { userId, confirmedAt: null, revertedAt: null },
+            }),
+            prisma.emailChangeRequest.create({
+                data: {
+                    userId,
+                    oldEmail: user.email,
+                    newEmail: data.newEmail,
+                    tokenHash: hashToken(token),
+                    revertTokenHash: hashToken(revertToken),
+                    expiresAt: new Date(now + EMAIL_CHANGE.TOKEN_EXPIRY * 1000),
+                    revertExpiresAt: new Date(now + EMAIL_CHANGE.REVERT_WINDOW * 1000),
+                },
+            }),
+        ]);
+
+        mailService.enqueue('emailChangeConfirm', data.newEmail, {
+            name: getDisplayName(user),
+            newEmail: data.newEmail,
+            link: mailService.appLink('/confirm-email-change', { token }),
+            expiresInHours: EMAIL_CHANGE.TOKEN_EXPIRY / 3600,
+        }, user.locale);
+
+        mailService.enqueue('emailChangeNotice', user.email, {
+            name: getDisplayName(user),
+            newEmail: data.newEmail,
+            link: mailService.appLink('/revert-email-change', { token: revertToken }),
+            revertDays: EMAIL_CHANGE.REVERT_WINDOW / 86400,
+        }, user.locale);
+
+        await authService.logAuditEvent(userId, 'email_change_requested', { newEmail: data.newEmail }, `user:${userId}`);
+    }
+
+    /**
+     * Swap the address once the new one is confirmed (confirming also verifies it)
+     */
+    async confirmChange(data: EmailChangeTokenRequest): Promise<void> {
+        const request = await prisma.emailChangeRequest.findUnique({
+            where: { tokenHash: hashToken(data.token) },
+            include: { user: true },
+        });
+
+        if (
+            !request
+            || request.confirmedAt
+            || request.revertedAt
+            || request.expiresAt < new Date()
+            || request.user.email !== request.oldEmail // The email changed some other way meanwhile
+        ) {
+            throw new BadRequestError(AUTH_ERRORS.INVALID_TOKEN);
+        }
+
+        await this.assertEmailAvailable(request.newEmail);
+
+        const now = new Date();
+
+        await prisma.$transaction(async (tx) => {
+            // Mark as confirmed only if still pending, so concurrent requests can't both succeed
+            const consumed = await tx.emailChangeRequest.updateMany({
+                where: { id: request.id, confirmedAt: null, revertedAt: null },
+                data: { confirmedAt: now },
+            });
+
+            if (consumed.count === 0) {
+                throw new BadRequestError(AUTH_ERRORS.INVALID_TOKEN);
+            }
+
+            await tx.user.update({
+                where: { id: request.userId },
+                data: { email: request.newEmail, emailVerifiedAt: now },
+            });
+        });
+
+        await authService.logAuditEvent(
+            request.userId,
+            'email_changed',
+            { oldEmail: request.oldEmail, newEmail: request.newEmail },
+            `user:${request.userId}`
+        );
+
+        logger.info(`Email changed for user: ${request.userId}`);
+    }
+
+    /**
+     * "This wasn't me": cancel a pending change, or restore the old address after a completed one.
+     * Either way every session is revoked, since someone else knew the password.
+     */
+    async revertChange(data: EmailChangeTokenRequest): Promise<void> {
+        const request = await prisma.emailChangeRequest.findUnique({
+            where: { revertTokenHash: hashToken(data.token) },
+        });
+
+        if (!request || request.revertedAt || request.revertExpiresAt < new Date()) {
+            throw new BadRequestError(AUTH_ERRORS.INVALID_TOKEN);
+        }
+
+        if (request.confirmedAt) {
+            await this.assertEmailAvailable(request.oldEmail, request.userId);
+        }
+
+        const now = new Date();
+
+        await prisma.$transaction(async (tx) => {
+            const consumed = await tx.emailChangeRequest.updateMany({
+                where: { id: request.id, revertedAt: null },
+                data: { revertedAt: now },
+            });
+
+            if (consumed.count === 0) {
+                throw new BadRequestError(AUTH_ERRORS.INVALID_TOKEN);
+            }
+
+            if (request.confirmedAt) {
+                // The link was delivered to the old address, which proves it is still owned
+                await tx.user.update({
+                    where: { id: request.userId },
+                    data: { email: request.oldEmail, emailVerifiedAt: now },
+                });
+            }
+        });
+
+        await sessionService.revokeAllSessions(request.userId, request.userId);
+
+        await authService.logAuditEvent(
+            request.userId,
+            request.confirmedAt ? 'email_change_reverted' : 'email_change_cancelled',
+            { oldEmail: request.oldEmail, newEmail: request.newEmail },
+            `user:${request.userId}`
+        );
+
+        logger.info(`Email change reverted for user: ${request.userId}`);
+    }
+
+    /**
+     * Delete requests past their revert window (an unconfirmed request can still be reported until then)
+     */
+    async purgeExpiredRequests(): Promise<number> {
+        const result = await prisma.emailChangeRequest.deleteMany({
+            where: { revertExpiresAt: { lt: new Date() } },
+        });
+
+        return result.count;
+    }
+
+    private async assertEmailAvailable(email: string, exceptUserId?: string): Promise<void> {
+        const existing = await prisma.user.findUnique({ where: { email } });
+
+        if (existing && existing.id !== exceptUserId) {
+            throw new ConflictError(USER_ERRORS.EMAIL_TAKEN);
+        }
+    }
+}
+
+/******************************************************************************
+                                Export
+******************************************************************************/
+
+const emailChangeService = new EmailChangeService();
+export default emailChangeService;
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TooManyRequestsError } from '@src/common/errors/ApiErrors';
+import { prisma } from '@src/common/utils/prisma';
+import { resetMemoryPrisma } from '@src/test/memoryPrisma';
+import { AUTH_ERRORS, LOGIN_THROTTLE } from '@src/models/auth';
+import loginThrottleService from './loginThrottleService';
+
+vi.mock('@src/common/utils/prisma', async () => {
+    const { createMemoryPrisma } = await import('@src/test/memoryPrisma');
+    return { prisma: createMemoryPrisma() };
+});
+
+const email = 'ada@example.com';
+const ip = '203.0.113.7';
+
+// Seconds the next attempt has to wait (0 when it is allowed)
+const retryAfter = async (address: string, ipAddress?: string): Promise<number> => {
+    try {
+        await loginThrottleService.check(address, ipAddress);
+        return 0;
+    } catch (error) {
+        if (error instanceof TooManyRequestsError) {
+            return error.retryAfter ?? 0;
+        }
+        throw error;
+    }
+};
+
+const fail = async (times: number, address: string = email, ipAddress?: string) => {
+    for (let i = 0; i < times; i++) {
+        await loginThrottleService.recordFailure(address, ipAddress);
+    }
+};
+
+describe('loginThrottleService', () => {
+    beforeEach(() => {
+        resetMemoryPrisma(prisma);
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('delays retries exponentially after the first failures', async () => {
+        await fail(LOGIN_THROTTLE.DELAY_AFTER - 1);
+        expect(await retryAfter(email)).toBe(0);
+
+        await fail(1);
+        expect(await retryAfter(email)).toBe(LOGIN_THROTTLE.BASE_DELAY);
+        await fail(1);
+        expect(await retryAfter(email)).toBe(LOGIN_THROTTLE.BASE_DELAY * 2);
+        await fail(1);
+        expect(await retryAfter(email)).toBe(LOGIN_THROTTLE.BASE_DELAY * 4);
+
+        vi.advanceTimersByTime(LOGIN_THROTTLE.BASE_DELAY * 4 * 1000);
+        expect(await retryAfter(email)).toBe(0);
+    });
+
+    it('locks the account once the failure limit is reached', async () => {
+        await fail(LOGIN_THROTTLE.ACCOUNT_MAX_FAILURES - 1);
+
+        const lockouts = await loginThrottleService.recordFailure(email);
+
+        expect(lockouts).toEqual([{ scope: 'account', lockedUntil: new Date(Date.now() + LOGIN_THROTTLE.LOCKOUT_DURATION * 1000) }]);
+        await expect(loginThrottleService.check(email)).rejects.toThrow(AUTH_ERRORS.ACCOUNT_LOCKED);
+        expect(await retryAfter(email)).toBe(LOGIN_THROTTLE.LOCKOUT_DURATION);
+
+        vi.advanceTimersByTime(LOGIN_THROTTLE.LOCKOUT_DURATION * 1000);
+        expect(await retryAfter(email)).toBe(0);
+    });
+
+    it('doubles consecutive lockouts, and forgets them after a quiet period', async () => {
+        const lockOut = async () => {
+            await fail(LOGIN_THROTTLE.ACCOUNT_MAX_FAILURES - 1);
+            const [lockout] = await loginThrottleService.recordFailure(email);
+            const duration = (lockout!.lockedUntil.getTime() - Date.now()) / 1000;
+            vi.advanceTimersByTime(duration * 1000);
+            return duration;
+        };
+
+        expect(await lockOut()).toBe(LOGIN_THROTTLE.LOCKOUT_DURATION);
+        expect(await lockOut()).toBe(LOGIN_THROTTLE.LOCKOUT_DURATION * 2);
+        expect(await lockOut()).toBe(LOGIN_THROTTLE.LOCKOUT_DURATION * 4);
+
+        vi.advanceTimersByTime(LOGIN_THROTTLE.MAX_LOCKOUT_DURATION * 1000 + 1);
+        expect(await lockOut()).toBe(LOGIN_THROTTLE.LOCKOUT_DURATION);
+    });
+
+    it('tracks accounts by normalised email', async () => {
+        await fail(LOGIN_THROTTLE.DELAY_AFTER, ' Ada@Example.COM ');
+
+        expect(await retryAfter(email)).toBeGreaterThan(0);
+    });
+
+    it('keeps the IP failures when the account signs in', async () => {
+        await fail(LOGIN_THROTTLE.DELAY_AFTER, email, ip);
+
+        await loginThrottleService.recordSuccess(email);
+
+        expect(await retryAfter(email)).toBe(0);
+        expect(await retryAfter('bob@example.com', ip)).toBeGreaterThan(0);
+        await expect(loginThrottleService.check('bob@example.com', ip)).rejects.toThrow(AUTH_ERRORS.TOO_MANY_ATTEMPTS);
+    });
+
+    it('blocks an IP address that fails across many accounts', async () => {
+        for (let i = 0; i < LOGIN_THROTTLE.IP_MAX_FAILURES - 1; i++) {
+            expect(await loginThrottleService.recordFailure(`user${i}@example.com`, ip)).toEqual([]);
+        }
+
+        const lockouts = await loginThrottleService.recordFailure('last@example.com', ip);
+
+        expect(lockouts).toEqual([expect.objectContaining({ scope: 'ip' })]);
+        expect(await retryAfter('new@example.com', ip)).toBe(LOGIN_THROTTLE.LOCKOUT_DURATION);
+    });
+
+    it('starts one lockout when concurrent failures reach the limit together', async () => {
+        await fail(LOGIN_THROTTLE.ACCOUNT_MAX_FAILURES - 2);
+
+        const results = await Promise.all([
+            loginThrottleService.recordFailure(email),
+            loginThrottleService.recordFailure(email),
+            loginThrottleService.recordFailure(email),
+        ]);
+
+        expect(results.flat()).toHaveLength(1);
+        expect(await prisma.loginThrottle.findFirst({ where: { scope: 'account' } })).toMatchObject({ lockouts: 1 });
+    });
+
+    it('unlocks an account', async () => {
+        await fail(LOGIN_THROTTLE.ACCOUNT_MAX_FAILURES);
+
+        expect(await loginThrottleService.unlock(email)).toBe(true);
+        expect(await retryAfter(email)).toBe(0);
+        expect(await loginThrottleService.unlock(email)).toBe(false);
+    });
+
+    it('purges records with no recent failures and no active lockout', async () => {
+        await fail(1, email);
+        await fail(LOGIN_THROTTLE.ACCOUNT_MAX_FAILURES, 'bob@example.com');
+        await prisma.loginThrottle.updateMany({
+            where: { key: 'bob@example.com' },
+            data: { lockedUntil: new Date(Date.now() + 2 * LOGIN_THROTTLE.MAX_LOCKOUT_DURATION * 1000) },
+        });
+
+        vi.advanceTimersByTime(LOGIN_THROTTLE.MAX_LOCKOUT_DURATION * 1000 + 1);
+
+        expect(await loginThrottleService.purgeStale()).toBe(1);
+        expect(await prisma.loginThrottle.findMany({ select: { key: true } })).toEqual([{ key: 'bob@example.com' }]);
+    });
+});
@@ -0,0 +1,198 @@
+import { TooManyRequestsError } from '@src/common/errors/ApiErrors';
+import { prisma } from '@src/common/utils/prisma';
+import { AUTH_ERRORS, LOGIN_THROTTLE } from '@src/models/auth';
+import type { LoginThrottle } from '@src/generated/prisma';
+
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+export type ThrottleScope = 'account' | 'ip';
+
+// A lockout started by the failure just recorded
+export interface Lockout {
+    scope: ThrottleScope;
+    lockedUntil: Date;
+}
+
+/******************************************************************************
+                            Login Throttle Service
+******************************************************************************/
+
+/**
+ * Failed sign-in tracking. Each failure makes the next attempt wait exponentially longer,
+ * and too many failures lock the account (or block the IP) for a while. Accounts are keyed
+ * by email, so unknown emails behave exactly like real ones.
+ */
+class LoginThrottleService {
+    /**
+     * Reject the attempt (before any password check) while locked out or inside a retry delay
+     */
+    async check(email: string, ipAddress?: string): Promise<void> {
+        const records = await prisma.loginThrottle.findMany({
+            where: { OR: this.keys(email, ipAddress) },
+        });
+
+        const retryAfter = Math.max(0, ...records.map(record => this.getRetryAfter(record)));
+        if (retryAfter === 0) {
+            return;
+        }
+
+        const accountLocked = records.some(record =>
+            record.scope === 'account' && record.lockedUntil !== null && record.lockedUntil > new Date()
+        );
+        const message = accountLocked ? AUTH_ERRORS.ACCOUNT_LOCKED : AUTH_ERRORS.TOO_MANY_ATTEMPTS;
+
+        throw new TooManyRequestsError(message, { retryAfter }, retryAfter);
+    }
+
+    /**
+     * Count a failure for the account and the IP; returns the lockouts it started
+     */
+    async recordFailure(email: string, ipAddress?: string): Promise<Lockout[]> {
+        const lockouts: Lockout[] = [];
+
+        for (const { scope, key } of this.keys(email, ipAddress)) {
+            const lockout = await this.registerFailure(scope, key);
+            if (lockout) {
+                lockouts.push(lockout);
+            }
+        }
+
+        return lockouts;
+    }
+
+    /**
+     * Forget the account's failures after a successful sign-in (the IP's are kept,
+     * so signing in to one's own account can't reset an attack from the same address)
+     */
+    async recordSuccess(email: string): Promise<void> {
+        await prisma.loginThrottle.deleteMany({
+            where: { scope: 'account', key: this.normalizeEmail(email) },
+        });
+    }
+
+    /**
+     * Lift an account lockout; returns whether one was active
+     */
+    async unlock(email: string): Promise<boolean> {
+        const record = await prisma.loginThrottle.findUnique({
+            where: { scope_key: { scope: 'account', key: this.normalizeEmail(email) } },
+        });
+
+        if (!record) {
+            return false;
+        }
+
+        await prisma.loginThrottle.delete({ where: { id: record.id } });
+
+        return record.lockedUntil !== null && record.lockedUntil > new Date();
+    }
+
+    /**
+     * Delete records with no recent failures and no active lockout
+     */
+    async purgeStale(): Promise<number> {
+        const now = Date.now();
+
+        const result = await prisma.loginThrottle.deleteMany({
+            where: {
+                lastFailureAt: { lt: new Date(now - LOGIN_THROTTLE.MAX_LOCKOUT_DURATION * 1000) },
+                OR: [{ lockedUntil: null }, { lockedUntil: { lt: new Date(now) } }],
+            },
+        });
+
+        return result.count;
+    }
+
+    /**
+     * Apply one failure to a record, locking it once the limit is reached. Every step is a single
+     * atomic statement, so concurrent failures all count and only one of them starts the lockout.
+     */
+    private async registerFailure(scope: ThrottleScope, key: string): Promise<Lockout | null> {
+        const now = new Date();
+        const olderThan = (seconds: number) => ({ lt: new Date(now.getTime() - seconds * 1000) });
+
+        // Failures outside the window no longer count, and lockouts that long ago no longer escalate
+        await prisma.loginThrottle.updateMany({
+            where: { scope, key, lastFailureAt: olderThan(LOGIN_THROTTLE.MAX_LOCKOUT_DURATION) },
+            data: { failures: 0, lockouts: 0 },
+        });
+        await prisma.loginThrottle.updateMany({
+            where: { scope, key, lastFailureAt: olderThan(LOGIN_THROTTLE.FAILURE_WINDOW) },
+            data: { failures: 0 },
+        });
+
+        const record = await prisma.loginThrottle.upsert({
+            where: { scope_key: { scope, key } },
+            create: { scope, key, failures: 1, lastFailureAt: now },
+            update: { failures: { increment: 1 }, lastFailureAt: now },
+        });
+
+        const maxFailures = scope === 'account' ? LOGIN_THROTTLE.ACCOUNT_MAX_FAILURES : LOGIN_THROTTLE.IP_MAX_FAILURES;
+
+        if (record.failures < maxFailures) {
+            return null;
+        }
+
+        // Each consecutive lockout lasts twice as long, up to the maximum
+        const duration = Math.min(
+            LOGIN_THROTTLE.LOCKOUT_DURATION * 2 ** record.lockouts,
+            LOGIN_THROTTLE.MAX_LOCKOUT_DURATION
+        );
+        const lockedUntil = new Date(now.getTime() + duration * 1000);
+
+        // Failures that reached the limit together start one lockout: the first resets the count
+        const locked = await prisma.loginThrottle.updateMany({
+            where: { id: record.id, failures: { gte: maxFailures } },
+            data: { failures: 0, lockouts: { increment: 1 }, lockedUntil },
+        });
+
+        return locked.count === 1 ? { scope, lockedUntil } : null;
+    }
+
+    /**
+     * Seconds until the next attempt is allowed (0 when it is allowed now)
+     */
+    private getRetryAfter(record: LoginThrottle): number {
+        const now = Date.now();
+
+        if (record.lockedUntil && record.lockedUntil.getTime() > now) {
+            return Math.ceil((record.lockedUntil.getTime() - now) / 1000);
+        }
+
+        if (!record.lastFailureAt || record.failures < LOGIN_THROTTLE.DELAY_AFTER) {
+            return 0;
+        }
+
+        const elapsed = now - record.lastFailureAt.getTime();
+        if (elapsed > LOGIN_THROTTLE.FAILURE_WINDOW * 1000) {
+            return 0;
+        }
+
+        const delay = Math.min(
+            LOGIN_THROTTLE.BASE_DELAY * 2 ** (record.failures - LOGIN_THROTTLE.DELAY_AFTER),
+            LOGIN_THROTTLE.MAX_DELAY
+        );
+
+        return Math.max(0, Math.ceil((delay * 1000 - elapsed) / 1000));
+    }
+
+    private keys(email: string, ipAddress?: string): { scope: ThrottleScope; key: string }[] {
+        return [
+            { scope: 'account', key: this.normalizeEmail(email) },
+            ...(ipAddress ? [{ scope: 'ip' as const, key: ipAddress }] : []),
+        ];
+    }
+
+    private normalizeEmail(email: string): string {
+        return email.trim().toLowerCase();
+    }
+}
+
+/******************************************************************************
+                                Export
+******************************************************************************/
+
+const loginThrottleService = new LoginThrottleService();
+export default loginThrottleService;
@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MemoryTransport, type MailTransport } from '@src/common/mail/transports';
+import mailService from './mailService';
+
+describe('mailService', () => {
+    let transport: MemoryTransport;
+
+    beforeEach(() => {
+        transport = new MemoryTransport();
+        mailService.setTransport(transport);
+    });
+
+    it('delivers queued mail in the background', async () => {
+        const link = mailService.appLink('/verify-email', { token: 'abc' });
+
+        mailService.enqueue('verification', 'ada@example.com', { name: 'Ada', link });
+        await mailService.drain();
+
+        const message = transport.lastTo('ada@example.com');
+        expect(message).toMatchObject({ from: 'no-reply@example.com', subject: 'Verify your email address' });
+        expect(message?.text).toContain('Hi Ada,');
+        expect(message?.text).toContain('http://localhost:3000/verify-email?token=abc');
+        expect(message?.html).toContain('href="http://localhost:3000/verify-email?token=abc"');
+    });
+
+    it('renders in the closest supported locale', async () => {
+        mailService.enqueue('passwordReset', 'ana@example.com', { name: 'Ana', link: 'http://localhost:3000/reset', expiresInMinutes: 60 }, 'es-MX');
+        mailService.enqueue('passwordReset', 'kai@example.com', { name: 'Kai', link: 'http://localhost:3000/reset', expiresInMinutes: 60 }, 'fr');
+        await mailService.drain();
+
+        expect(transport.lastTo('ana@example.com')?.subject).toBe('Restablece tu contraseña');
+        expect(transport.lastTo('kai@example.com')?.subject).toBe('Reset your password');
+    });
+
+    it('escapes variables in the HTML variant', async () => {
+        mailService.enqueue('accountLocked', 'eve@example.com', { name: '<script>alert(1)</script>', until: 'soon' });
+        await mailService.drain();
+
+        const message = transport.lastTo('eve@example.com');
+        expect(message?.text).toContain('<script>');
+        expect(message?.html).not.toContain('<script>');
+        expect(message?.html).toContain('&lt;script&gt;');
+    });
+
+    it('retries a failed delivery', async () => {
+        let failures = 1;
+        const flaky: MailTransport = {
+            name: 'flaky',
+            send: async (message) => {
+                if (failures-- > 0) {
+                    throw new Error('Connection refused');
+                }
+                await transport.send(message);
+            },
+        };
+        mailService.setTransport(flaky);
+
+        mailService.enqueue('tokenReuse', 'bob@example.com', { name: 'Bob', time: 'now' });
+        await mailService.drain();
+
+        expect(transport.messages).toHaveLength(1);
+        expect(transport.lastTo('bob@example.com')?.subject).toBe('Suspicious activity on your account');
+    });
+});
@@ -0,0 +1,117 @@
+import {
+    ConsoleTransport,
+    FileTransport,
+    MemoryTransport,
+    SmtpTransport,
+    type MailMessage,
+    type MailTransport,
+} from '@src/common/mail/transports';
+import { renderTemplate, resolveLocale, type MailTemplateName, type MailTemplateVariables, type RenderedMail } from '@src/common/mail/templates';
+import { MailQueue, type MailQueueOptions } from '@src/common/mail/queue';
+import { ENV } from '@src/common/constants/env';
+import logger from '@src/common/utils/logger';
+
+/******************************************************************************
+                                Mail Service
+******************************************************************************/
+
+class MailService {
+    private transport: MailTransport;
+    private readonly queue: MailQueue;
+
+    constructor(queueOptions: Partial<MailQueueOptions> = {
+        maxAttempts: ENV.MAIL_MAX_ATTEMPTS,
+        retryDelayMs: ENV.MAIL_RETRY_DELAY_MS,
+    }) {
+        this.transport = this.createTransport();
+        this.queue = new MailQueue(message => this.send(message), queueOptions);
+    }
+
+    /**
+     * Replace the active transport (e.g. with a provider or a test double)
+     */
+    setTransport(transport: MailTransport): void {
+        this.transport = transport;
+    }
+
+    getTransport(): MailTransport {
+        return this.transport;
+    }
+
+    /**
+     * Build an absolute link into the frontend
+     */
+    appLink(pathname: string, params: Record<string, string> = {}): string {
+        const url = new URL(ENV.APP_URL.replace(/\/$/, '') + pathname);
+        Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+        return url.toString();
+    }
+
+    /**
+     * Render a template in the best matching locale
+     */
+    render<T extends MailTemplateName>(
+        template: T,
+        variables: MailTemplateVariables[T],
+        locale?: string | null
+    ): RenderedMail {
+        return renderTemplate(template, variables, resolveLocale(locale, ENV.MAIL_DEFAULT_LOCALE));
+    }
+
+    /**
+     * Send a message immediately through the active transport
+     */
+    async send(message: Omit<MailMessage, 'from'> & { from?: string }): Promise<void> {
+        await this.transport.send({ ...message, from: message.from ?? ENV.MAIL_FROM });
+        logger.info(`Mail "${message.subject}" sent via ${this.transport.name} transport`);
+    }
+
+    /**
+     * Render a template and queue it for background delivery.
+     * Returns immediately; delivery failures are retried and logged, never thrown.
+     */
+    enqueue<T extends MailTemplateName>(
+        template: T,
+        to: string,
+        variables: MailTemplateVariables[T],
+        locale?: string | null
+    ): void {
+        const rendered = this.render(template, variables, locale);
+        this.queue.push({ to, from: ENV.MAIL_FROM, ...rendered });
+    }
+
+    /**
+     * Wait until all queued mail has been processed
+     */
+    drain(): Promise<void> {
+        return this.queue.drain();
+    }
+
+    /**
+     * Build the transport configured by MAIL_TRANSPORT
+     */
+    private createTransport(): MailTransport {
+        switch (ENV.MAIL_TRANSPORT) {
+            case 'smtp':
+                return new SmtpTransport({
+                    host: ENV.SMTP_HOST,
+                    port: ENV.SMTP_PORT,
+                    secure: ENV.SMTP_SECURE,
+                    ...(ENV.SMTP_USER ? { user: ENV.SMTP_USER, pass: ENV.SMTP_PASS } : {}),
+                });
+            case 'file':
+                return new FileTransport(ENV.MAIL_OUTBOX_DIR);
+            case 'memory':
+                return new MemoryTransport();
+            default:
+                return new ConsoleTransport();
+        }
+    }
+}
+
+/******************************************************************************
+                                Export
+******************************************************************************/
+
+const mailService = new MailService();
+export default mailService;
@@ -0,0 +1,216 @@
+import { randomBytes } from 'crypto';
+import { BadRequestError, ConflictError } from '@src/common/errors/ApiErrors';
+import logger from '@src/common/utils/logger';
+import { prisma } from '@src/common/utils/prisma';
+import { hashToken } from '@src/common/utils/tokens';
+import { SecretBox } from '@src/common/utils/secretBox';
+import { AUTH_CONFIG } from '@src/common/constants/authConfig';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '@src/common/auth/totp';
+import { MFA_CONFIG, MFA_ERRORS, type MfaChallengeType, type MfaEnrollmentResponse, type MfaMethod, type MfaStatus } from '@src/models/mfa';
+import type { UserWithRoles } from '@src/models/user';
+import type { User } from '@src/generated/prisma';
+
+/******************************************************************************
+                            Two-Factor Authentication Service
+******************************************************************************/
+
+class MfaService {
+    private readonly secretBox: SecretBox;
+
+    constructor() {
+        this.secretBox = new SecretBox(AUTH_CONFIG.mfaEncryptionKey);
+    }
+
+    /**
+     * Whether the user has confirmed TOTP enrollment
+     */
+    isEnabled(user: User): boolean {
+        return user.mfaEnabledAt !== null && user.mfaSecret !== null;
+    }
+
+    /**
+     * Whether any of the user's active roles enforces two-factor authentication
+     */
+    isRequiredByRole(user: UserWithRoles): boolean {
+        return user.userRoles.some(ur => ur.role.isActive && ur.role.requireMfa);
+    }
+
+    /**
+     * Two-factor state for the user's profile
+     */
+    async getStatus(user: UserWithRoles): Promise<MfaStatus> {
+        const recoveryCodesRemaining = await prisma.recoveryCode.count({
+            where: { userId: user.id, usedAt: null },
+        });
+
+        return {
+            enabled: this.isEnabled(user),
+            requiredByRole: this.isRequiredByRole(user),
+            recoveryCodesRemaining,
+        };
+    }
+
+    /**
+     * Which challenge (if any) must be passed before login completes.
+     * A registered passkey satisfies a role's requirement on its own.
+     */
+    getLoginChallenge(user: UserWithRoles, hasPasskey: boolean): MfaChallengeType | null {
+        if (this.isEnabled(user) || (hasPasskey && this.isRequiredByRole(user))) {
+            return 'mfa_required';
+        }
+
+        return this.isRequiredByRole(user) ? 'mfa_enrollment_required' : null;
+    }
+
+    /**
+     * Second factors the user can answer a challenge with
+     */
+    getAvailableMethods(user: User, hasPasskey: boolean): MfaMethod[] {
+        const methods: MfaMethod[] = this.isEnabled(user) ? ['totp', 'recovery_code'] : [];
+        return hasPasskey ? [...methods, 'passkey'] : methods;
+    }
+
+    /**
+     * Generate and store a new (unconfirmed) secret
+     */
+    async startEnrollment(user: User): Promise<MfaEnrollmentResponse> {
+        if (this.isEnabled(user)) {
+            throw new ConflictError(MFA_ERRORS.ALREADY_ENABLED);
+        }
+
+        const secret = generateTotpSecret();
+
+        await prisma.user.update({
+            where: { id: user.id },
+            data: {
+                mfaSecret: this.secretBox.encrypt(secret),
+                mfaEnabledAt: null,
+                mfaLastUsedStep: null,
+            },
+        });
+
+        return {
+            secret,
+            otpauthUri: buildOtpauthUri(secret, user.email, MFA_CONFIG.ISSUER),
+        };
+    }
+
+    /**
+     * Confirm enrollment with a valid code and issue recovery codes
+     */
+    async confirmEnrollment(user: User, code: string): Promise<string[]> {
+        if (this.isEnabled(user)) {
+            throw new ConflictError(MFA_ERRORS.ALREADY_ENABLED);
+        }
+
+        if (!user.mfaSecret) {
+            throw new BadRequestError(MFA_ERRORS.ENROLLMENT_NOT_STARTED);
+        }
+
+        const step = verifyTotp(this.secretBox.decrypt(user.mfaSecret), code.trim());
+        if (step === null) {
+            throw new BadRequestError(MFA_ERRORS.INVALID_CODE);
+        }
+
+        await prisma.user.update({
+            where: { id: user.id },
+            data: {
+                mfaEnabledAt: new Date(),
+                mfaLastUsedStep: step,
+            },
+        });
+
+        return this.regenerateRecoveryCodes(user.id);
+    }
+
+    /**
+     * Check a TOTP or recovery code. Accepted codes can't be used again.
+     */
+    async verifyCode(user: User, code: string): Promise<MfaMethod | null> {
+        if (!this.isEnabled(user) || !user.mfaSecret) {
+            return null;
+        }
+
+        const normalized = code.trim();
+
+        const step = verifyTotp(this.secretBox.decrypt(user.mfaSecret), normalized);
+        if (step !== null) {
+            // Reject the same (or an older) time step, so an observed code can't be replayed
+            const accepted = await prisma.user.updateMany({
+                where: {
+                    id: user.id,
+                    OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+                },
+                data: { mfaLastUsedStep: step },
+            });
+
+            return accepted.count > 0 ? 'totp' : null;
+        }
+
+        const consumed = await prisma.recoveryCode.updateMany({
+            where: {
+                userId: user.id,
+                codeHash: this.hashRecoveryCode(normalized),
+                usedAt: null,
+            },
+            data: { usedAt: new Date() },
+        });
+
+        if (consumed.count > 0) {
+            logger.info(`Recovery code used by user: ${user.id}`);
+            return 'recovery_code';
+        }
+
+        return null;
+    }
+
+    /**
+     * Replace all recovery codes; returns the new plain codes (shown to the user once)
+     */
+    async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+        const codes = Array.from({ length: MFA_CONFIG.RECOVERY_CODE_COUNT }, () => {
+            const raw = randomBytes(5).toString('hex');
+            return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+        });
+
+        await prisma.$transaction([
+            prisma.recoveryCode.deleteMany({ where: { userId } }),
+            prisma.recoveryCode.createMany({
+                data: codes.map(code => ({ userId, codeHash: this.hashRecoveryCode(code) })),
+            }),
+        ]);
+
+        return codes;
+    }
+
+    /**
+     * Remove the secret and recovery codes
+     */
+    async disable(userId: string): Promise<void> {
+        await prisma.$transaction([
+            prisma.recoveryCode.deleteMany({ where: { userId } }),
+            prisma.user.update({
+                where: { id: userId },
+                data: {
+                    mfaSecret: null,
+                    mfaEnabledAt: null,
+                    mfaLastUsedStep: null,
+                },
+            }),
+        ]);
+    }
+
+    /**
+     * Recovery codes are compared case-insensitively and without the separator
+     */
+    private hashRecoveryCode(code: string): string {
+        return hashToken(code.toLowerCase().replace(/[^a-z0-9]/g, ''));
+    }
+}
+
+/******************************************************************************
+                                Export
+******************************************************************************/
+
+const mfaService = new MfaService();
+export default mfaService;
@@ -0,0 +1,96 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { MockOidcProvider } from '@src/common/auth/mockOidcProvider';
+import { BadRequestError, UnauthorizedError } from '@src/common/errors/ApiErrors';
+import { OIDC_ERRORS, type OidcCallbackRequest } from '@src/models/oidc';
+import oidcService from './oidcService';
+
+vi.mock('@src/common/utils/prisma', async () => {
+    const { createMemoryPrisma } = await import('@src/test/memoryPrisma');
+    return { prisma: createMemoryPrisma() };
+});
+
+const CLIENT = { clientId: 'test-client', clientSecret: 'test-client-secret' };
+
+/**
+ * Follow the authorization URL like a browser would, up to the redirect back to the API
+ */
+async function authorize(authorizationUrl: string): Promise<OidcCallbackRequest> {
+    const response = await fetch(authorizationUrl, { redirect: 'manual' });
+    const callback = new URL(response.headers.get('location')!);
+
+    return {
+        state: callback.searchParams.get('state')!,
+        code: callback.searchParams.get('code')!,
+        rememberMe: false,
+    };
+}
+
+describe('oidcService', () => {
+    const provider = new MockOidcProvider(CLIENT);
+
+    beforeAll(async () => {
+        const issuer = await provider.start();
+        oidcService.registerProvider({
+            name: 'mock',
+            displayName: 'Mock',
+            ...CLIENT,
+            issuer,
+            scopes: ['openid', 'email', 'profile'],
+        });
+    });
+
+    afterAll(() => provider.stop());
+
+    it('signs in with the account the provider asserts', async () => {
+        const callback = await authorize(await oidcService.createAuthorizationUrl('mock', null));
+
+        const result = await oidcService.handleCallback('mock', callback);
+
+        expect(result).toEqual({
+            profile: {
+                subject: 'mock-user-1',
+                email: 'mock.user@example.com',
+                emailVerified: true,
+                firstName: 'Mock',
+                lastName: 'User',
+            },
+            linkUserId: null,
+        });
+    });
+
+    it('returns the signed-in user when linking an identity', async () => {
+        const callback = await authorize(await oidcService.createAuthorizationUrl('mock', 'user-1'));
+
+        const { linkUserId } = await oidcService.handleCallback('mock', callback);
+
+        expect(linkUserId).toBe('user-1');
+    });
+
+    it('redeems each state only once', async () => {
+        const callback = await authorize(await oidcService.createAuthorizationUrl('mock', null));
+        await oidcService.handleCallback('mock', callback);
+
+        await expect(oidcService.handleCallback('mock', callback)).rejects.toThrow(OIDC_ERRORS.INVALID_STATE);
+    });
+
+    it('rejects a state it never issued', async () => {
+        const callback = await authorize(await oidcService.createAuthorizationUrl('mock', null));
+
+        await expect(oidcService.handleCallback('mock', { ...callback, state: 'forged' }))
+            .rejects.toBeInstanceOf(UnauthorizedError);
+    });
+
+    it('rejects a code the provider did not issue', async () => {
+        const callback = await authorize(await oidcService.createAuthorizationUrl('mock', null));
+
+        await expect(oidcService.handleCallback('mock', { ...callback, code: 'forged' }))
+            .rejects.toThrow(OIDC_ERRORS.INVALID_ID_TOKEN);
+    });
+
+    it('reports an error sent back by the provider', async () => {
+        const { state } = await authorize(await oidcService.createAuthorizationUrl('mock', null));
+
+        await expect(oidcService.handleCallback('mock', { state, error: 'access_denied', rememberMe: false }))
+            .rejects.toBeInstanceOf(BadRequestError);
+    });
+});
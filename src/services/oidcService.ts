@@ -0,0 +1,207 @@
+import { BadRequestError, NotFoundError, UnauthorizedError } from '@src/common/errors/ApiErrors';
+import { ENV } from '@src/common/constants/env';
+import logger from '@src/common/utils/logger';
+import { prisma } from '@src/common/utils/prisma';
+import { generateOpaqueToken } from '@src/common/utils/tokens';
+import { createPkcePair, OidcClient } from '@src/common/auth/oidcClient';
+import { loadOidcProviders, type OidcProviderConfig } from '@src/common/auth/oidcProviders';
+import {
+    OIDC_CONFIG,
+    OIDC_ERRORS,
+    transformIdentityToResponse,
+    type ExternalProfile,
+    type IdentityResponse,
+    type OidcCallbackRequest,
+    type OidcProviderInfo,
+} from '@src/models/oidc';
+import type { UserIdentity } from '@src/generated/prisma';
+
+/******************************************************************************
+                            Social Login (OIDC) Service
+******************************************************************************/
+
+class OidcService {
+    private readonly providers: Map<string, OidcProviderConfig>;
+    private readonly clients = new Map<string, OidcClient>();
+
+    constructor() {
+        this.providers = loadOidcProviders();
+    }
+
+    /**
+     * Enabled providers
+     */
+    listProviders(): OidcProviderInfo[] {
+        return [...this.providers.values()].map(({ name, displayName }) => ({ name, displayName }));
+    }
+
+    /**
+     * Register a provider at runtime (e.g. a mock provider started by a test)
+     */
+    registerProvider(config: OidcProviderConfig): void {
+        this.providers.set(config.name, config);
+        this.clients.delete(config.name);
+    }
+
+    /**
+     * Start the authorization code flow. The state, nonce and PKCE verifier are kept server-side
+     * until the callback; userId is set when a signed-in user links a new identity.
+     */
+    async createAuthorizationUrl(providerName: string, userId: string | null): Promise<string> {
+        const client = this.getClient(providerName);
+        const state = generateOpaqueToken();
+        const nonce = generateOpaqueToken();
+        const pkce = createPkcePair();
+
+        await prisma.oidcAuthRequest.create({
+            data: {
+                state,
+                provider: providerName,
+                nonce,
+                codeVerifier: pkce.verifier,
+                userId,
+                expiresAt: new Date(Date.now() + OIDC_CONFIG.REQUEST_EXPIRY * 1000),
+            },
+        });
+
+        return client.getAuthorizationUrl({ state, nonce, codeChallenge: pkce.challenge });
+    }
+
+    /**
+     * Validate the callback and return the external account, plus the user to link it to (if linking)
+     */
+    async handleCallback(
+        providerName: string,
+        data: OidcCallbackRequest
+    ): Promise<{ profile: ExternalProfile; linkUserId: string | null }> {
+        const client = this.getClient(providerName);
+
+        // Consume the request first so a state can only be redeemed once, even on failure
+        const request = await prisma.oidcAuthRequest.findUnique({ where: { state: data.state } });
+        if (request) {
+            await prisma.oidcAuthRequest.deleteMany({ where: { id: request.id } });
+        }
+
+        if (!request || request.provider !== providerName || request.expiresAt < new Date()) {
+            throw new UnauthorizedError(OIDC_ERRORS.INVALID_STATE);
+        }
+
+        if (data.error || !data.code) {
+            logger.warn(`Sign-in with ${providerName} failed: ${data.error ?? 'no code'} ${data.error_description ?? ''}`);
+            throw new BadRequestError(OIDC_ERRORS.PROVIDER_ERROR);
+        }
+
+        const profile = await client.authenticate(data.code, request.codeVerifier, request.nonce).catch(error => {
+            logger.warn(`Sign-in with ${providerName} rejected: ${String(error)}`);
+            throw new UnauthorizedError(OIDC_ERRORS.INVALID_ID_TOKEN);
+        });
+
+        return { profile, linkUserId: request.userId };
+    }
+
+    /**
+     * Find the identity for an external account
+     */
+    async findIdentity(providerName: string, subject: string): Promise<UserIdentity | null> {
+        return prisma.userIdentity.findUnique({
+            where: { provider_subject: { provider: providerName, subject } },
+        });
+    }
+
+    /**
+     * Link an external account to a user
+     */
+    async linkIdentity(userId: string, providerName: string, profile: ExternalProfile): Promise<UserIdentity> {
+        return prisma.userIdentity.create({
+            data: {
+                userId,
+                provider: providerName,
+                subject: profile.subject,
+                email: profile.email,
+                emailVerified: profile.emailVerified,
+                lastLoginAt: new Date(),
+            },
+        });
+    }
+
+    /**
+     * Record a sign-in through an identity, refreshing the email the provider asserted
+     */
+    async touchIdentity(identityId: string, profile: ExternalProfile): Promise<UserIdentity> {
+        return prisma.userIdentity.update({
+            where: { id: identityId },
+            data: {
+                email: profile.email,
+                emailVerified: profile.emailVerified,
+                lastLoginAt: new Date(),
+            },
+        });
+    }
+
+    /**
+     * List a user's linked identities
+     */
+    async listIdentities(userId: string): Promise<IdentityResponse[]> {
+        const identities = await prisma.userIdentity.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        return identities.map(transformIdentityToResponse);
+    }
+
+    /**
+     * Count a user's linked identities
+     */
+    async countIdentities(userId: string): Promise<number> {
+        return prisma.userIdentity.count({ where: { userId } });
+    }
+
+    /**
+     * Unlink one of a user's identities
+     */
+    async deleteIdentity(userId: string, identityId: string): Promise<void> {
+        const deleted = await prisma.userIdentity.deleteMany({ where: { id: identityId, userId } });
+
+        if (deleted.count === 0) {
+            throw new NotFoundError(OIDC_ERRORS.IDENTITY_NOT_FOUND);
+        }
+    }
+
+    /**
+     * Delete sign-in requests that were never completed
+     */
+    async purgeExpiredRequests(): Promise<number> {
+        const result = await prisma.oidcAuthRequest.deleteMany({
+            where: { expiresAt: { lt: new Date() } },
+        });
+
+        return result.count;
+    }
+
+    /**
+     * Client for an enabled provider
+     */
+    private getClient(providerName: string): OidcClient {
+        const config = this.providers.get(providerName);
+        if (!config) {
+            throw new NotFoundError(OIDC_ERRORS.UNKNOWN_PROVIDER);
+        }
+
+        let client = this.clients.get(providerName);
+        if (!client) {
+            const redirectUri = `${ENV.OIDC_REDIRECT_BASE_URL.replace(/\/$/, '')}/${providerName}/callback`;
+            client = new OidcClient(config, redirectUri, OIDC_CONFIG.CLOCK_TOLERANCE);
+            this.clients.set(providerName, client);
+        }
+
+        return client;
+    }
+}
+
+/******************************************************************************
+                                Export
+******************************************************************************/
+
+const oidcService = new OidcService();
+export default oidcService;
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SoftwareAuthenticator } from '@src/common/auth/softwareAuthenticator';
+import { UnauthorizedError } from '@src/common/errors/ApiErrors';
+import { ENV } from '@src/common/constants/env';
+import type { User } from '@src/generated/prisma';
+import passkeyService from './passkeyService';
+
+vi.mock('@src/common/utils/prisma', async () => {
+    const { createMemoryPrisma } = await import('@src/test/memoryPrisma');
+    return { prisma: createMemoryPrisma() };
+});
+
+const user = { id: 'user-1', email: 'ada@example.com', firstName: 'Ada', lastName: 'Lovelace' } as User;
+const otherUser = { id: 'user-2', email: 'bob@example.com', firstName: null, lastName: null } as User;
+
+describe('passkeyService', () => {
+    let authenticator: SoftwareAuthenticator;
+
+    // Register a new credential on the authenticator for a user
+    const register = async (owner: User, name?: string) => {
+        const options = await passkeyService.generateRegistrationOptions(owner);
+        return passkeyService.verifyRegistration(owner, authenticator.createCredential(options), name);
+    };
+
+    beforeEach(() => {
+        authenticator = new SoftwareAuthenticator(ENV.WEBAUTHN_ORIGIN);
+    });
+
+    it('registers a passkey and signs in with it', async () => {
+        const passkey = await register(user, 'Laptop');
+        expect(passkey).toMatchObject({ name: 'Laptop', transports: ['internal'] });
+
+        const options = await passkeyService.generateAuthenticationOptions(user.id, 'required');
+        const credential = await passkeyService.verifyAuthentication(authenticator.getAssertion(options), {
+            expectedUserId: user.id,
+            requireUserVerification: true,
+        });
+
+        expect(credential).toMatchObject({ id: passkey.id, userId: user.id, signCount: 1 });
+        expect(credential.lastUsedAt).toBeInstanceOf(Date);
+    });
+
+    it('signs in without a username through a discoverable passkey', async () => {
+        const passkey = await register(user);
+
+        const options = await passkeyService.generateAuthenticationOptions(null, 'required');
+        const credential = await passkeyService.verifyAuthentication(authenticator.getAssertion(options), {
+            requireUserVerification: true,
+        });
+
+        expect(credential).toMatchObject({ id: passkey.id, userId: user.id });
+    });
+
+    it('accepts each challenge only once', async () => {
+        await register(user);
+
+        const options = await passkeyService.generateAuthenticationOptions(user.id, 'required');
+        const assertion = authenticator.getAssertion(options);
+        await passkeyService.verifyAuthentication(assertion, { requireUserVerification: true });
+
+        await expect(passkeyService.verifyAuthentication(assertion, { requireUserVerification: true }))
+            .rejects.toBeInstanceOf(UnauthorizedError);
+    });
+
+    it("rejects another user's passkey", async () => {
+        await register(otherUser);
+
+        const options = await passkeyService.generateAuthenticationOptions(null, 'required');
+        const assertion = authenticator.getAssertion(options);
+
+        await expect(passkeyService.verifyAuthentication(assertion, { expectedUserId: user.id, requireUserVerification: true }))
+            .rejects.toBeInstanceOf(UnauthorizedError);
+    });
+
+    it('requires user verification when asked to', async () => {
+        authenticator = new SoftwareAuthenticator(ENV.WEBAUTHN_ORIGIN, { userVerification: false });
+        await register(user);
+
+        const options = await passkeyService.generateAuthenticationOptions(user.id, 'required');
+
+        await expect(passkeyService.verifyAuthentication(authenticator.getAssertion(options), { requireUserVerification: true }))
+            .rejects.toBeInstanceOf(UnauthorizedError);
+    });
+});
@@ -0,0 +1,239 @@
+import {
+    generateAuthenticationOptions,
+    generateRegistrationOptions,
+    verifyAuthenticationResponse,
+    verifyRegistrationResponse,
+    type AuthenticationResponseJSON,
+    type AuthenticatorTransportFuture,
+    type PublicKeyCredentialCreationOptionsJSON,
+    type PublicKeyCredentialRequestOptionsJSON,
+    type RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { isoUint8Array } from '@simplewebauthn/server/helpers';
+import { BadRequestError, ConflictError, NotFoundError, UnauthorizedError } from '@src/common/errors/ApiErrors';
+import { ENV } from '@src/common/constants/env';
+import logger from '@src/common/utils/logger';
+import { prisma } from '@src/common/utils/prisma';
+import {
+    PASSKEY_CONFIG,
+    PASSKEY_ERRORS,
+    transformCredentialToResponse,
+    type PasskeyResponse,
+    type WebAuthnCeremony,
+} from '@src/models/passkey';
+import type { Credential, User } from '@src/generated/prisma';
+
+/******************************************************************************
+                                Passkey Service
+******************************************************************************/
+
+class PasskeyService {
+    /**
+     * Options for navigator.credentials.create()
+     */
+    async generateRegistrationOptions(user: User): Promise<PublicKeyCredentialCreationOptionsJSON> {
+        const existing = await prisma.credential.findMany({ where: { userId: user.id } });
+
+        const options = await generateRegistrationOptions({
+            rpName: ENV.WEBAUTHN_RP_NAME,
+            rpID: ENV.WEBAUTHN_RP_ID,
+            userName: user.email,
+            userID: isoUint8Array.fromUTF8String(user.id),
+            userDisplayName: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email,
+            attestationType: 'none',
+            excludeCredentials: existing.map(credential => ({
+                id: credential.credentialId,
+                transports: credential.transports as AuthenticatorTransportFuture[],
+            })),
+            authenticatorSelection: {
+                residentKey: 'preferred',
+                userVerification: 'preferred',
+            },
+        });
+
+        await this.storeChallenge(options.challenge, 'registration', user.id);
+
+        return options;
+    }
+
+    /**
+     * Verify the authenticator's attestation and store the new credential
+     */
+    async verifyRegistration(user: User, response: RegistrationResponseJSON, name?: string): Promise<PasskeyResponse> {
+        const verification = await verifyRegistrationResponse({
+            response,
+            expectedChallenge: challenge => this.consumeChallenge(challenge, 'registration', user.id),
+            expectedOrigin: ENV.WEBAUTHN_ORIGIN,
+            expectedRPID: ENV.WEBAUTHN_RP_ID,
+            requireUserVerification: false,
+        }).catch(error => {
+            logger.warn(`Passkey registration rejected: ${String(error)}`);
+            throw new BadRequestError(PASSKEY_ERRORS.VERIFICATION_FAILED);
+        });
+
+        if (!verification.verified) {
+            throw new BadRequestError(PASSKEY_ERRORS.VERIFICATION_FAILED);
+        }
+
+        const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+
+        const duplicate = await prisma.credential.findUnique({ where: { credentialId: credential.id } });
+        if (duplicate) {
+            throw new ConflictError(PASSKEY_ERRORS.ALREADY_REGISTERED);
+        }
+
+        const created = await prisma.credential.create({
+            data: {
+                userId: user.id,
+                credentialId: credential.id,
+                publicKey: Buffer.from(credential.publicKey),
+                signCount: credential.counter,
+                transports: credential.transports ?? response.response.transports ?? [],
+                deviceType: credentialDeviceType,
+                backedUp: credentialBackedUp,
+                name: name ?? null,
+            },
+        });
+
+        return transformCredentialToResponse(created);
+    }
+
+    /**
+     * Options for navigator.credentials.get().
+     * Without a user, any discoverable passkey for this site may answer (usernameless login).
+     */
+    async generateAuthenticationOptions(
+        userId: string | null,
+        userVerification: 'required' | 'preferred'
+    ): Promise<PublicKeyCredentialRequestOptionsJSON> {
+        const credentials = userId
+            ? await prisma.credential.findMany({ where: { userId } })
+            : [];
+
+        const options = await generateAuthenticationOptions({
+            rpID: ENV.WEBAUTHN_RP_ID,
+            allowCredentials: credentials.map(credential => ({
+                id: credential.credentialId,
+                transports: credential.transports as AuthenticatorTransportFuture[],
+            })),
+            userVerification,
+        });
+
+        await this.storeChallenge(options.challenge, 'authentication', userId);
+
+        return options;
+    }
+
+    /**
+     * Verify an assertion and return the credential it was made with.
+     * When expectedUserId is set, the credential must belong to that user.
+     */
+    async verifyAuthentication(
+        response: AuthenticationResponseJSON,
+        options: { expectedUserId?: string; requireUserVerification: boolean }
+    ): Promise<Credential> {
+        const credential = await prisma.credential.findUnique({ where: { credentialId: response.id } });
+
+        if (!credential || (options.expectedUserId && credential.userId !== options.expectedUserId)) {
+            throw new UnauthorizedError(PASSKEY_ERRORS.VERIFICATION_FAILED);
+        }
+
+        const verification = await verifyAuthenticationResponse({
+            response,
+            expectedChallenge: challenge => this.consumeChallenge(challenge, 'authentication', credential.userId),
+            expectedOrigin: ENV.WEBAUTHN_ORIGIN,
+            expectedRPID: ENV.WEBAUTHN_RP_ID,
+            credential: {
+                id: credential.credentialId,
+                publicKey: new Uint8Array(credential.publicKey),
+                counter: credential.signCount,
+                transports: credential.transports as AuthenticatorTransportFuture[],
+            },
+            requireUserVerification: options.requireUserVerification,
+        }).catch(error => {
+            logger.warn(`Passkey authentication rejected: ${String(error)}`);
+            throw new UnauthorizedError(PASSKEY_ERRORS.VERIFICATION_FAILED);
+        });
+
+        if (!verification.verified) {
+            throw new UnauthorizedError(PASSKEY_ERRORS.VERIFICATION_FAILED);
+        }
+
+        return prisma.credential.update({
+            where: { id: credential.id },
+            data: {
+                signCount: verification.authenticationInfo.newCounter,
+                backedUp: verification.authenticationInfo.credentialBackedUp,
+                lastUsedAt: new Date(),
+            },
+        });
+    }
+
+    /**
+     * List a user's passkeys
+     */
+    async listCredentials(userId: string): Promise<PasskeyResponse[]> {
+        const credentials = await prisma.credential.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        return credentials.map(transformCredentialToResponse);
+    }
+
+    /**
+     * Whether the user has at least one passkey
+     */
+    async hasCredentials(userId: string): Promise<boolean> {
+        return (await prisma.credential.count({ where: { userId } })) > 0;
+    }
+
+    /**
+     * Delete one of a user's passkeys
+     */
+    async deleteCredential(userId: string, id: string): Promise<void> {
+        const deleted = await prisma.credential.deleteMany({ where: { id, userId } });
+
+        if (deleted.count === 0) {
+            throw new NotFoundError(PASSKEY_ERRORS.NOT_FOUND);
+        }
+    }
+
+    /**
+     * Remember a challenge until the ceremony completes
+     */
+    private async storeChallenge(challenge: string, type: WebAuthnCeremony, userId: string | null): Promise<void> {
+        await prisma.webAuthnChallenge.create({
+            data: {
+                challenge,
+                type,
+                userId,
+                expiresAt: new Date(Date.now() + PASSKEY_CONFIG.CHALLENGE_EXPIRY * 1000),
+            },
+        });
+    }
+
+    /**
+     * Single-use challenge check: deleting the row both validates and consumes it
+     */
+    private async consumeChallenge(challenge: string, type: WebAuthnCeremony, userId: string): Promise<boolean> {
+        const consumed = await prisma.webAuthnChallenge.deleteMany({
+            where: {
+                challenge,
+                type,
+                expiresAt: { gt: new Date() },
+                // Usernameless challenges may be answered by any user; bound ones only by their user
+                OR: [{ userId }, { userId: null }],
+            },
+        });
+
+        return consumed.count > 0;
+    }
+}
+
+/******************************************************************************
+                                Export
+******************************************************************************/
+
+const passkeyService = new PasskeyService();
+export default passkeyService;
@@ -0,0 +1,49 @@
+import logger from '@src/common/utils/logger';
+import {
+    transformUserToProfile,
+    type UpdateProfileRequest,
+    type UserProfile,
+    type UserWithPermissions,
+} from '@src/models/user';
+import userService from './userService';
+import mfaService from './mfaService';
+import oidcService from './oidcService';
+import sessionService from './sessionService';
+
+/******************************************************************************
+                                Profile Service
+******************************************************************************/
+
+class ProfileService {
+    /**
+     * The current user's profile: account details, effective permissions, two-factor status,
+     * linked identities and the number of active sessions
+     */
+    async getProfile(user: UserWithPermissions): Promise<UserProfile> {
+        const [mfa, identities, activeSessions] = await Promise.all([
+            mfaService.getStatus(user),
+            oidcService.listIdentities(user.id),
+            sessionService.countSessions(user.id),
+        ]);
+
+        return transformUserToProfile(user, { mfa, identities, activeSessions });
+    }
+
+    /**
+     * Self-service profile edit; the schema limits it to fields that don't affect access
+     */
+    async updateProfile(user: UserWithPermissions, data: UpdateProfileRequest): Promise<UserProfile> {
+        logger.info(`Profile update for user: ${user.id}`);
+
+        await userService.updateUser(user.id, data, user);
+
+        return this.getProfile(await userService.getUserWithPermissions(user.id));
+    }
+}
+
+/******************************************************************************
+                                Export
+******************************************************************************/
+
+const profileService = new ProfileService();
+export default profileService;
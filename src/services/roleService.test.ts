@@ -0,0 +1,265 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '@src/common/errors/ApiErrors';
+import { prisma } from '@src/common/utils/prisma';
+import { resetMemoryPrisma } from '@src/test/memoryPrisma';
+import { hasPermission } from '@src/models/permission';
+import { ROLE_ERRORS, type UpdateRoleRequest } from '@src/models/role';
+import { userRolesInclude, type UserWithPermissions } from '@src/models/user';
+import type { Role } from '@src/generated/prisma';
+import roleService from './roleService';
+
+vi.mock('@src/common/utils/prisma', async () => {
+    const { createMemoryPrisma } = await import('@src/test/memoryPrisma');
+    return { prisma: createMemoryPrisma() };
+});
+
+const createUser = async (email: string, roles: Role[]) => {
+    const user = await prisma.user.create({
+        data: { email, userRoles: { create: roles.map(role => ({ roleId: role.id })) } },
+        include: userRolesInclude(),
+    });
+    return roleService.withPermissions(user);
+};
+
+const createRole = (name: string, permissions: string[], fields: { parentId?: string; isSystem?: boolean } = {}) =>
+    prisma.role.create({ data: { name, displayName: name, permissions, ...fields } });
+
+const roleOf = (id: string) => prisma.role.findUniqueOrThrow({ where: { id } });
+
+const auditEntry = (action: string) => prisma.auditLog.findFirst({ where: { action } });
+
+describe('roleService roles', () => {
+    let admin: Role;
+    let member: Role;
+    let root: UserWithPermissions;
+
+    beforeEach(async () => {
+        resetMemoryPrisma(prisma);
+
+        admin = await createRole('admin', ['*'], { isSystem: true });
+        member = await createRole('user', [], { isSystem: true });
+        root = await createUser('root@example.com', [admin]);
+    });
+
+    it('lists roles by name, a page at a time', async () => {
+        await createRole('support', []);
+        await prisma.role.create({ data: { name: 'auditors', displayName: 'Log Readers', permissions: [], isActive: false } });
+
+        const firstPage = await roleService.listRoles({ page: 1, limit: 2 });
+        expect(firstPage.items.map(role => role.name)).toEqual(['admin', 'auditors']);
+        expect(firstPage.pagination).toMatchObject({ page: 1, limit: 2, total: 4 });
+
+        const secondPage = await roleService.listRoles({ page: 2, limit: 2 });
+        expect(secondPage.items.map(role => role.name)).toEqual(['support', 'user']);
+
+        const search = await roleService.listRoles({ search: 'log READ' });
+        expect(search.items.map(role => role.name)).toEqual(['auditors']);
+
+        const active = await roleService.listRoles({ isActive: true });
+        expect(active.items.map(role => role.name)).toEqual(['admin', 'support', 'user']);
+    });
+
+    it('gets a role with its permissions', async () => {
+        const support = await createRole('support', ['users:read', '!users:delete']);
+
+        await expect(roleService.getRole(support.id)).resolves.toMatchObject({
+            name: 'support', permissions: ['users:read', '!users:delete'], isSystem: false, parentId: null,
+        });
+        await expect(roleService.getRole('missing')).rejects.toThrow(new NotFoundError(ROLE_ERRORS.NOT_FOUND));
+    });
+
+    it('creates a role with a unique name and audits it', async () => {
+        const role = await roleService.createRole({ name: 'support', displayName: 'Support', permissions: ['users:read'] }, root);
+
+        expect(role).toMatchObject({ name: 'support', permissions: ['users:read'], requireMfa: false, isActive: true });
+        expect(await auditEntry('role_created')).toMatchObject({
+            userId: root.id, resource: `role:${role.id}`, details: { name: 'support', permissions: ['users:read'], parentId: null },
+        });
+
+        await expect(roleService.createRole({ name: 'support', displayName: 'Other' }, root))
+            .rejects.toThrow(new ConflictError(ROLE_ERRORS.NAME_TAKEN));
+    });
+
+    it('updates a role and audits the changes', async () => {
+        const support = await createRole('support', []);
+        await createRole('helpdesk', []);
+
+        await expect(roleService.updateRole(support.id, { name: 'helpdesk' }, root))
+            .rejects.toThrow(new ConflictError(ROLE_ERRORS.NAME_TAKEN));
+
+        const changes: UpdateRoleRequest = { name: 'agents', permissions: ['sessions:read'], requireMfa: true };
+        await expect(roleService.updateRole(support.id, changes, root))
+            .resolves.toMatchObject({ name: 'agents', permissions: ['sessions:read'], requireMfa: true });
+        expect(await auditEntry('role_updated')).toMatchObject({ resource: `role:${support.id}`, details: { name: 'agents', changes } });
+    });
+
+    it('refuses to rename, deactivate or delete a system role', async () => {
+        await expect(roleService.updateRole(member.id, { name: 'members' }, root))
+            .rejects.toThrow(new ForbiddenError(ROLE_ERRORS.SYSTEM_ROLE_PROTECTED));
+        await expect(roleService.updateRole(member.id, { isActive: false }, root))
+            .rejects.toThrow(new ForbiddenError(ROLE_ERRORS.SYSTEM_ROLE_PROTECTED));
+        await expect(roleService.deleteRole(member.id, undefined, root))
+            .rejects.toThrow(new ForbiddenError(ROLE_ERRORS.SYSTEM_ROLE_PROTECTED));
+
+        // Its display name and description can still change
+        await expect(roleService.updateRole(member.id, { displayName: 'Members', description: 'Everyone' }, root))
+            .resolves.toMatchObject({ name: 'user', displayName: 'Members', description: 'Everyone' });
+    });
+
+    it('only deletes a role in use when its members are moved to another role', async () => {
+        const support = await createRole('support', []);
+        const agent = await createUser('agent@example.com', [support]);
+        await createUser('both@example.com', [support, member]);
+
+        await expect(roleService.deleteRole(support.id, undefined, root))
+            .rejects.toThrow(new ConflictError(ROLE_ERRORS.ROLE_IN_USE, { assignedUsers: 2 }));
+        await expect(roleService.deleteRole(support.id, support.id, root))
+            .rejects.toThrow(new BadRequestError(ROLE_ERRORS.INVALID_REASSIGN_TARGET));
+        await expect(roleService.deleteRole(support.id, 'missing', root))
+            .rejects.toThrow(new BadRequestError(ROLE_ERRORS.INVALID_REASSIGN_TARGET));
+
+        // The member who already holds the target role isn't counted twice
+        await expect(roleService.deleteRole(support.id, member.id, root)).resolves.toEqual({ reassigned: 1 });
+
+        expect(await prisma.role.findUnique({ where: { id: support.id } })).toBeNull();
+        const roles = await prisma.userRole.findMany({ where: { userId: agent.id } });
+        expect(roles.map(ur => ur.roleId)).toEqual([member.id]);
+        expect(await auditEntry('role_deleted')).toMatchObject({
+            resource: `role:${support.id}`, details: { name: 'support', members: 2, reassignTo: member.id, reassigned: 1 },
+        });
+    });
+});
+
+describe('roleService last administrator guard', () => {
+    let admin: Role;
+    let member: Role;
+    let operators: Role;
+    let operator: UserWithPermissions;
+
+    beforeEach(async () => {
+        resetMemoryPrisma(prisma);
+
+        admin = await createRole('admin', ['*'], { isSystem: true });
+        member = await createRole('user', [], { isSystem: true });
+        operators = await createRole('operators', ['system:admin', 'roles:*']);
+
+        // The only administrator holds a custom role, not the admin system role
+        operator = await createUser('ops@example.com', [operators]);
+    });
+
+    it('refuses to change the permissions of a system role', async () => {
+        await expect(roleService.updateRole(member.id, { permissions: ['users:read'] }, operator))
+            .rejects.toThrow(new ForbiddenError(ROLE_ERRORS.SYSTEM_ROLE_PROTECTED));
+
+        // Saving the permissions it already has is not a change
+        await expect(roleService.updateRole(admin.id, { permissions: ['*'], displayName: 'Admins' }, operator))
+            .resolves.toMatchObject({ displayName: 'Admins', permissions: ['*'] });
+    });
+
+    it('refuses to deactivate the role of the last administrator', async () => {
+        await expect(roleService.updateRole(operators.id, { isActive: false }, operator))
+            .rejects.toThrow(new ConflictError(ROLE_ERRORS.LAST_ADMIN));
+
+        expect(await roleOf(operators.id)).toMatchObject({ isActive: true });
+    });
+
+    it('refuses to replace the permissions of the role of the last administrator', async () => {
+        await expect(roleService.updateRole(operators.id, { permissions: ['roles:*'] }, operator))
+            .rejects.toThrow(new ConflictError(ROLE_ERRORS.LAST_ADMIN));
+    });
+
+    it('refuses a parent that denies administration to the role of the last administrator', async () => {
+        const restricted = await createRole('restricted', ['!system:admin']);
+
+        await expect(roleService.updateRole(operators.id, { parentId: restricted.id }, operator))
+            .rejects.toThrow(new ConflictError(ROLE_ERRORS.LAST_ADMIN));
+
+        expect(await roleOf(operators.id)).toMatchObject({ parentId: null });
+    });
+
+    it('refuses to delete the role of the last administrator, even when its members are moved', async () => {
+        await expect(roleService.deleteRole(operators.id, member.id, operator))
+            .rejects.toThrow(new ConflictError(ROLE_ERRORS.LAST_ADMIN));
+
+        expect(await roleOf(operators.id)).toBeDefined();
+        expect(await prisma.userRole.count({ where: { userId: operator.id } })).toBe(1);
+    });
+
+    it('allows the same changes while another administrator remains', async () => {
+        const root = await createUser('root@example.com', [admin]);
+
+        await expect(roleService.updateRole(operators.id, { isActive: false }, root)).resolves.toMatchObject({ isActive: false });
+        await expect(roleService.deleteRole(operators.id, member.id, root)).resolves.toEqual({ reassigned: 1 });
+
+        const roles = await prisma.userRole.findMany({ where: { userId: operator.id } });
+        expect(roles.map(ur => ur.roleId)).toEqual([member.id]);
+    });
+
+    it('only counts active accounts as administrators', async () => {
+        const root = await createUser('root@example.com', [admin]);
+        await prisma.user.update({ where: { id: root.id }, data: { isActive: false } });
+
+        await expect(roleService.updateRole(operators.id, { isActive: false }, operator))
+            .rejects.toThrow(new ConflictError(ROLE_ERRORS.LAST_ADMIN));
+    });
+});
+
+describe('roleService hierarchy', () => {
+    let root: UserWithPermissions;
+
+    beforeEach(async () => {
+        resetMemoryPrisma(prisma);
+        root = await createUser('root@example.com', [await createRole('admin', ['*'], { isSystem: true })]);
+    });
+
+    it('gives members the permissions of every ancestor, and their denials', async () => {
+        const staff = await createRole('staff', ['users:read', '!users:delete']);
+        const support = await createRole('support', ['sessions:*'], { parentId: staff.id });
+        const lead = await createRole('lead', ['users:*'], { parentId: support.id });
+
+        const { permissions } = await createUser('lead@example.com', [lead]);
+
+        expect(hasPermission(permissions, 'users:update')).toBe(true);
+        expect(hasPermission(permissions, 'sessions:revoke')).toBe(true);
+        expect(hasPermission(permissions, 'users:delete')).toBe(false);
+    });
+
+    it('refuses a parent that is the role itself or one of its descendants', async () => {
+        const staff = await createRole('staff', []);
+        const support = await createRole('support', [], { parentId: staff.id });
+        const lead = await createRole('lead', [], { parentId: support.id });
+
+        await expect(roleService.updateRole(staff.id, { parentId: lead.id }, root))
+            .rejects.toThrow(new BadRequestError(ROLE_ERRORS.HIERARCHY_CYCLE));
+        await expect(roleService.updateRole(staff.id, { parentId: staff.id }, root))
+            .rejects.toThrow(new BadRequestError(ROLE_ERRORS.HIERARCHY_CYCLE));
+        await expect(roleService.createRole({ name: 'orphan', displayName: 'Orphan', parentId: 'missing' }, root))
+            .rejects.toThrow(new BadRequestError(ROLE_ERRORS.PARENT_NOT_FOUND));
+
+        await expect(roleService.updateRole(lead.id, { parentId: null }, root)).resolves.toMatchObject({ parentId: null });
+    });
+
+    it('refuses a parent that would give the role permissions the actor lacks', async () => {
+        const auditors = await createRole('auditors', ['system:logs']);
+        const support = await createRole('support', ['roles:*', 'users:read']);
+        const helpers = await createRole('helpers', ['users:read']);
+        const manager = await createUser('manager@example.com', [support]);
+
+        await expect(roleService.updateRole(helpers.id, { parentId: auditors.id }, manager))
+            .rejects.toThrow(ROLE_ERRORS.CHANGE_ABOVE_OWN_PERMISSIONS);
+        await expect(roleService.createRole({ name: 'loggers', displayName: 'Loggers', parentId: auditors.id }, manager))
+            .rejects.toThrow(ROLE_ERRORS.CHANGE_ABOVE_OWN_PERMISSIONS);
+    });
+
+    it('attaches the children of a deleted role to its parent', async () => {
+        const staff = await createRole('staff', ['users:read']);
+        const support = await createRole('support', [], { parentId: staff.id });
+        const lead = await createRole('lead', [], { parentId: support.id });
+
+        await roleService.deleteRole(support.id, undefined, root);
+
+        expect(await roleOf(lead.id)).toMatchObject({ parentId: staff.id });
+        const { permissions } = await createUser('lead@example.com', [lead]);
+        expect(hasPermission(permissions, 'users:read')).toBe(true);
+    });
+});
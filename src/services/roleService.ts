@@ -0,0 +1,499 @@
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '@src/common/errors/ApiErrors';
+import { prisma } from '@src/common/utils/prisma';
+import { createPaginationMeta, type PaginatedData } from '@src/common/types/ApiResponse';
+import { hasPermission, listGrantedPermissions, parsePermissionRules, resolvePermissions, type EffectivePermissions, type Permission } from '@src/models/permission';
+import {
+    collectRoleLineage,
+    createsRoleCycle,
+    DEFAULT_ROLE_QUERY,
+    LAST_ADMIN_CHECK,
+    ROLE_ERRORS,
+    transformRoleToResponse,
+    type CreateRoleRequest,
+    type RoleNode,
+    type RoleQuery,
+    type RoleResponse,
+    type UpdateRoleRequest,
+} from '@src/models/role';
+import { activeAssignmentWhere, userRolesInclude, type UserWithPermissions, type UserWithRoles } from '@src/models/user';
+import { Prisma, type Role } from '@src/generated/prisma';
+import authService from './authService';
+
+/******************************************************************************
+                                Role Service
+******************************************************************************/
+
+// Stands in for a role that is being created when checking the hierarchy
+const NEW_ROLE_ID = '';
+
+// How a change affects who has system:admin: edits to the role hierarchy, and the roles each
+// user holds afterwards (given the ones they hold now)
+interface AdminAccessChange {
+    roles?: (roles: Map<string, RoleNode>) => void;
+    memberRoles?: (userId: string, roleIds: string[]) => string[];
+}
+
+// Whether two permission rule lists hold the same rules
+const samePermissions = (a: Prisma.JsonValue, b: Prisma.JsonValue): boolean => {
+    const [left, right] = [new Set(parsePermissionRules(a)), new Set(parsePermissionRules(b))];
+    return left.size === right.size && [...left].every(rule => right.has(rule));
+};
+
+class RoleService {
+    /**
+     * List roles, optionally filtered by a search term and status
+     */
+    async listRoles(query: RoleQuery): Promise<PaginatedData<RoleResponse>> {
+        const page = query.page ?? DEFAULT_ROLE_QUERY.page;
+        const limit = query.limit ?? DEFAULT_ROLE_QUERY.limit;
+
+        const where: Prisma.RoleWhereInput = {
+            ...(query.isActive !== undefined && { isActive: query.isActive }),
+            ...(query.search && {
+                OR: [
+                    { name: { contains: query.search, mode: 'insensitive' } },
+                    { displayName: { contains: query.search, mode: 'insensitive' } },
+                    { description: { contains: query.search, mode: 'insensitive' } },
+                ],
+            }),
+        };
+
+        const [roles, total] = await Promise.all([
+            prisma.role.findMany({
+                where,
+                orderBy: { name: 'asc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.role.count({ where }),
+        ]);
+
+        return {
+            items: roles.map(transformRoleToResponse),
+            pagination: createPaginationMeta(page, limit, total),
+        };
+    }
+
+    /**
+     * Get a role by id
+     */
+    async getRole(id: string): Promise<RoleResponse> {
+        return transformRoleToResponse(await this.findRole(id));
+    }
+
+    /**
+     * Create a role, optionally inheriting from a parent. Like granting, it is limited to
+     * permissions (own or inherited) the actor has.
+     */
+    async createRole(data: CreateRoleRequest, actor: UserWithPermissions): Promise<RoleResponse> {
+        await this.assertNameAvailable(data.name);
+
+        if (data.parentId) {
+            await this.assertValidParent(null, data.parentId);
+        }
+
+        await this.assertHierarchyChangeAllowed(actor, (roles) => {
+            roles.set(NEW_ROLE_ID, {
+                id: NEW_ROLE_ID,
+                parentId: data.parentId ?? null,
+                permissions: data.permissions ?? [],
+                isActive: true,
+            });
+        });
+
+        const role = await prisma.role.create({
+            data: {
+                name: data.name,
+                displayName: data.displayName,
+                description: data.description ?? null,
+                permissions: data.permissions ?? [],
+                requireMfa: data.requireMfa ?? false,
+                parentId: data.parentId ?? null,
+            },
+        });
+
+        await authService.logAuditEvent(
+            actor.id,
+            'role_created',
+            { name: role.name, permissions: role.permissions, parentId: role.parentId },
+            `role:${role.id}`
+        );
+
+        return transformRoleToResponse(role);
+    }
+
+    /**
+     * Update a role; changing the parent is rejected if it would create a cycle, and changes to
+     * permissions, parent or status if they would give it or the roles inheriting from it
+     * permissions the actor doesn't have, or leave no active administrator. System roles can't
+     * be renamed, deactivated or given other permissions.
+     */
+    async updateRole(id: string, data: UpdateRoleRequest, actor: UserWithPermissions): Promise<RoleResponse> {
+        const existing = await this.findRole(id);
+
+        if (existing.isSystem && data.isActive === false) {
+            throw new ForbiddenError(ROLE_ERRORS.SYSTEM_ROLE_PROTECTED);
+        }
+
+        if (existing.isSystem && data.permissions !== undefined && !samePermissions(data.permissions, existing.permissions)) {
+            throw new ForbiddenError(ROLE_ERRORS.SYSTEM_ROLE_PROTECTED);
+        }
+
+        if (data.name !== undefined && data.name !== existing.name) {
+            if (existing.isSystem) {
+                throw new ForbiddenError(ROLE_ERRORS.SYSTEM_ROLE_PROTECTED);
+            }
+            await this.assertNameAvailable(data.name);
+        }
+
+        if (data.parentId) {
+            await this.assertValidParent(id, data.parentId);
+        }
+
+        const applyChange = (roles: Map<string, RoleNode>) => {
+            const current = roles.get(id) ?? existing;
+            roles.set(id, {
+                id,
+                parentId: data.parentId !== undefined ? data.parentId : current.parentId,
+                permissions: data.permissions ?? current.permissions,
+                isActive: data.isActive ?? current.isActive,
+            });
+        };
+
+        await this.assertHierarchyChangeAllowed(actor, applyChange);
+
+        // Permissions, parent and status decide who the role and the roles inheriting from it make an administrator
+        const role = await this.serializable(async (tx) => {
+            await this.assertAdminRemains(tx, { roles: applyChange });
+
+            return tx.role.update({
+                where: { id },
+                data: {
+                    ...(data.name !== undefined && { name: data.name }),
+                    ...(data.displayName !== undefined && { displayName: data.displayName }),
+                    ...(data.description !== undefined && { description: data.description }),
+                    ...(data.permissions !== undefined && { permissions: data.permissions }),
+                    ...(data.isActive !== undefined && { isActive: data.isActive }),
+                    ...(data.requireMfa !== undefined && { requireMfa: data.requireMfa }),
+                    ...(data.parentId !== undefined && { parentId: data.parentId }),
+                },
+            });
+        });
+
+        await authService.logAuditEvent(actor.id, 'role_updated', { name: role.name, changes: data }, `role:${role.id}`);
+
+        return transformRoleToResponse(role);
+    }
+
+    /**
+     * Delete a role. Members are moved to reassignTo, which the actor must be able to grant;
+     * without it, a role that is still assigned can't be deleted. Child roles are attached to the
+     * deleted role's parent, so they keep inheriting from the rest of the chain. Refused (409)
+     * if members or children would lose the last active administrator's access.
+     */
+    async deleteRole(
+        id: string,
+        reassignTo: string | undefined,
+        actor: UserWithPermissions
+    ): Promise<{ reassigned: number }> {
+        const role = await this.findRole(id);
+
+        if (role.isSystem) {
+            throw new ForbiddenError(ROLE_ERRORS.SYSTEM_ROLE_PROTECTED);
+        }
+
+        if (reassignTo && (reassignTo === id || !(await prisma.role.findUnique({ where: { id: reassignTo } })))) {
+            throw new BadRequestError(ROLE_ERRORS.INVALID_REASSIGN_TARGET);
+        }
+
+        if (reassignTo) {
+            await this.assertCanGrant(actor, [reassignTo]);
+        }
+
+        // Children lose the deleted role's denials
+        const removeRole = (roles: Map<string, RoleNode>) => {
+            roles.delete(id);
+            for (const [childId, child] of roles) {
+                if (child.parentId === id) {
+                    roles.set(childId, { ...child, parentId: role.parentId });
+                }
+            }
+        };
+
+        await this.assertHierarchyChangeAllowed(actor, removeRole);
+
+        // The members are read in the transaction that moves them, so none can be added in between
+        const { members, reassigned } = await this.serializable(async (tx) => {
+            const assignments = await tx.userRole.findMany({
+                where: { roleId: id },
+                select: { userId: true },
+            });
+
+            if (assignments.length > 0 && !reassignTo) {
+                throw new ConflictError(ROLE_ERRORS.ROLE_IN_USE, { assignedUsers: assignments.length });
+            }
+
+            await this.assertAdminRemains(tx, {
+                roles: removeRole,
+                memberRoles: (userId, roleIds) => roleIds.includes(id)
+                    ? [...roleIds.filter(roleId => roleId !== id), ...(reassignTo ? [reassignTo] : [])]
+                    : roleIds,
+            });
+
+            let moved = 0;
+
+            if (reassignTo && assignments.length > 0) {
+                // Users who already hold the target role are skipped
+                const result = await tx.userRole.createMany({
+                    data: assignments.map(({ userId }) => ({ userId, roleId: reassignTo, createdBy: actor.id })),
+                    skipDuplicates: true,
+                });
+                moved = result.count;
+            }
+
+            await tx.role.updateMany({
+                where: { parentId: id },
+                data: { parentId: role.parentId },
+            });
+
+            await tx.role.delete({ where: { id } });
+
+            return { members: assignments.length, reassigned: moved };
+        });
+
+        await authService.logAuditEvent(
+            actor.id,
+            'role_deleted',
+            { name: role.name, members, reassignTo: reassignTo ?? null, reassigned },
+            `role:${id}`
+        );
+
+        return { reassigned };
+    }
+
+    /**
+     * Effective permissions of a set of roles, including everything their ancestors grant
+     */
+    async getEffectivePermissions(roles: RoleNode[]): Promise<EffectivePermissions> {
+        if (roles.length === 0) {
+            return resolvePermissions([]);
+        }
+
+        const rolesById = await this.loadHierarchy();
+
+        return resolvePermissions(collectRoleLineage(roles, rolesById));
+    }
+
+    /**
+     * Attach a user's effective permissions
+     */
+    async withPermissions(user: UserWithRoles): Promise<UserWithPermissions> {
+        const permissions = await this.getEffectivePermissions(user.userRoles.map(ur => ur.role));
+        return { ...user, permissions };
+    }
+
+    /**
+     * Refuse to grant a role carrying permissions (own or inherited) the actor doesn't have
+     */
+    async assertCanGrant(actor: UserWithPermissions, roleIds: string[]): Promise<void> {
+        const rolesById = await this.loadHierarchy();
+
+        for (const roleId of new Set(roleIds)) {
+            const role = rolesById.get(roleId);
+            if (!role) {
+                continue; // Existence is checked by the caller
+            }
+
+            const exceeding = listGrantedPermissions(resolvePermissions(collectRoleLineage([role], rolesById)))
+                .filter(permission => !hasPermission(actor.permissions, permission));
+
+            if (exceeding.length > 0) {
+                throw new ForbiddenError(ROLE_ERRORS.ABOVE_OWN_PERMISSIONS, { roleId, permissions: exceeding });
+            }
+        }
+    }
+
+    /**
+     * Make a change that takes roles away from a user or deactivates them, refusing it (409) if it
+     * would leave no active user with system:admin. keptRoleIds are the roles the user still holds
+     * afterwards (none when the account is being deactivated).
+     */
+    async withAdminRemaining<T>(
+        userId: string,
+        keptRoleIds: string[],
+        change: (tx: Prisma.TransactionClient) => Promise<T>
+    ): Promise<T> {
+        return this.serializable(async (tx) => {
+            await this.assertAdminRemains(tx, {
+                memberRoles: (memberId, roleIds) => memberId === userId ? keptRoleIds : roleIds,
+            });
+            return change(tx);
+        });
+    }
+
+    /**
+     * Remove temporary role assignments that have expired (they already stopped applying at expiry)
+     */
+    async purgeExpiredAssignments(): Promise<number> {
+        const expired = await prisma.userRole.findMany({
+            where: { expiresAt: { lte: new Date() } },
+            select: { id: true, userId: true, roleId: true, expiresAt: true },
+        });
+
+        if (expired.length === 0) {
+            return 0;
+        }
+
+        await prisma.userRole.deleteMany({
+            where: { id: { in: expired.map(assignment => assignment.id) } },
+        });
+
+        for (const assignment of expired) {
+            await authService.logAuditEvent(
+                null,
+                'role_assignment_expired',
+                { roleId: assignment.roleId, expiresAt: assignment.expiresAt },
+                `user:${assignment.userId}`
+            );
+        }
+
+        return expired.length;
+    }
+
+    /**
+     * Refuse a change to the role hierarchy that would give any role permissions (own or
+     * inherited) the actor doesn't have and the role didn't have before. change edits a copy of
+     * the hierarchy into its state after the change.
+     */
+    private async assertHierarchyChangeAllowed(
+        actor: UserWithPermissions,
+        change: (roles: Map<string, RoleNode>) => void
+    ): Promise<void> {
+        const before = await this.loadHierarchy();
+        const after = new Map(before);
+        change(after);
+
+        const granted = (role: RoleNode | undefined, rolesById: Map<string, RoleNode>): Set<Permission> => new Set(
+            role ? listGrantedPermissions(resolvePermissions(collectRoleLineage([role], rolesById))) : []
+        );
+
+        for (const [roleId, role] of after) {
+            const previous = granted(before.get(roleId), before);
+            const exceeding = [...granted(role, after)]
+                .filter(permission => !previous.has(permission) && !hasPermission(actor.permissions, permission));
+
+            if (exceeding.length > 0) {
+                throw new ForbiddenError(ROLE_ERRORS.CHANGE_ABOVE_OWN_PERMISSIONS, {
+                    roleId: roleId === NEW_ROLE_ID ? null : roleId,
+                    permissions: exceeding,
+                });
+            }
+        }
+    }
+
+    /**
+     * Run an admin check and the change it guards in one serializable transaction: of two
+     * concurrent changes removing the last two administrators, one is rolled back and retried,
+     * and then sees that no other administrator is left.
+     */
+    private async serializable<T>(work: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await prisma.$transaction(work, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+            } catch (error) {
+                const conflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034';
+                if (!conflict || attempt >= LAST_ADMIN_CHECK.MAX_ATTEMPTS) {
+                    throw error;
+                }
+            }
+        }
+    }
+
+    /**
+     * Throw if there is an active administrator now and there would be none after the change
+     */
+    private async assertAdminRemains(tx: Prisma.TransactionClient, change: AdminAccessChange): Promise<void> {
+        const before = await this.loadHierarchy(tx);
+        const after = new Map(before);
+        change.roles?.(after);
+
+        const grantsAdmin = (roleIds: string[], rolesById: Map<string, RoleNode>): boolean => {
+            const roles = roleIds.flatMap(id => rolesById.get(id) ?? []);
+            return hasPermission(resolvePermissions(collectRoleLineage(roles, rolesById)), 'system:admin');
+        };
+
+        // Only holders of a role that grants system:admin before or after the change can be administrators
+        const adminRoleIds = [...new Set([...before.keys(), ...after.keys()])]
+            .filter(id => grantsAdmin([id], before) || grantsAdmin([id], after));
+
+        const candidates = await tx.user.findMany({
+            where: {
+                isActive: true,
+                userRoles: { some: { roleId: { in: adminRoleIds }, ...activeAssignmentWhere() } },
+            },
+            include: userRolesInclude(),
+        });
+
+        const roleIdsOf = (user: UserWithRoles) => user.userRoles.map(ur => ur.roleId);
+
+        if (!candidates.some(user => grantsAdmin(roleIdsOf(user), before))) {
+            return;
+        }
+
+        const remaining = candidates.some(user =>
+            grantsAdmin(change.memberRoles?.(user.id, roleIdsOf(user)) ?? roleIdsOf(user), after)
+        );
+
+        if (!remaining) {
+            throw new ConflictError(ROLE_ERRORS.LAST_ADMIN);
+        }
+    }
+
+    private async findRole(id: string): Promise<Role> {
+        const role = await prisma.role.findUnique({ where: { id } });
+        if (!role) {
+            throw new NotFoundError(ROLE_ERRORS.NOT_FOUND);
+        }
+        return role;
+    }
+
+    /**
+     * All roles, keyed by id (role tables are small, so the hierarchy is walked in memory)
+     */
+    private async loadHierarchy(client: Prisma.TransactionClient = prisma): Promise<Map<string, RoleNode>> {
+        const roles = await client.role.findMany({
+            select: { id: true, parentId: true, permissions: true, isActive: true },
+        });
+
+        return new Map(roles.map(role => [role.id, role]));
+    }
+
+    /**
+     * The parent must exist and must not be the role itself or one of its descendants
+     */
+    private async assertValidParent(roleId: string | null, parentId: string): Promise<void> {
+        const rolesById = await this.loadHierarchy();
+
+        if (!rolesById.has(parentId)) {
+            throw new BadRequestError(ROLE_ERRORS.PARENT_NOT_FOUND);
+        }
+
+        if (roleId && createsRoleCycle(roleId, parentId, rolesById)) {
+            throw new BadRequestError(ROLE_ERRORS.HIERARCHY_CYCLE);
+        }
+    }
+
+    private async assertNameAvailable(name: string): Promise<void> {
+        const existing = await prisma.role.findUnique({ where: { name } });
+        if (existing) {
+            throw new ConflictError(ROLE_ERRORS.NAME_TAKEN);
+        }
+    }
+}
+
+/******************************************************************************
+                                Export
+******************************************************************************/
+
+const roleService = new RoleService();
+export default roleService;
@@ -0,0 +1,115 @@
+import { NotFoundError } from '@src/common/errors/ApiErrors';
+import logger from '@src/common/utils/logger';
+import { prisma } from '@src/common/utils/prisma';
+import { activeSessionWhere, SESSION_ERRORS, transformSessionToResponse, type SessionResponse } from '@src/models/session';
+import type { Session } from '@src/generated/prisma';
+import authService from './authService';
+
+/******************************************************************************
+                            Session Service
+******************************************************************************/
+
+class SessionService {
+    /**
+     * List a user's active sessions, most recently used first
+     */
+    async listSessions(userId: string, currentSessionId?: string): Promise<SessionResponse[]> {
+        const sessions = await prisma.session.findMany({
+            where: {
+                userId,
+                ...activeSessionWhere(),
+            },
+            orderBy: { lastUsedAt: 'desc' },
+        });
+
+        return sessions.map(session => transformSessionToResponse(session, currentSessionId));
+    }
+
+    /**
+     * Count a user's active sessions
+     */
+    async countSessions(userId: string): Promise<number> {
+        return prisma.session.count({
+            where: {
+                userId,
+                ...activeSessionWhere(),
+            },
+        });
+    }
+
+    /**
+     * Get one of a user's active sessions
+     */
+    async getSession(userId: string, sessionId: string, currentSessionId?: string): Promise<SessionResponse> {
+        const session = await this.findActiveSession(userId, sessionId);
+        return transformSessionToResponse(session, currentSessionId);
+    }
+
+    /**
+     * Revoke one of a user's sessions
+     */
+    async revokeSession(userId: string, sessionId: string, actorId: string): Promise<void> {
+        logger.info(`Revoking session ${sessionId} of user ${userId}`);
+
+        await this.findActiveSession(userId, sessionId);
+
+        await prisma.session.update({
+            where: { id: sessionId },
+            data: { isRevoked: true },
+        });
+
+        // Log audit event
+        await authService.logAuditEvent(userId, 'session_revoked', { sessionId, revokedBy: actorId });
+    }
+
+    /**
+     * Revoke all of a user's sessions, optionally keeping one (the caller's own)
+     */
+    async revokeAllSessions(userId: string, actorId: string, exceptSessionId?: string): Promise<number> {
+        logger.info(`Revoking all sessions of user ${userId}`);
+
+        const result = await prisma.session.updateMany({
+            where: {
+                userId,
+                isRevoked: false,
+                ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+            },
+            data: { isRevoked: true },
+        });
+
+        // Log audit event
+        await authService.logAuditEvent(userId, 'sessions_revoked', {
+            count: result.count,
+            keptSessionId: exceptSessionId ?? null,
+            revokedBy: actorId,
+        });
+
+        return result.count;
+    }
+
+    /**
+     * Find an active session owned by the user, or throw NotFound
+     */
+    private async findActiveSession(userId: string, sessionId: string): Promise<Session> {
+        const session = await prisma.session.findFirst({
+            where: {
+                id: sessionId,
+                userId,
+                ...activeSessionWhere(),
+            },
+        });
+
+        if (!session) {
+            throw new NotFoundError(SESSION_ERRORS.NOT_FOUND);
+        }
+
+        return session;
+    }
+}
+
+/******************************************************************************
+                                Export
+******************************************************************************/
+
+const sessionService = new SessionService();
+export default sessionService;
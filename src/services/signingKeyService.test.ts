@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { decodeJwtHeader, JwtError } from '@src/common/auth/jwt';
+import { MemorySigningKeyStore } from '@src/common/auth/signingKeys';
+import { prisma } from '@src/common/utils/prisma';
+import { resetMemoryPrisma } from '@src/test/memoryPrisma';
+import { SIGNING_KEYS } from '@src/models/signingKey';
+import signingKeyService from './signingKeyService';
+
+vi.mock('@src/common/utils/prisma', async () => {
+    const { createMemoryPrisma } = await import('@src/test/memoryPrisma');
+    return { prisma: createMemoryPrisma() };
+});
+
+const segment = (value: unknown): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const kidOf = (token: string) => decodeJwtHeader(token).kid;
+
+const publishedKids = async () => (await signingKeyService.getJwks()).keys.map(key => key.kid).sort();
+
+describe('signingKeyService', () => {
+    it('verifies the tokens it signs', async () => {
+        const token = await signingKeyService.sign({ sub: 'user-1' }, 60);
+
+        await expect(signingKeyService.verify(token)).resolves.toMatchObject({ sub: 'user-1' });
+    });
+
+    it.each([
+        ['is null', segment(null)],
+        ['has no key id', segment({ alg: 'RS256' })],
+        ['has a key id that is not a string', segment({ alg: 'RS256', kid: { $ne: null } })],
+    ])('rejects a token whose header %s with a JwtError', async (description, header) => {
+        const [, payload, signature] = (await signingKeyService.sign({}, 60)).split('.');
+
+        await expect(signingKeyService.verify(`${header}.${payload}.${signature}`)).rejects.toBeInstanceOf(JwtError);
+    });
+});
+
+describe('signingKeyService key rotation', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        resetMemoryPrisma(prisma);
+        signingKeyService.setStore(new MemorySigningKeyStore());
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('publishes the active and the next key', async () => {
+        const token = await signingKeyService.sign({}, 60);
+        const { keys } = await signingKeyService.getJwks();
+
+        expect(keys).toHaveLength(2);
+        expect(keys.map(key => key.kid)).toContain(kidOf(token));
+        expect(keys.every(key => key.use === 'sig' && !('d' in key))).toBe(true);
+    });
+
+    it('promotes the next key and keeps the retired one verifying', async () => {
+        const before = await signingKeyService.sign({ sub: 'user-1' }, 60);
+        const [first, second] = await publishedKids();
+
+        const result = await signingKeyService.rotate();
+
+        expect([first, second]).toContain(result.active);
+        expect(result.retired).toEqual([kidOf(before)]);
+        expect(result.active).not.toBe(kidOf(before));
+
+        const after = await signingKeyService.sign({ sub: 'user-1' }, 60);
+        expect(kidOf(after)).toBe(result.active);
+        await expect(signingKeyService.verify(before)).resolves.toMatchObject({ sub: 'user-1' });
+        expect(await publishedKids()).toEqual([kidOf(before), result.active, result.next].sort());
+
+        expect(await prisma.auditLog.findFirst({ where: { action: 'signing_key_rotated' } }))
+            .toMatchObject({ details: { active: result.active, next: result.next, retired: [kidOf(before)] } });
+    });
+
+    it('stops trusting a retired key once its grace period ends, then purges it', async () => {
+        const before = await signingKeyService.sign({}, SIGNING_KEYS.RETIRED_KEY_TTL * 2);
+        const { active, next } = await signingKeyService.rotate();
+
+        expect(await signingKeyService.purgeRetiredKeys()).toBe(0);
+
+        vi.setSystemTime(Date.now() + (SIGNING_KEYS.RETIRED_KEY_TTL + 1) * 1000);
+
+        await expect(signingKeyService.verify(before)).rejects.toThrow(new JwtError('Unknown signing key'));
+        expect(await publishedKids()).toEqual([active, next].sort());
+        expect(await signingKeyService.purgeRetiredKeys()).toBe(1);
+    });
+});
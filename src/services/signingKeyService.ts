@@ -0,0 +1,207 @@
+import logger from '@src/common/utils/logger';
+import { ENV } from '@src/common/constants/env';
+import { AUTH_CONFIG } from '@src/common/constants/authConfig';
+import { decodeJwtHeader, JwtError, signJwt, verifyJwt, type JwtClaims, type JwtVerifyOptions } from '@src/common/auth/jwt';
+import {
+    generateSigningKey,
+    MemorySigningKeyStore,
+    PostgresSigningKeyStore,
+    toSigningKeyPair,
+    type SigningKeyPair,
+    type SigningKeyRecord,
+    type SigningKeyStore,
+} from '@src/common/auth/signingKeys';
+import { SIGNING_KEYS, type Jwks, type KeyRotationResult, type PublicJwk } from '@src/models/signingKey';
+import authService from './authService';
+
+/******************************************************************************
+                            Signing Key Service
+******************************************************************************/
+
+class SigningKeyService {
+    private store: SigningKeyStore;
+    private keys: SigningKeyPair[] = [];
+    private loadedAt = 0;
+
+    constructor() {
+        this.store = ENV.JWT_KEY_STORE === 'postgres'
+            ? new PostgresSigningKeyStore(this.getEncryptionKey())
+            : new MemorySigningKeyStore();
+    }
+
+    /**
+     * Replace the key store (e.g. with one backed by a secrets manager)
+     */
+    setStore(store: SigningKeyStore): void {
+        this.store = store;
+        this.keys = [];
+        this.loadedAt = 0;
+    }
+
+    /**
+     * Sign claims with the active key; expiresIn in seconds
+     */
+    async sign(claims: object, expiresIn: number): Promise<string> {
+        const keys = await this.getKeys();
+        // Newest active key, in case two instances initialised the store at once
+        const active = keys
+            .filter(key => key.status === 'active')
+            .sort((a, b) => (b.activatedAt?.getTime() ?? 0) - (a.activatedAt?.getTime() ?? 0))[0];
+
+        if (!active) {
+            throw new Error('No active signing key');
+        }
+
+        return signJwt(claims, active, expiresIn);
+    }
+
+    /**
+     * Verify a token signed by a published key: active, next, or retired but not yet expired.
+     * Throws JwtError (or JwtExpiredError) when it can't be trusted or lacks the expected claims.
+     */
+    async verify(token: string, options: JwtVerifyOptions = {}): Promise<JwtClaims> {
+        const { kid } = decodeJwtHeader(token);
+
+        if (typeof kid !== 'string' || !kid) {
+            throw new JwtError('Token has no key id');
+        }
+
+        // Possibly a key another instance activated since the last load: reload, though not for
+        // every token with a made-up key id
+        const canReload = Date.now() - this.loadedAt >= SIGNING_KEYS.MIN_RELOAD_INTERVAL * 1000;
+        const key = await this.findVerificationKey(kid)
+            ?? (canReload ? await this.findVerificationKey(kid, true) : undefined);
+
+        if (!key) {
+            throw new JwtError('Unknown signing key');
+        }
+
+        return verifyJwt(token, key, options);
+    }
+
+    /**
+     * Public keys other services verify tokens with: active, next, and retired ones still in use
+     */
+    async getJwks(): Promise<Jwks> {
+        const keys = await this.getKeys();
+
+        return {
+            keys: keys.filter(key => this.isPublished(key)).map(key => ({
+                ...key.publicKey.export({ format: 'jwk' }),
+                kid: key.kid,
+                alg: key.algorithm,
+                use: 'sig',
+            } satisfies PublicJwk)),
+        };
+    }
+
+    /**
+     * Promote the next key to active and retire the active one, which keeps verifying for
+     * SIGNING_KEYS.RETIRED_KEY_TTL. New keys use JWT_ALGORITHM.
+     */
+    async rotate(): Promise<KeyRotationResult> {
+        const records = await this.store.list();
+        const now = new Date();
+        const retiredUntil = new Date(now.getTime() + SIGNING_KEYS.RETIRED_KEY_TTL * 1000);
+
+        const retired = records
+            .filter(key => key.status === 'active')
+            .map(key => ({ ...key, status: 'retired' as const, retiredAt: now, expiresAt: retiredUntil }));
+
+        const pendingNext = records.find(key => key.status === 'next');
+        // A next key for a previous JWT_ALGORITHM never signed anything: retire it without a grace period
+        const staleNext = pendingNext && pendingNext.algorithm !== ENV.JWT_ALGORITHM
+            ? [{ ...pendingNext, status: 'retired' as const, retiredAt: now, expiresAt: now }]
+            : [];
+
+        const promoted: SigningKeyRecord = pendingNext && staleNext.length === 0
+            ? { ...pendingNext, status: 'active', activatedAt: now }
+            : generateSigningKey(ENV.JWT_ALGORITHM, 'active');
+        const next = generateSigningKey(ENV.JWT_ALGORITHM, 'next');
+
+        await this.store.save([...retired, ...staleNext, promoted, next]);
+        this.loadedAt = 0;
+
+        await authService.logAuditEvent(null, 'signing_key_rotated', {
+            active: promoted.kid,
+            next: next.kid,
+            retired: retired.map(key => key.kid),
+        }, null);
+
+        logger.info(`Signing keys rotated: ${promoted.kid} is now active`);
+
+        return {
+            active: promoted.kid,
+            next: next.kid,
+            retired: retired.map(key => key.kid),
+            retiredUntil,
+        };
+    }
+
+    /**
+     * Delete retired keys that no longer verify anything
+     */
+    async purgeRetiredKeys(): Promise<number> {
+        const purged = await this.store.purgeExpired();
+
+        if (purged > 0) {
+            this.loadedAt = 0;
+        }
+
+        return purged;
+    }
+
+    /**
+     * Keys from the store, cached for SIGNING_KEYS.CACHE_TTL. An empty store gets an active
+     * and a next key on first use.
+     */
+    private async getKeys(forceReload: boolean = false): Promise<SigningKeyPair[]> {
+        if (!forceReload && Date.now() - this.loadedAt < SIGNING_KEYS.CACHE_TTL * 1000) {
+            return this.keys;
+        }
+
+        let records = await this.store.list();
+
+        if (!records.some(key => key.status === 'active')) {
+            const initial = [generateSigningKey(ENV.JWT_ALGORITHM, 'active'), generateSigningKey(ENV.JWT_ALGORITHM, 'next')];
+            await this.store.save(initial);
+            records = await this.store.list();
+
+            logger.info(`Generated ${ENV.JWT_ALGORITHM} signing keys (${this.store.name} store)`);
+        }
+
+        this.keys = records.map(toSigningKeyPair);
+        this.loadedAt = Date.now();
+
+        return this.keys;
+    }
+
+    private async findVerificationKey(kid: string, forceReload: boolean = false): Promise<SigningKeyPair | undefined> {
+        const keys = await this.getKeys(forceReload);
+
+        // Next keys count too: another instance may have promoted one since this cache was loaded
+        return keys.find(key => key.kid === kid && this.isPublished(key));
+    }
+
+    /**
+     * Whether a key can still verify tokens (and so belongs in the JWKS)
+     */
+    private isPublished(key: SigningKeyPair): boolean {
+        return key.status !== 'retired' || (key.expiresAt !== null && key.expiresAt > new Date());
+    }
+
+    private getEncryptionKey(): string {
+        const encryptionKey = AUTH_CONFIG.jwtKeyEncryptionKey;
+        if (!encryptionKey) {
+            throw new Error('JWT_KEY_ENCRYPTION_KEY must be set to keep signing keys in postgres');
+        }
+        return encryptionKey;
+    }
+}
+
+/******************************************************************************
+                                Export
+******************************************************************************/
+
+const signingKeyService = new SigningKeyService();
+export default signingKeyService;
@@ -0,0 +1,199 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import bcrypt from 'bcryptjs';
+import { BadRequestError, ConflictError, NotFoundError } from '@src/common/errors/ApiErrors';
+import { MemoryTransport } from '@src/common/mail/transports';
+import { prisma } from '@src/common/utils/prisma';
+import { resetMemoryPrisma } from '@src/test/memoryPrisma';
+import { ROLE_ERRORS } from '@src/models/role';
+import { USER_ERRORS, userRolesInclude, type UserWithPermissions } from '@src/models/user';
+import type { Role } from '@src/generated/prisma';
+import mailService from './mailService';
+import roleService from './roleService';
+import userService from './userService';
+
+vi.mock('@src/common/utils/prisma', async () => {
+    const { createMemoryPrisma } = await import('@src/test/memoryPrisma');
+    return { prisma: createMemoryPrisma() };
+});
+
+const createUser = async (email: string, roles: Role[], fields: { firstName?: string; isActive?: boolean } = {}) => {
+    const user = await prisma.user.create({
+        data: { email, ...fields, userRoles: { create: roles.map(role => ({ roleId: role.id })) } },
+        include: userRolesInclude(),
+    });
+    return roleService.withPermissions(user);
+};
+
+const createRole = (name: string, permissions: string[], isSystem: boolean = false) =>
+    prisma.role.create({ data: { name, displayName: name, permissions, isSystem } });
+
+const auditEntry = (action: string) => prisma.auditLog.findFirst({ where: { action } });
+
+describe('userService users', () => {
+    let admin: Role;
+    let member: Role;
+    let root: UserWithPermissions;
+    let transport: MemoryTransport;
+
+    beforeEach(async () => {
+        resetMemoryPrisma(prisma);
+        transport = new MemoryTransport();
+        mailService.setTransport(transport);
+
+        admin = await createRole('admin', ['*'], true);
+        member = await createRole('user', [], true);
+        root = await createUser('root@example.com', [admin]);
+    });
+
+    it('lists users matching a search, role and status, in the requested order', async () => {
+        await createUser('ada@example.com', [member], { firstName: 'Ada' });
+        await createUser('grace@example.com', [member], { firstName: 'Grace', isActive: false });
+        await createUser('adams@example.com', [], { firstName: 'Douglas' });
+
+        const byEmail = await userService.listUsers({ sortBy: 'email', sortOrder: 'asc', page: 1, limit: 3 });
+        expect(byEmail.items.map(user => user.email)).toEqual(['ada@example.com', 'adams@example.com', 'grace@example.com']);
+        expect(byEmail.pagination).toMatchObject({ total: 4, limit: 3 });
+
+        const search = await userService.listUsers({ search: 'ADA', sortBy: 'email', sortOrder: 'desc' });
+        expect(search.items.map(user => user.email)).toEqual(['adams@example.com', 'ada@example.com']);
+
+        const members = await userService.listUsers({ role: 'user', isActive: true });
+        expect(members.items.map(user => user.email)).toEqual(['ada@example.com']);
+        expect(members.items[0]?.roles).toEqual([{ id: member.id, name: 'user', displayName: 'user' }]);
+    });
+
+    it('creates a user with roles, without exposing the password', async () => {
+        const user = await userService.createUser(
+            { email: 'ada@example.com', password: 'correct horse', firstName: 'Ada', roleIds: [member.id, member.id] },
+            root
+        );
+
+        expect(user).toMatchObject({ email: 'ada@example.com', hasPassword: true, roles: [{ id: member.id }] });
+        expect(user).not.toHaveProperty('password');
+
+        const stored = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+        expect(await bcrypt.compare('correct horse', stored.password ?? '')).toBe(true);
+        expect(await auditEntry('user_created')).toMatchObject({
+            userId: root.id, resource: `user:${user.id}`, details: { email: 'ada@example.com', roleIds: [member.id, member.id] },
+        });
+    });
+
+    it('refuses to create a user with a taken identifier, a missing role or a role above the actor', async () => {
+        const support = await createRole('support', ['users:*', 'roles:assign']);
+        const manager = await createUser('manager@example.com', [support]);
+
+        await expect(userService.createUser({ email: 'root@example.com', password: 'correct horse' }, root))
+            .rejects.toThrow(new ConflictError(USER_ERRORS.EMAIL_TAKEN));
+        await expect(userService.createUser({ email: 'ada@example.com', password: 'correct horse', roleIds: ['missing'] }, root))
+            .rejects.toThrow(new BadRequestError(USER_ERRORS.ROLE_NOT_FOUND));
+        await expect(userService.createUser({ email: 'ada@example.com', password: 'correct horse', roleIds: [admin.id] }, manager))
+            .rejects.toThrow(ROLE_ERRORS.ABOVE_OWN_PERMISSIONS);
+
+        expect(await prisma.user.count({ where: { email: 'ada@example.com' } })).toBe(0);
+    });
+
+    it('refuses an update to an email or username another user holds', async () => {
+        await prisma.user.create({ data: { email: 'grace@example.com', username: 'grace' } });
+        const ada = await createUser('ada@example.com', [member]);
+
+        await expect(userService.updateUser(ada.id, { email: 'grace@example.com' }, root))
+            .rejects.toThrow(new ConflictError(USER_ERRORS.EMAIL_TAKEN));
+        await expect(userService.updateUser(ada.id, { username: 'grace' }, root))
+            .rejects.toThrow(new ConflictError(USER_ERRORS.USERNAME_TAKEN));
+        await expect(userService.updateUser('missing', { firstName: 'Nobody' }, root))
+            .rejects.toThrow(new NotFoundError(USER_ERRORS.NOT_FOUND));
+
+        // Keeping their own email is not a collision
+        await expect(userService.updateUser(ada.id, { email: 'ada@example.com', firstName: 'Ada' }, root))
+            .resolves.toMatchObject({ email: 'ada@example.com', firstName: 'Ada' });
+    });
+
+    it('replaces the roles of a user and tells the old address about a new email', async () => {
+        const support = await createRole('support', ['users:read']);
+        const ada = await createUser('ada@example.com', [member]);
+        await prisma.user.update({ where: { id: ada.id }, data: { emailVerifiedAt: new Date() } });
+
+        const user = await userService.updateUser(ada.id, { email: 'lovelace@example.com', roleIds: [support.id] }, root);
+        await mailService.drain();
+
+        expect(user).toMatchObject({ email: 'lovelace@example.com', emailVerified: false, roles: [{ id: support.id }] });
+        expect(transport.lastTo('ada@example.com')?.text).toContain('lovelace@example.com');
+        expect(await auditEntry('email_changed')).toMatchObject({
+            details: { oldEmail: 'ada@example.com', newEmail: 'lovelace@example.com', changedBy: root.id },
+        });
+        expect(await auditEntry('user_updated')).toMatchObject({ details: { changes: ['email', 'roleIds'] } });
+    });
+
+    it('signs a deactivated user out everywhere', async () => {
+        const ada = await createUser('ada@example.com', [member]);
+        const expiresAt = new Date(Date.now() + 60_000);
+        await prisma.session.createMany({
+            data: [{ userId: ada.id, expiresAt }, { userId: ada.id, expiresAt }],
+        });
+
+        await expect(userService.deactivateUser(ada.id, root.id)).resolves.toMatchObject({ isActive: false });
+
+        expect(await prisma.session.count({ where: { userId: ada.id, isRevoked: false } })).toBe(0);
+        expect(await auditEntry('user_deactivated')).toMatchObject({ userId: root.id, resource: `user:${ada.id}` });
+    });
+});
+
+describe('userService last administrator guard', () => {
+    let admin: Role;
+    let member: Role;
+    let root: UserWithPermissions;
+
+    const isActive = async (id: string) => (await prisma.user.findUniqueOrThrow({ where: { id } })).isActive;
+    const roleIdsOf = async (id: string) => (await prisma.userRole.findMany({ where: { userId: id } })).map(ur => ur.roleId);
+
+    beforeEach(async () => {
+        resetMemoryPrisma(prisma);
+
+        admin = await createRole('admin', ['*'], true);
+        member = await createRole('user', [], true);
+        root = await createUser('root@example.com', [admin]);
+    });
+
+    it('refuses to deactivate the last administrator', async () => {
+        await expect(userService.deactivateUser(root.id, root.id)).rejects.toThrow(new ConflictError(ROLE_ERRORS.LAST_ADMIN));
+        await expect(userService.updateUser(root.id, { isActive: false }, root))
+            .rejects.toThrow(new ConflictError(ROLE_ERRORS.LAST_ADMIN));
+
+        expect(await isActive(root.id)).toBe(true);
+    });
+
+    it('refuses to take the administrator role away from the last administrator', async () => {
+        await expect(userService.updateUser(root.id, { roleIds: [member.id] }, root))
+            .rejects.toThrow(new ConflictError(ROLE_ERRORS.LAST_ADMIN));
+        await expect(userService.removeRole(root.id, admin.id, root))
+            .rejects.toThrow(new ConflictError(ROLE_ERRORS.LAST_ADMIN));
+
+        expect(await roleIdsOf(root.id)).toEqual([admin.id]);
+    });
+
+    it('refuses to make the role of the last administrator temporary', async () => {
+        const expiresAt = new Date(Date.now() + 60_000).toISOString();
+
+        await expect(userService.assignRole(root.id, admin.id, { expiresAt }, root))
+            .rejects.toThrow(new ConflictError(ROLE_ERRORS.LAST_ADMIN));
+
+        expect(await prisma.userRole.findFirst({ where: { userId: root.id } })).toMatchObject({ expiresAt: null });
+    });
+
+    it('allows the same changes while another administrator remains', async () => {
+        const other = await createUser('other@example.com', [admin]);
+        const expiresAt = new Date(Date.now() + 60_000).toISOString();
+
+        await expect(userService.assignRole(root.id, admin.id, { expiresAt }, other)).resolves.toMatchObject({ role: { id: admin.id } });
+        await expect(userService.removeRole(root.id, admin.id, other)).resolves.toBeUndefined();
+        await expect(userService.deactivateUser(root.id, other.id)).resolves.toMatchObject({ isActive: false });
+    });
+
+    it('does not count an expired or inactive administrator as remaining', async () => {
+        const expired = await createUser('expired@example.com', [admin]);
+        await prisma.userRole.updateMany({ where: { userId: expired.id }, data: { expiresAt: new Date(Date.now() - 1000) } });
+        await createUser('inactive@example.com', [admin], { isActive: false });
+
+        await expect(userService.deactivateUser(root.id, root.id)).rejects.toThrow(new ConflictError(ROLE_ERRORS.LAST_ADMIN));
+    });
+});
@@ -0,0 +1,357 @@
+import bcrypt from 'bcryptjs';
+import { BadRequestError, ConflictError, NotFoundError } from '@src/common/errors/ApiErrors';
+import logger from '@src/common/utils/logger';
+import { prisma } from '@src/common/utils/prisma';
+import { createPaginationMeta, type PaginatedData } from '@src/common/types/ApiResponse';
+import {
+    activeAssignmentWhere,
+    DEFAULT_USER_QUERY,
+    getDisplayName,
+    transformUserToResponse,
+    userRolesInclude,
+    USER_ERRORS,
+    type CreateUserRequest,
+    type UpdateUserRequest,
+    type UserQuery,
+    type UserResponse,
+    type UserWithPermissions,
+    type UserWithRoles,
+} from '@src/models/user';
+import {
+    ROLE_ERRORS,
+    transformAssignmentToResponse,
+    type AssignRoleRequest,
+    type RoleAssignmentResponse,
+} from '@src/models/role';
+import type { Prisma } from '@src/generated/prisma';
+import roleService from './roleService';
+import sessionService from './sessionService';
+import authService from './authService';
+import mailService from './mailService';
+
+/******************************************************************************
+                                User Service
+******************************************************************************/
+
+class UserService {
+    private readonly saltRounds = 12;
+
+    /**
+     * List users with search, role and status filters
+     */
+    async listUsers(query: UserQuery): Promise<PaginatedData<UserResponse>> {
+        const page = query.page ?? DEFAULT_USER_QUERY.page;
+        const limit = query.limit ?? DEFAULT_USER_QUERY.limit;
+        const sortBy = query.sortBy ?? DEFAULT_USER_QUERY.sortBy;
+        const sortOrder = query.sortOrder ?? DEFAULT_USER_QUERY.sortOrder;
+
+        const where: Prisma.UserWhereInput = {
+            ...(query.isActive !== undefined && { isActive: query.isActive }),
+            ...(query.role && { userRoles: { some: { role: { name: query.role }, ...activeAssignmentWhere() } } }),
+            ...(query.search && {
+                OR: [
+                    { email: { contains: query.search, mode: 'insensitive' } },
+                    { username: { contains: query.search, mode: 'insensitive' } },
+                    { firstName: { contains: query.search, mode: 'insensitive' } },
+                    { lastName: { contains: query.search, mode: 'insensitive' } },
+                ],
+            }),
+        };
+
+        const [users, total] = await Promise.all([
+            prisma.user.findMany({
+                where,
+                include: userRolesInclude(),
+                // Secondary order keeps pages stable when the sort column has ties (or nulls)
+                orderBy: [{ [sortBy]: sortOrder }, { id: 'asc' }],
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.user.count({ where }),
+        ]);
+
+        return {
+            items: users.map(transformUserToResponse),
+            pagination: createPaginationMeta(page, limit, total),
+        };
+    }
+
+    /**
+     * Get a user with their roles and effective permissions
+     */
+    async getUserWithPermissions(id: string): Promise<UserWithPermissions> {
+        return roleService.withPermissions(await this.findUser(id));
+    }
+
+    /**
+     * Create a user on behalf of an administrator
+     */
+    async createUser(data: CreateUserRequest, actor: UserWithPermissions): Promise<UserResponse> {
+        await this.assertIdentifiersAvailable(data.email, data.username);
+
+        if (data.roleIds) {
+            await this.assertRolesExist(data.roleIds);
+            await roleService.assertCanGrant(actor, data.roleIds);
+        }
+
+        const hashedPassword = await bcrypt.hash(data.password, this.saltRounds);
+
+        const user = await prisma.user.create({
+            data: {
+                email: data.email,
+                username: data.username ?? null,
+                password: hashedPassword,
+                firstName: data.firstName ?? null,
+                lastName: data.lastName ?? null,
+                userRoles: {
+                    create: [...new Set(data.roleIds ?? [])].map(roleId => ({ roleId, createdBy: actor.id })),
+                },
+            },
+            include: userRolesInclude(),
+        });
+
+        await authService.logAuditEvent(
+            actor.id,
+            'user_created',
+            { email: user.email, roleIds: data.roleIds ?? [] },
+            `user:${user.id}`
+        );
+
+        logger.info(`User ${user.id} created by ${actor.id}`);
+
+        return transformUserToResponse(user);
+    }
+
+    /**
+     * Update a user. roleIds replaces the user's roles (roles kept from before keep their expiry);
+     * isActive: false deactivates the account. A new email (only ever someone else's, see userPolicy)
+     * is announced to the old address.
+     */
+    async updateUser(id: string, data: UpdateUserRequest, actor: UserWithPermissions): Promise<UserResponse> {
+        const existing = await this.findUser(id);
+
+        await this.assertIdentifiersAvailable(
+            data.email !== existing.email ? data.email : undefined,
+            data.username !== existing.username ? data.username : undefined,
+            id
+        );
+
+        if (data.roleIds) {
+            const heldRoleIds = new Set(existing.userRoles.map(ur => ur.roleId));
+
+            await this.assertRolesExist(data.roleIds);
+            await roleService.assertCanGrant(actor, data.roleIds.filter(roleId => !heldRoleIds.has(roleId)));
+        }
+
+        const applyUpdate = async (tx: Prisma.TransactionClient) => {
+            if (data.roleIds) {
+                // Expired assignments go too, so listing a role again grants it afresh
+                await tx.userRole.deleteMany({
+                    where: {
+                        userId: id,
+                        OR: [{ roleId: { notIn: data.roleIds } }, { expiresAt: { lte: new Date() } }],
+                    },
+                });
+                await tx.userRole.createMany({
+                    data: data.roleIds.map(roleId => ({ userId: id, roleId, createdBy: actor.id })),
+                    skipDuplicates: true,
+                });
+            }
+
+            return tx.user.update({
+                where: { id },
+                data: {
+                    ...(data.email !== undefined && data.email !== existing.email && {
+                        email: data.email,
+                        emailVerifiedAt: null, // The new address has to be verified again
+                    }),
+                    ...(data.username !== undefined && { username: data.username }),
+                    ...(data.firstName !== undefined && { firstName: data.firstName }),
+                    ...(data.lastName !== undefined && { lastName: data.lastName }),
+                    ...(data.locale !== undefined && { locale: data.locale }),
+                    ...(data.isActive !== undefined && { isActive: data.isActive }),
+                },
+                include: userRolesInclude(),
+            });
+        };
+
+        const user = data.roleIds || data.isActive === false
+            ? await roleService.withAdminRemaining(
+                id,
+                data.isActive === false ? [] : data.roleIds ?? existing.userRoles.map(ur => ur.roleId),
+                applyUpdate
+            )
+            : await prisma.$transaction(applyUpdate);
+
+        await authService.logAuditEvent(actor.id, 'user_updated', { changes: Object.keys(data) }, `user:${id}`);
+
+        if (user.email !== existing.email) {
+            await this.onEmailChanged(existing, user.email, actor.id);
+        }
+
+        if (existing.isActive && data.isActive === false) {
+            await this.onDeactivated(id, actor.id);
+        }
+
+        return transformUserToResponse(user);
+    }
+
+    /**
+     * Soft-delete a user: the account is deactivated (and signed out everywhere) but kept
+     */
+    async deactivateUser(id: string, actorId: string): Promise<UserResponse> {
+        const existing = await this.findUser(id);
+
+        const user = await roleService.withAdminRemaining(id, [], tx => tx.user.update({
+            where: { id },
+            data: { isActive: false },
+            include: userRolesInclude(),
+        }));
+
+        if (existing.isActive) {
+            await this.onDeactivated(id, actorId);
+        }
+
+        return transformUserToResponse(user);
+    }
+
+    /**
+     * Give a user a role, permanently or until expiresAt. Assigning a role the user already
+     * holds replaces the assignment, e.g. to extend or remove its expiry.
+     */
+    async assignRole(
+        userId: string,
+        roleId: string,
+        data: AssignRoleRequest,
+        actor: UserWithPermissions
+    ): Promise<RoleAssignmentResponse> {
+        const user = await this.findUser(userId);
+        await roleService.getRole(roleId);
+        await roleService.assertCanGrant(actor, [roleId]);
+
+        const expiresAt = data.expiresAt ? new Date(data.expiresAt) : null;
+
+        const upsert = (client: Prisma.TransactionClient) => client.userRole.upsert({
+            where: { userId_roleId: { userId, roleId } },
+            create: { userId, roleId, createdBy: actor.id, expiresAt },
+            update: { createdBy: actor.id, createdAt: new Date(), expiresAt },
+            include: { role: true },
+        });
+
+        // A role made temporary is as good as removed once it expires
+        const assignment = expiresAt
+            ? await roleService.withAdminRemaining(
+                userId,
+                user.userRoles.map(ur => ur.roleId).filter(id => id !== roleId),
+                upsert
+            )
+            : await upsert(prisma);
+
+        await authService.logAuditEvent(
+            actor.id,
+            'role_assigned',
+            { roleId, role: assignment.role.name, expiresAt },
+            `user:${userId}`
+        );
+
+        return transformAssignmentToResponse(assignment);
+    }
+
+    /**
+     * Take a role away from a user. Like granting, this is limited to roles within the actor's
+     * own permissions.
+     */
+    async removeRole(userId: string, roleId: string, actor: UserWithPermissions): Promise<void> {
+        const user = await this.findUser(userId);
+
+        if (!user.userRoles.some(ur => ur.roleId === roleId)) {
+            throw new NotFoundError(ROLE_ERRORS.ASSIGNMENT_NOT_FOUND);
+        }
+
+        await roleService.assertCanGrant(actor, [roleId]);
+
+        await roleService.withAdminRemaining(
+            userId,
+            user.userRoles.map(ur => ur.roleId).filter(id => id !== roleId),
+            tx => tx.userRole.delete({ where: { userId_roleId: { userId, roleId } } })
+        );
+
+        await authService.logAuditEvent(actor.id, 'role_removed', { roleId }, `user:${userId}`);
+    }
+
+    /**
+     * Tell the old address, which the owner may still read, where their account's email went
+     */
+    private async onEmailChanged(user: UserWithRoles, newEmail: string, actorId: string): Promise<void> {
+        mailService.enqueue('emailChangedByAdmin', user.email, {
+            name: getDisplayName(user),
+            newEmail,
+        }, user.locale);
+
+        await authService.logAuditEvent(
+            actorId,
+            'email_changed',
+            { oldEmail: user.email, newEmail, changedBy: actorId },
+            `user:${user.id}`
+        );
+    }
+
+    /**
+     * A deactivated user loses every session at once
+     */
+    private async onDeactivated(userId: string, actorId: string): Promise<void> {
+        await sessionService.revokeAllSessions(userId, actorId);
+        await authService.logAuditEvent(actorId, 'user_deactivated', {}, `user:${userId}`);
+    }
+
+    private async findUser(id: string): Promise<UserWithRoles> {
+        const user = await prisma.user.findUnique({
+            where: { id },
+            include: userRolesInclude(),
+        });
+
+        if (!user) {
+            throw new NotFoundError(USER_ERRORS.NOT_FOUND);
+        }
+
+        return user;
+    }
+
+    /**
+     * Reject an email or username that belongs to another user
+     */
+    private async assertIdentifiersAvailable(email?: string, username?: string, exceptUserId?: string): Promise<void> {
+        if (!email && !username) {
+            return;
+        }
+
+        const conflict = await prisma.user.findFirst({
+            where: {
+                OR: [
+                    ...(email ? [{ email }] : []),
+                    ...(username ? [{ username }] : []),
+                ],
+                ...(exceptUserId && { id: { not: exceptUserId } }),
+            },
+        });
+
+        if (conflict) {
+            throw new ConflictError(conflict.email === email ? USER_ERRORS.EMAIL_TAKEN : USER_ERRORS.USERNAME_TAKEN);
+        }
+    }
+
+    private async assertRolesExist(roleIds: string[]): Promise<void> {
+        const count = await prisma.role.count({ where: { id: { in: roleIds } } });
+
+        if (count !== new Set(roleIds).size) {
+            throw new BadRequestError(USER_ERRORS.ROLE_NOT_FOUND);
+        }
+    }
+}
+
+/******************************************************************************
+                                Export
+******************************************************************************/
+
+const userService = new UserService();
+export default userService;
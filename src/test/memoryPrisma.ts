@@ -0,0 +1,569 @@
+import { randomUUID } from 'crypto';
+import { Prisma, type PrismaClient } from '@src/generated/prisma';
+
+/******************************************************************************
+                                Types
+******************************************************************************/
+
+type Row = Record<string, any>;
+type Args = Record<string, any>;
+type Model = (typeof Prisma.dmmf.datamodel.models)[number];
+type Field = Model['fields'][number];
+
+const SCALAR_OPERATIONS = ['set', 'increment', 'decrement', 'multiply', 'divide', 'push'];
+const FILTER_OPERATORS = [
+    'equals', 'in', 'notIn', 'lt', 'lte', 'gt', 'gte', 'not', 'contains', 'startsWith', 'endsWith', 'has', 'mode', 'path',
+];
+
+const MODELS = new Map(Prisma.dmmf.datamodel.models.map(model => [model.name, model]));
+
+/******************************************************************************
+                                Helpers
+******************************************************************************/
+
+const isPlainObject = (value: unknown): value is Row =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date) && !Buffer.isBuffer(value);
+
+const toArray = <T>(value: T | T[]): T[] => Array.isArray(value) ? value : [value];
+
+const comparable = (value: unknown): unknown => value instanceof Date ? value.getTime() : value;
+
+const equal = (a: unknown, b: unknown): boolean => {
+    if (Buffer.isBuffer(a) && Buffer.isBuffer(b)) {
+        return a.equals(b);
+    }
+    if (typeof a === 'object' && a !== null && !(a instanceof Date)) {
+        return JSON.stringify(a) === JSON.stringify(b);
+    }
+    return comparable(a) === comparable(b);
+};
+
+// Rows sort like Postgres: nulls last when ascending
+const compareValues = (a: unknown, b: unknown): number => {
+    if (a === null || a === undefined) {
+        return b === null || b === undefined ? 0 : 1;
+    }
+    if (b === null || b === undefined) {
+        return -1;
+    }
+    const [left, right] = [comparable(a) as any, comparable(b) as any];
+    return left < right ? -1 : left > right ? 1 : 0;
+};
+
+const knownError = (code: string, message: string, meta?: Record<string, unknown>) =>
+    new Prisma.PrismaClientKnownRequestError(message, { code, clientVersion: Prisma.prismaVersion.client, ...(meta && { meta }) });
+
+const delegateName = (modelName: string): string => modelName.charAt(0).toLowerCase() + modelName.slice(1);
+
+/******************************************************************************
+                                Memory Database
+******************************************************************************/
+
+class MemoryDatabase {
+    tables = new Map<string, Row[]>([...MODELS.keys()].map(name => [name, []]));
+    private sequence = 0;
+
+    private model(name: string): Model {
+        return MODELS.get(name)!;
+    }
+
+    private table(name: string): Row[] {
+        return this.tables.get(name)!;
+    }
+
+    private field(model: Model, name: string): Field | undefined {
+        return model.fields.find(field => field.name === name);
+    }
+
+    /**
+     * The other side of a relation field, which holds the foreign key when this side doesn't
+     */
+    private opposite(model: Model, field: Field): Field {
+        return this.model(field.type).fields.find(candidate =>
+            candidate.relationName === field.relationName && (candidate !== field || model.name === field.type)
+            && (candidate.relationFromFields?.length ?? 0) > 0
+        )!;
+    }
+
+    private related(model: Model, field: Field, row: Row): Row[] {
+        const from = field.relationFromFields ?? [];
+
+        if (from.length > 0) {
+            const to = field.relationToFields ?? [];
+            return this.table(field.type).filter(target => from.every((name, i) => row[name] !== null && equal(target[to[i]!], row[name])));
+        }
+
+        const opposite = this.opposite(model, field);
+        const to = opposite.relationToFields ?? [];
+        return this.table(field.type).filter(target =>
+            (opposite.relationFromFields ?? []).every((name, i) => equal(target[name], row[to[i]!]))
+        );
+    }
+
+    /******************************************************************************
+                                    Filtering
+    ******************************************************************************/
+
+    matches(model: Model, row: Row, where: Args | undefined): boolean {
+        if (!where) {
+            return true;
+        }
+
+        return Object.entries(where).every(([key, condition]) => {
+            if (condition === undefined) {
+                return true;
+            }
+            if (key === 'AND') {
+                return toArray(condition).every((clause: Args) => this.matches(model, row, clause));
+            }
+            if (key === 'OR') {
+                return (condition as Args[]).some(clause => this.matches(model, row, clause));
+            }
+            if (key === 'NOT') {
+                return toArray(condition).every((clause: Args) => !this.matches(model, row, clause));
+            }
+
+            const field = this.field(model, key);
+
+            // A compound unique key, e.g. userId_roleId: { userId, roleId }
+            if (!field) {
+                return this.matches(model, row, condition);
+            }
+
+            if (field.kind === 'object') {
+                const related = this.related(model, field, row);
+                const target = this.model(field.type);
+
+                if (field.isList) {
+                    return (condition.some === undefined || related.some(r => this.matches(target, r, condition.some)))
+                        && (condition.every === undefined || related.every(r => this.matches(target, r, condition.every)))
+                        && (condition.none === undefined || !related.some(r => this.matches(target, r, condition.none)));
+                }
+
+                const [one] = related;
+                if (condition === null) {
+                    return !one;
+                }
+                if ('is' in condition || 'isNot' in condition) {
+                    return ('is' in condition ? (condition.is === null ? !one : !!one && this.matches(target, one, condition.is)) : true)
+                        && ('isNot' in condition ? (condition.isNot === null ? !!one : !one || !this.matches(target, one, condition.isNot)) : true);
+                }
+                return !!one && this.matches(target, one, condition);
+            }
+
+            return this.matchesScalar(row[key], condition);
+        });
+    }
+
+    private matchesScalar(value: unknown, condition: any): boolean {
+        if (!isPlainObject(condition) || !Object.keys(condition).every(key => FILTER_OPERATORS.includes(key))) {
+            return equal(value, condition);
+        }
+
+        // A Json filter on a nested value, e.g. details: { path: ['email'], equals }
+        if (condition.path) {
+            const { path, ...filter } = condition;
+            const nested = (path as string[]).reduce<unknown>((current, key) =>
+                isPlainObject(current) || Array.isArray(current) ? (current as Row)[key] : undefined, value);
+            return nested !== undefined && this.matchesScalar(nested, filter);
+        }
+
+        const insensitive = condition.mode === 'insensitive';
+        const text = (input: unknown) => insensitive ? String(input).toLowerCase() : String(input);
+
+        return Object.entries(condition).every(([operator, operand]: [string, any]) => {
+            switch (operator) {
+                case 'equals': return equal(value, operand);
+                case 'in': return (operand as unknown[]).some(candidate => equal(value, candidate));
+                case 'notIn': return !(operand as unknown[]).some(candidate => equal(value, candidate));
+                case 'lt': return value !== null && value !== undefined && compareValues(value, operand) < 0;
+                case 'lte': return value !== null && value !== undefined && compareValues(value, operand) <= 0;
+                case 'gt': return value !== null && value !== undefined && compareValues(value, operand) > 0;
+                case 'gte': return value !== null && value !== undefined && compareValues(value, operand) >= 0;
+                case 'not': return isPlainObject(operand)
+                    ? !this.matchesScalar(value, { ...operand, ...(condition.mode && { mode: condition.mode }) })
+                    : !equal(value, operand);
+                case 'contains': return typeof value === 'string' && text(value).includes(text(operand));
+                case 'startsWith': return typeof value === 'string' && text(value).startsWith(text(operand));
+                case 'endsWith': return typeof value === 'string' && text(value).endsWith(text(operand));
+                case 'has': return Array.isArray(value) && value.some(item => equal(item, operand));
+                default: return true; // mode
+            }
+        });
+    }
+
+    /******************************************************************************
+                                    Reading
+    ******************************************************************************/
+
+    findMany(modelName: string, args: Args = {}): Row[] {
+        const model = this.model(modelName);
+        let rows = this.table(modelName).filter(row => this.matches(model, row, args.where));
+
+        if (args.orderBy) {
+            const orderings = toArray(args.orderBy).flatMap((order: Args) => Object.entries(order));
+            rows = [...rows].sort((a, b) => {
+                for (const [key, direction] of orderings) {
+                    const sort = typeof direction === 'string' ? direction : direction.sort;
+                    const result = compareValues(a[key], b[key]);
+                    if (result !== 0) {
+                        return sort === 'desc' ? -result : result;
+                    }
+                }
+                return 0;
+            });
+        }
+
+        if (args.cursor) {
+            const start = rows.findIndex(row => this.matches(model, row, args.cursor));
+            rows = start === -1 ? [] : rows.slice(start);
+        }
+
+        return rows.slice(args.skip ?? 0, args.take !== undefined ? (args.skip ?? 0) + args.take : undefined);
+    }
+
+    find(modelName: string, where: Args | undefined): Row | undefined {
+        const model = this.model(modelName);
+        return this.table(modelName).find(row => this.matches(model, row, where));
+    }
+
+    /**
+     * Copy a row, with the relations and fields select/include ask for
+     */
+    project(modelName: string, row: Row, args: Args = {}): Row {
+        const model = this.model(modelName);
+        const result: Row = {};
+
+        for (const field of model.fields) {
+            const wanted = args.select ? args.select[field.name] : field.kind !== 'object' || args.include?.[field.name];
+            if (!wanted) {
+                continue;
+            }
+
+            if (field.kind !== 'object') {
+                const value = row[field.name];
+                result[field.name] = Array.isArray(value) ? [...value] : value;
+                continue;
+            }
+
+            const nested: Args = isPlainObject(wanted) ? wanted : {};
+            if (field.isList) {
+                const relatedIds = new Set(this.related(model, field, row));
+                result[field.name] = this.findMany(field.type, nested)
+                    .filter(candidate => relatedIds.has(candidate))
+                    .map(candidate => this.project(field.type, candidate, nested));
+            } else {
+                const [one] = this.related(model, field, row);
+                result[field.name] = one ? this.project(field.type, one, nested) : null;
+            }
+        }
+
+        return result;
+    }
+
+    /******************************************************************************
+                                    Writing
+    ******************************************************************************/
+
+    create(modelName: string, data: Args): Row {
+        const model = this.model(modelName);
+        const row: Row = {};
+
+        for (const field of model.fields) {
+            if (field.kind === 'object') {
+                continue;
+            }
+            const value = data[field.name];
+            row[field.name] = value !== undefined ? this.applyScalar(field, undefined, value) : this.defaultValue(field);
+        }
+
+        // Relations owned by this row (connect or create the target, then set the foreign key)
+        for (const field of model.fields) {
+            const write = data[field.name];
+            if (field.kind !== 'object' || field.isList || write === undefined) {
+                continue;
+            }
+            const target = write.connect ? this.find(field.type, write.connect) : this.create(field.type, write.create);
+            if (!target) {
+                throw knownError('P2025', `No ${field.type} found to connect`);
+            }
+            (field.relationFromFields ?? []).forEach((name, i) => { row[name] = target[field.relationToFields![i]!]; });
+        }
+
+        this.assertUnique(model, row);
+        this.table(modelName).push(row);
+
+        for (const field of model.fields) {
+            if (field.kind === 'object' && field.isList && data[field.name] !== undefined) {
+                this.writeList(model, field, row, data[field.name]);
+            }
+        }
+
+        return row;
+    }
+
+    update(modelName: string, row: Row, data: Args): Row {
+        const model = this.model(modelName);
+        const updated: Row = { ...row };
+
+        for (const [key, value] of Object.entries(data)) {
+            const field = this.field(model, key);
+            if (!field || value === undefined) {
+                continue;
+            }
+            if (field.kind !== 'object') {
+                updated[key] = this.applyScalar(field, row[key], value);
+            } else if (!field.isList) {
+                const target = value.connect ? this.find(field.type, value.connect) : null;
+                (field.relationFromFields ?? []).forEach((name, i) => {
+                    updated[name] = target ? target[field.relationToFields![i]!] : null;
+                });
+            }
+        }
+
+        model.fields.filter(field => field.isUpdatedAt).forEach(field => { updated[field.name] = new Date(); });
+
+        this.assertUnique(model, updated, row);
+        Object.assign(row, updated);
+
+        for (const [key, value] of Object.entries(data)) {
+            const field = this.field(model, key);
+            if (field?.kind === 'object' && field.isList && value !== undefined) {
+                this.writeList(model, field, row, value);
+            }
+        }
+
+        return row;
+    }
+
+    delete(modelName: string, row: Row): void {
+        const rows = this.table(modelName);
+        if (!rows.includes(row)) {
+            return;
+        }
+
+        // Rows pointing at this one follow their relation's onDelete
+        for (const model of MODELS.values()) {
+            for (const field of model.fields) {
+                if (field.kind !== 'object' || field.type !== modelName || !field.relationFromFields?.length) {
+                    continue;
+                }
+
+                const referencing = this.table(model.name).filter(candidate =>
+                    field.relationFromFields!.every((name, i) => equal(candidate[name], row[field.relationToFields![i]!]))
+                );
+                const onDelete = field.relationOnDelete ?? (field.isRequired ? 'Restrict' : 'SetNull');
+
+                for (const candidate of referencing) {
+                    if (onDelete === 'Cascade') {
+                        this.delete(model.name, candidate);
+                    } else if (onDelete === 'SetNull') {
+                        field.relationFromFields.forEach(name => { candidate[name] = null; });
+                    } else {
+                        throw knownError('P2003', `Foreign key constraint failed on ${model.name}.${field.name}`);
+                    }
+                }
+            }
+        }
+
+        rows.splice(rows.indexOf(row), 1);
+    }
+
+    private writeList(model: Model, field: Field, row: Row, write: Args): void {
+        const opposite = this.opposite(model, field);
+        const foreignKey: Row = Object.fromEntries(
+            (opposite.relationFromFields ?? []).map((name, i) => [name, row[opposite.relationToFields![i]!]])
+        );
+        const target = this.model(field.type);
+        const related = () => this.related(model, field, row);
+
+        for (const where of write.deleteMany !== undefined ? toArray(write.deleteMany) : []) {
+            related().filter(candidate => this.matches(target, candidate, where)).forEach(candidate => this.delete(field.type, candidate));
+        }
+        if (write.updateMany) {
+            for (const { where, data } of toArray(write.updateMany) as Args[]) {
+                related().filter(candidate => this.matches(target, candidate, where)).forEach(candidate => this.update(field.type, candidate, data));
+            }
+        }
+        for (const data of write.create !== undefined ? toArray(write.create) : []) {
+            this.create(field.type, { ...data, ...foreignKey });
+        }
+        for (const data of write.createMany ? toArray(write.createMany.data) : []) {
+            this.create(field.type, { ...data, ...foreignKey });
+        }
+    }
+
+    private applyScalar(field: Field, current: any, value: any): unknown {
+        if (value === Prisma.DbNull || value === Prisma.JsonNull) {
+            return null;
+        }
+        if (field.type === 'Json' || !isPlainObject(value) || !Object.keys(value).every(key => SCALAR_OPERATIONS.includes(key))) {
+            return value;
+        }
+        if ('set' in value) return value.set;
+        if ('increment' in value) return (current ?? 0) + value.increment;
+        if ('decrement' in value) return (current ?? 0) - value.decrement;
+        if ('multiply' in value) return (current ?? 0) * value.multiply;
+        if ('divide' in value) return (current ?? 0) / value.divide;
+        return [...(current ?? []), ...toArray(value.push)];
+    }
+
+    private defaultValue(field: Field): unknown {
+        if (field.isUpdatedAt) {
+            return new Date();
+        }
+        if (!field.hasDefaultValue) {
+            return field.isList ? [] : null;
+        }
+
+        const value = field.default as any;
+        if (isPlainObject(value) && 'name' in value) {
+            switch (value.name) {
+                case 'now': return new Date();
+                case 'autoincrement': return ++this.sequence;
+                default: return randomUUID(); // cuid, uuid
+            }
+        }
+        if (field.type === 'Json' && typeof value === 'string') {
+            return JSON.parse(value);
+        }
+        if (field.type === 'BigInt' && typeof value !== 'bigint') {
+            return BigInt(value);
+        }
+        return Array.isArray(value) ? [...value] : value;
+    }
+
+    private assertUnique(model: Model, row: Row, self?: Row): void {
+        const keys = [
+            ...model.fields.filter(field => field.isId || field.isUnique).map(field => [field.name]),
+            ...(model.primaryKey ? [model.primaryKey.fields] : []),
+            ...model.uniqueFields,
+        ];
+
+        for (const key of keys) {
+            const clash = this.table(model.name).find(candidate => candidate !== self
+                && key.every(name => row[name] !== null && row[name] !== undefined && equal(candidate[name], row[name])));
+            if (clash) {
+                throw knownError('P2002', `Unique constraint failed on ${model.name} (${key.join(', ')})`, { target: key });
+            }
+        }
+    }
+
+    snapshot(): Map<string, Row[]> {
+        return new Map([...this.tables].map(([name, rows]) => [name, rows.map(row => ({ ...row }))]));
+    }
+}
+
+/******************************************************************************
+                                Client
+******************************************************************************/
+
+/**
+ * Delegate for one model with the Prisma API the services use, run against the memory database
+ */
+const createDelegate = (db: MemoryDatabase, modelName: string) => {
+    const notFound = () => knownError('P2025', `No ${modelName} found`);
+    const findUnique = async (args: Args) => {
+        const row = db.find(modelName, args.where);
+        return row ? db.project(modelName, row, args) : null;
+    };
+    const findFirst = async (args: Args = {}) => {
+        const [row] = db.findMany(modelName, { ...args, take: 1 });
+        return row ? db.project(modelName, row, args) : null;
+    };
+    const createMany = (args: Args) => toArray(args.data).flatMap((data: Args) => {
+        try {
+            return [db.create(modelName, data)];
+        } catch (error) {
+            if (args.skipDuplicates && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                return [];
+            }
+            throw error;
+        }
+    });
+    const updateMany = (args: Args) => db.findMany(modelName, { where: args.where }).map(row => db.update(modelName, row, args.data));
+
+    return {
+        findUnique,
+        findFirst,
+        findUniqueOrThrow: async (args: Args) => (await findUnique(args)) ?? Promise.reject(notFound()),
+        findFirstOrThrow: async (args: Args) => (await findFirst(args)) ?? Promise.reject(notFound()),
+        findMany: async (args: Args = {}) => db.findMany(modelName, args).map(row => db.project(modelName, row, args)),
+        count: async (args: Args = {}) => db.findMany(modelName, { where: args.where }).length,
+        create: async (args: Args) => db.project(modelName, db.create(modelName, args.data), args),
+        createMany: async (args: Args) => ({ count: createMany(args).length }),
+        createManyAndReturn: async (args: Args) => createMany(args).map(row => db.project(modelName, row, args)),
+        update: async (args: Args) => {
+            const row = db.find(modelName, args.where);
+            if (!row) {
+                throw notFound();
+            }
+            return db.project(modelName, db.update(modelName, row, args.data), args);
+        },
+        updateMany: async (args: Args) => ({ count: updateMany(args).length }),
+        updateManyAndReturn: async (args: Args) => updateMany(args).map(row => db.project(modelName, row, args)),
+        upsert: async (args: Args) => {
+            const row = db.find(modelName, args.where);
+            const written = row ? db.update(modelName, row, args.update) : db.create(modelName, args.create);
+            return db.project(modelName, written, args);
+        },
+        delete: async (args: Args) => {
+            const row = db.find(modelName, args.where);
+            if (!row) {
+                throw notFound();
+            }
+            const deleted = db.project(modelName, row, args);
+            db.delete(modelName, row);
+            return deleted;
+        },
+        deleteMany: async (args: Args = {}) => {
+            const rows = db.findMany(modelName, { where: args.where });
+            rows.forEach(row => db.delete(modelName, row));
+            return { count: rows.length };
+        },
+    };
+};
+
+const databases = new WeakMap<object, MemoryDatabase>();
+
+/******************************************************************************
+                                Export
+******************************************************************************/
+
+/**
+ * In-memory stand-in for the Prisma client, for service tests that don't need a database.
+ * Relations, defaults, unique constraints and onDelete come from the schema; interactive
+ * transactions roll back when they throw. Raw queries are not supported. Use it by mocking
+ * '@src/common/utils/prisma' with `{ prisma: createMemoryPrisma() }`.
+ */
+export function createMemoryPrisma(): PrismaClient {
+    const db = new MemoryDatabase();
+    const client: Row = Object.fromEntries([...MODELS.keys()].map(name => [delegateName(name), createDelegate(db, name)]));
+
+    client.$connect = async () => undefined;
+    client.$disconnect = async () => undefined;
+    client.$transaction = async (work: Promise<unknown>[] | ((tx: unknown) => Promise<unknown>)) => {
+        if (Array.isArray(work)) {
+            return Promise.all(work);
+        }
+
+        const snapshot = db.snapshot();
+        try {
+            return await work(client);
+        } catch (error) {
+            db.tables = snapshot;
+            throw error;
+        }
+    };
+
+    databases.set(client, db);
+    return client as unknown as PrismaClient;
+}
+
+/**
+ * Empty every table of a client made by createMemoryPrisma (e.g. in beforeEach)
+ */
+export function resetMemoryPrisma(client: PrismaClient): void {
+    const db = databases.get(client);
+    db?.tables.forEach(rows => rows.splice(0));
+}
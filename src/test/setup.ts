@@ -0,0 +1,7 @@
+import { vi } from 'vitest';
+
+// Keep test output readable: nothing under test asserts on log lines
+vi.mock('@src/common/utils/logger', () => {
+    const silent = () => undefined;
+    return { default: { info: silent, imp: silent, warn: silent, err: silent } };
+});
@@ -0,0 +1,29 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+const fromRoot = (path) => fileURLToPath(new URL(path, import.meta.url));
+
+export default defineConfig({
+    resolve: {
+        // Same aliases as the "paths" in tsconfig.json
+        alias: {
+            '@src': fromRoot('./src'),
+            '@utils': fromRoot('./src/common/utils'),
+            '@constants': fromRoot('./src/common/constants'),
+            '@errors': fromRoot('./src/common/errors'),
+            '@middlewares': fromRoot('./src/common/middlewares'),
+            '@routes': fromRoot('./src/routes'),
+        },
+    },
+    test: {
+        include: ['src/**/*.test.ts'],
+        setupFiles: ['src/test/setup.ts'],
+        // Read by the constants and services at import
+        env: {
+            NODE_ENV: 'test',
+            JWT_SECRET: 'test-secret-not-for-production',
+            MAIL_TRANSPORT: 'memory',
+            MAIL_RETRY_DELAY_MS: '0', // Retries happen at once instead of after a second
+        },
+    },
+});